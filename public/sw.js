@@ -0,0 +1,47 @@
+// Service worker de notificações push do Game Deal Buddy
+
+// Assume as abas já abertas: navigate() só funciona em abas controladas por este worker
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  if (!event.data) return;
+
+  let message;
+  try {
+    message = event.data.json();
+  } catch {
+    message = { title: "Game Deal Buddy", body: event.data.text(), url: "/notifications" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      icon: "/favicon.ico",
+      badge: "/favicon.ico",
+      tag: message.tag,
+      data: { url: message.url || "/notifications" },
+    })
+  );
+});
+
+// Abre o jogo do alerta, reaproveitando uma aba do app se houver
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const appWindow = windows.find((client) => new URL(client.url).origin === self.location.origin);
+      if (appWindow) {
+        return appWindow
+          .navigate(url)
+          .then((client) => (client || appWindow).focus())
+          // Aba ainda sem controle do worker: abre o link em uma nova
+          .catch(() => self.clients.openWindow(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
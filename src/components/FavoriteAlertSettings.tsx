@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { toast } from "@/hooks/use-toast";
+import { STORES } from "@/lib/stores";
+import { useTranslation } from "@/i18n";
+import type { Currency } from "@/hooks/use-preferences";
+
+export interface FavoriteAlert {
+  target_price: number | null;
+  target_currency: string;
+  min_discount: number | null;
+  allowed_stores: string[] | null;
+}
+
+interface FavoriteAlertSettingsProps {
+  favoriteId: string;
+  alert: FavoriteAlert;
+  // Moeda escolhida em Configurações; o alvo passa a valer nela ao salvar
+  currency: Currency;
+  onSaved: (alert: FavoriteAlert) => void;
+  onCancel: () => void;
+}
+
+// Converte o texto do campo em número, tratando vazio como "sem condição"
+const parseOptionalNumber = (value: string) => {
+  const parsed = parseFloat(value.replace(",", "."));
+  return value.trim() === "" || Number.isNaN(parsed) ? null : parsed;
+};
+
+export const FavoriteAlertSettings = ({ favoriteId, alert, currency, onSaved, onCancel }: FavoriteAlertSettingsProps) => {
+  // Um alvo salvo em outra moeda não vale mais: o campo começa vazio
+  const [targetPrice, setTargetPrice] = useState(
+    alert.target_currency === currency ? alert.target_price?.toString() ?? "" : "",
+  );
+  const [minDiscount, setMinDiscount] = useState(alert.min_discount?.toString() ?? "");
+  // Sem lojas marcadas vale qualquer loja
+  const [stores, setStores] = useState<string[]>(alert.allowed_stores ?? []);
+  const [saving, setSaving] = useState(false);
+  const { t } = useTranslation();
+
+  const toggleStore = (store: string, checked: boolean) => {
+    setStores(prev => checked ? [...prev, store] : prev.filter(s => s !== store));
+  };
+
+  const handleSave = async () => {
+    const discount = parseOptionalNumber(minDiscount);
+    const updated: FavoriteAlert = {
+      target_price: parseOptionalNumber(targetPrice),
+      target_currency: currency,
+      min_discount: discount !== null ? Math.round(discount) : null,
+      allowed_stores: stores.length > 0 ? stores : null,
+    };
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from("favorites")
+        .update(updated)
+        .eq("id", favoriteId);
+
+      if (error) throw error;
+
+      onSaved(updated);
+      toast({
+        title: t("alertSettings.savedTitle"),
+        description: t("alertSettings.savedDescription"),
+      });
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : t("alertSettings.saveError"),
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="basis-full border-t border-foreground/10 pt-3 space-y-3 cursor-default"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`target-price-${favoriteId}`} className="text-xs">{t("alertSettings.targetPrice", { currency })}</Label>
+          <Input
+            id={`target-price-${favoriteId}`}
+            inputMode="decimal"
+            placeholder={t("alertSettings.any")}
+            value={targetPrice}
+            onChange={(e) => setTargetPrice(e.target.value)}
+            className="h-9"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`min-discount-${favoriteId}`} className="text-xs">{t("alertSettings.minDiscount")}</Label>
+          <Input
+            id={`min-discount-${favoriteId}`}
+            inputMode="numeric"
+            placeholder={t("alertSettings.any")}
+            value={minDiscount}
+            onChange={(e) => setMinDiscount(e.target.value)}
+            className="h-9"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 flex-wrap text-xs">
+        <span className="text-muted-foreground">{t("alertSettings.stores")}</span>
+        {STORES.map((store) => (
+          <label key={store} className="flex items-center gap-1.5 cursor-pointer">
+            <Checkbox
+              checked={stores.includes(store)}
+              onCheckedChange={(checked) => toggleStore(store, checked === true)}
+            />
+            {store}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2 justify-end">
+        <Button size="sm" variant="outline" onClick={onCancel} disabled={saving}>
+          {t("common.cancel")}
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving ? t("common.saving") : t("alertSettings.saveAlert")}
+        </Button>
+      </div>
+    </div>
+  );
+};
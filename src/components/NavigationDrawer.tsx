@@ -7,7 +7,8 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { Menu, User, Heart, Home, Settings } from "lucide-react";
+import { Menu, User, Heart, Home, Settings, Bell } from "lucide-react";
+import { useTranslation } from "@/i18n";
 
 interface NavigationDrawerProps {
   children?: React.ReactNode;
@@ -15,6 +16,7 @@ interface NavigationDrawerProps {
 
 export const NavigationDrawer = ({ children }: NavigationDrawerProps) => {
   const navigate = useNavigate();
+  const { t } = useTranslation();
 
   return (
     <Sheet>
@@ -27,7 +29,7 @@ export const NavigationDrawer = ({ children }: NavigationDrawerProps) => {
       </SheetTrigger>
       <SheetContent side="left" className="w-[280px]">
         <SheetHeader>
-          <SheetTitle className="text-left">Menu</SheetTitle>
+          <SheetTitle className="text-left">{t("nav.menu")}</SheetTitle>
         </SheetHeader>
         <div className="flex flex-col gap-2 mt-6">
           <Button
@@ -36,7 +38,7 @@ export const NavigationDrawer = ({ children }: NavigationDrawerProps) => {
             onClick={() => navigate("/")}
           >
             <Home className="w-5 h-5" />
-            <span>Início</span>
+            <span>{t("nav.home")}</span>
           </Button>
           <Button
             variant="ghost"
@@ -44,7 +46,7 @@ export const NavigationDrawer = ({ children }: NavigationDrawerProps) => {
             onClick={() => navigate("/profile")}
           >
             <User className="w-5 h-5" />
-            <span>Perfil</span>
+            <span>{t("nav.profile")}</span>
           </Button>
           <Button
             variant="ghost"
@@ -52,7 +54,15 @@ export const NavigationDrawer = ({ children }: NavigationDrawerProps) => {
             onClick={() => navigate("/favorites")}
           >
             <Heart className="w-5 h-5" />
-            <span>Favoritos</span>
+            <span>{t("nav.favorites")}</span>
+          </Button>
+          <Button
+            variant="ghost"
+            className="justify-start gap-3 h-12"
+            onClick={() => navigate("/notifications")}
+          >
+            <Bell className="w-5 h-5" />
+            <span>{t("nav.notifications")}</span>
           </Button>
           <Button
             variant="ghost"
@@ -60,7 +70,7 @@ export const NavigationDrawer = ({ children }: NavigationDrawerProps) => {
             onClick={() => navigate("/settings")}
           >
             <Settings className="w-5 h-5" />
-            <span>Configurações</span>
+            <span>{t("nav.settings")}</span>
           </Button>
         </div>
       </SheetContent>
@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useTranslation } from "@/i18n";
+
+export const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  useEffect(() => {
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+
+    const fetchUnreadCount = async () => {
+      const { count, error } = await supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .is("read_at", null);
+
+      if (error) {
+        console.error("Error fetching unread notifications:", error);
+        return;
+      }
+
+      setUnreadCount(count ?? 0);
+    };
+
+    const subscribe = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      await fetchUnreadCount();
+
+      // Atualiza o contador quando chegam ou são lidas notificações
+      channel = supabase
+        .channel(`notifications-${user.id}`)
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "notifications", filter: `user_id=eq.${user.id}` },
+          () => fetchUnreadCount(),
+        )
+        .subscribe();
+    };
+
+    subscribe();
+
+    return () => {
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, []);
+
+  return (
+    <button onClick={() => navigate("/notifications")} className="p-2 relative" aria-label={t("nav.notifications")}>
+      <Bell className="w-6 h-6 text-foreground" />
+      {unreadCount > 0 && (
+        <span className="absolute top-0.5 right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+          {unreadCount > 99 ? "99+" : unreadCount}
+        </span>
+      )}
+    </button>
+  );
+};
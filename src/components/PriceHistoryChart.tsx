@@ -0,0 +1,248 @@
+import { useEffect, useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceDot, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { usePreferences } from "@/hooks/use-preferences";
+import { useTranslation } from "@/i18n";
+import { regionForCurrency } from "@shared/regions.ts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+
+interface PricePoint {
+  recordedAt: string;
+  price: number;
+  originalPrice: number | null;
+  discount: number;
+}
+
+type PriceHistory = Record<string, PricePoint[]>;
+
+interface DiscountMarker {
+  key: string;
+  time: number;
+  price: number;
+  kind: "start" | "end";
+}
+
+const RANGES = [
+  { label: "priceHistory.range30Days", days: 30 },
+  { label: "priceHistory.range90Days", days: 90 },
+  { label: "priceHistory.range1Year", days: 365 },
+  { label: "priceHistory.rangeAll", days: null },
+] as const;
+
+const STORE_COLORS = [
+  "hsl(221 83% 20%)",
+  "hsl(142 71% 35%)",
+  "hsl(24 95% 53%)",
+  "hsl(280 60% 45%)",
+  "hsl(0 72% 51%)",
+  "hsl(195 85% 40%)",
+  "hsl(45 93% 42%)",
+  "hsl(330 70% 50%)",
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Nomes de loja podem ter espaços, mas as chaves viram variáveis CSS (--color-<chave>)
+const storeKey = (store: string) => store.replace(/[^a-zA-Z0-9]/g, "_");
+
+interface PriceHistoryChartProps {
+  appid: string;
+}
+
+export const PriceHistoryChart = ({ appid }: PriceHistoryChartProps) => {
+  const [history, setHistory] = useState<PriceHistory>({});
+  const [currency, setCurrency] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rangeDays, setRangeDays] = useState<number | null>(90);
+  const { preferences, isLoading: preferencesLoading } = usePreferences();
+  const { t, formatPrice, formatDate } = useTranslation();
+
+  useEffect(() => {
+    if (preferencesLoading) return;
+
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase.functions.invoke("fetch-price-history", {
+          body: { appid, cc: regionForCurrency(preferences.currency).code },
+        });
+
+        if (error) throw error;
+
+        setHistory(data?.history ?? {});
+        setCurrency(data?.currency ?? null);
+      } catch (error) {
+        console.error("Error fetching price history:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [appid, preferences.currency, preferencesLoading]);
+
+  const stores = useMemo(() => Object.keys(history), [history]);
+
+  const chartConfig = useMemo<ChartConfig>(
+    () =>
+      Object.fromEntries(
+        stores.map((store, index) => [
+          storeKey(store),
+          { label: store, color: STORE_COLORS[index % STORE_COLORS.length] },
+        ]),
+      ),
+    [stores],
+  );
+
+  // Junta as séries de todas as lojas em um único eixo de tempo.
+  // O preço de cada loja vale até a próxima mudança registrada (linha em degraus).
+  const { data, markers } = useMemo(() => {
+    const now = Date.now();
+    const rangeStart = rangeDays ? now - rangeDays * DAY_MS : null;
+
+    const times = new Set<number>([now]);
+    if (rangeStart) times.add(rangeStart);
+    for (const points of Object.values(history)) {
+      for (const point of points) {
+        const time = new Date(point.recordedAt).getTime();
+        if (!rangeStart || time >= rangeStart) times.add(time);
+      }
+    }
+
+    const sortedTimes = Array.from(times).sort((a, b) => a - b);
+    const rows = sortedTimes.map((time) => {
+      const row: Record<string, number | null> = { time };
+      for (const [store, points] of Object.entries(history)) {
+        const current = points.filter((point) => new Date(point.recordedAt).getTime() <= time).pop();
+        row[storeKey(store)] = current ? current.price : null;
+      }
+      return row;
+    });
+
+    const discountMarkers: DiscountMarker[] = [];
+    for (const [store, points] of Object.entries(history)) {
+      points.forEach((point, index) => {
+        const previous = points[index - 1];
+        const time = new Date(point.recordedAt).getTime();
+        if (!previous || (rangeStart && time < rangeStart)) return;
+
+        if (previous.discount === 0 && point.discount > 0) {
+          discountMarkers.push({ key: storeKey(store), time, price: point.price, kind: "start" });
+        } else if (previous.discount > 0 && point.discount === 0) {
+          discountMarkers.push({ key: storeKey(store), time, price: point.price, kind: "end" });
+        }
+      });
+    }
+
+    return { data: rows, markers: discountMarkers };
+  }, [history, rangeDays]);
+
+  return (
+    <div className="bg-card border-2 border-border rounded-xl overflow-hidden">
+      <div className="bg-primary/10 px-6 py-4 border-b border-border flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold text-foreground">{t("priceHistory.title")}</h2>
+          <p className="text-sm text-muted-foreground">{t("priceHistory.subtitle")}</p>
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          {RANGES.map((range) => (
+            <Button
+              key={range.label}
+              size="sm"
+              onClick={() => setRangeDays(range.days)}
+              variant={rangeDays === range.days ? "default" : "secondary"}
+              className="rounded-full px-4"
+            >
+              {t(range.label)}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4">
+        {loading ? (
+          <div className="p-8 text-center">
+            <p className="text-muted-foreground">{t("priceHistory.loading")}</p>
+          </div>
+        ) : stores.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-muted-foreground">{t("priceHistory.empty")}</p>
+          </div>
+        ) : (
+          <>
+            <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+              <LineChart data={data} margin={{ left: 12, right: 12, top: 12 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(time: number) => formatDate(time, { day: "2-digit", month: "2-digit", year: "2-digit" })}
+                />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={70}
+                  tickFormatter={(value: number) => formatPrice(value, currency ?? preferences.currency)}
+                />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_, payload) =>
+                        payload?.[0] ? formatDate(payload[0].payload.time, { dateStyle: "short" }) : ""
+                      }
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                {stores.map((store) => (
+                  <Line
+                    key={store}
+                    dataKey={storeKey(store)}
+                    type="stepAfter"
+                    stroke={`var(--color-${storeKey(store)})`}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+                {markers.map((marker) => (
+                  <ReferenceDot
+                    key={`${marker.key}-${marker.time}`}
+                    x={marker.time}
+                    y={marker.price}
+                    r={5}
+                    fill={marker.kind === "start" ? "hsl(142 71% 35%)" : "hsl(var(--background))"}
+                    stroke={`var(--color-${marker.key})`}
+                    strokeWidth={2}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+            <div className="flex gap-4 justify-center text-xs text-muted-foreground mt-2">
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-2.5 h-2.5 rounded-full bg-green-600" />
+                {t("priceHistory.saleStart")}
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-2.5 h-2.5 rounded-full border-2 border-foreground" />
+                {t("priceHistory.saleEnd")}
+              </span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import { TrendingDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useTranslation } from "@/i18n";
+import type { PriceLowV2, PriceLowsV2 } from "@shared/price-api.ts";
+
+export type PriceLow = PriceLowV2;
+export type PriceLows = PriceLowsV2;
+
+interface PriceLowBadgeProps {
+  low?: PriceLow | null;
+  className?: string;
+}
+
+// Coloca o preço atual em contexto com o menor preço já registrado
+export const PriceLowBadge = ({ low, className }: PriceLowBadgeProps) => {
+  const { t, formatMoney } = useTranslation();
+
+  if (!low || low.current === null) return null;
+
+  if (low.isAllTimeLow) {
+    return (
+      <span className={cn("inline-flex items-center gap-1 px-2 py-0.5 bg-primary text-primary-foreground rounded-full text-xs font-semibold", className)}>
+        <TrendingDown className="w-3 h-3" />
+        {t("priceLow.allTime")}
+      </span>
+    );
+  }
+
+  if (low.isLow90Days) {
+    return (
+      <span className={cn("inline-flex items-center gap-1 px-2 py-0.5 bg-green-600 text-white rounded-full text-xs font-semibold", className)}>
+        <TrendingDown className="w-3 h-3" />
+        {t("priceLow.last90Days")}
+      </span>
+    );
+  }
+
+  if (low.percentAboveLow !== null && low.percentAboveLow > 0) {
+    return (
+      <span className={cn("inline-block px-2 py-0.5 bg-muted text-muted-foreground rounded-full text-xs", className)}>
+        {t("priceLow.aboveLow", { percent: low.percentAboveLow, price: formatMoney(low.allTimeLow) })}
+      </span>
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,160 @@
+import { useEffect, useMemo, useState } from "react";
+import { ExternalLink } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { useTranslation, type TranslationKey } from "@/i18n";
+import type { Currency } from "@/hooks/use-preferences";
+import { LATEST_API_VERSION, type RegionPriceV2 } from "@shared/price-api.ts";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Diferença para a mediana a partir da qual o preço da região é destacado
+const ANOMALY_THRESHOLD_PERCENT = 30;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+interface RegionPriceComparisonProps {
+  appid: string;
+  gameName?: string;
+  currency: Currency;
+}
+
+// Menor preço do jogo em cada região, convertido para a moeda do usuário
+export const RegionPriceComparison = ({ appid, gameName, currency }: RegionPriceComparisonProps) => {
+  const [regions, setRegions] = useState<RegionPriceV2[]>([]);
+  const [ratesDate, setRatesDate] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { t, formatMoney, formatDate } = useTranslation();
+
+  useEffect(() => {
+    const fetchRegionPrices = async () => {
+      try {
+        setLoading(true);
+        const { data, error } = await supabase.functions.invoke("fetch-region-prices", {
+          body: { appid, currency, name: gameName, version: LATEST_API_VERSION },
+        });
+
+        if (error) throw error;
+
+        setRegions(data?.regions ?? []);
+        setRatesDate(data?.rates_date ?? null);
+      } catch (error) {
+        console.error("Error fetching region prices:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRegionPrices();
+  }, [appid, gameName, currency]);
+
+  const { medianPrice, cheapestRegion } = useMemo(() => {
+    const priced = regions.filter((region) => region.convertedPrice !== null);
+    if (priced.length === 0) return { medianPrice: null, cheapestRegion: null };
+
+    const cheapest = priced.reduce((min, region) => region.convertedPrice!.amount < min.convertedPrice!.amount ? region : min);
+    return { medianPrice: median(priced.map((region) => region.convertedPrice!.amount)), cheapestRegion: cheapest.region };
+  }, [regions]);
+
+  const differenceFromMedian = (value: number) =>
+    medianPrice ? Math.round(((value - medianPrice) / medianPrice) * 100) : 0;
+
+  return (
+    <div className="bg-card border-2 border-border rounded-xl overflow-hidden">
+      <div className="bg-primary/10 px-6 py-4 border-b border-border">
+        <h2 className="text-xl font-bold text-foreground">{t("regionComparison.title")}</h2>
+        <p className="text-sm text-muted-foreground">{t("regionComparison.subtitle", { currency })}</p>
+        {!loading && ratesDate && (
+          <p className="text-xs text-muted-foreground mt-1">
+            {t("regionComparison.ratesDate", { date: formatDate(ratesDate, { dateStyle: "short" }) })}
+          </p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        {loading ? (
+          <div className="p-8 text-center">
+            <p className="text-muted-foreground">{t("regionComparison.loading")}</p>
+          </div>
+        ) : regions.length === 0 ? (
+          <div className="p-8 text-center">
+            <p className="text-muted-foreground">{t("regionComparison.empty")}</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="font-bold">{t("regionComparison.region")}</TableHead>
+                <TableHead className="font-bold">{t("regionComparison.store")}</TableHead>
+                <TableHead className="font-bold">{t("regionComparison.localPrice")}</TableHead>
+                <TableHead className="font-bold">{t("regionComparison.convertedPrice", { currency })}</TableHead>
+                <TableHead className="font-bold">{t("regionComparison.vsMedian")}</TableHead>
+                <TableHead className="font-bold text-right">{t("gameDetails.action")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {regions.map((region) => {
+                const difference = region.convertedPrice !== null ? differenceFromMedian(region.convertedPrice.amount) : null;
+                const anomalous = difference !== null && Math.abs(difference) >= ANOMALY_THRESHOLD_PERCENT;
+
+                return (
+                  <TableRow key={region.region} className={region.region === cheapestRegion ? "bg-green-600/10" : undefined}>
+                    <TableCell className="font-medium">
+                      {t(`regionComparison.regions.${region.region}` as TranslationKey)}
+                      <span className="block text-xs text-muted-foreground">{region.currency}</span>
+                    </TableCell>
+                    <TableCell>{region.store ?? "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {region.price ? formatMoney(region.price) : t("regionComparison.unavailable")}
+                      {region.discount > 0 && (
+                        <span className="ml-2 inline-block px-2 py-0.5 bg-green-600 text-white rounded-full text-xs font-semibold">
+                          -{region.discount}%
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-semibold">
+                      {region.convertedPrice ? formatMoney(region.convertedPrice) : "—"}
+                      {region.region === cheapestRegion && (
+                        <span className="block text-xs font-normal text-green-600">{t("regionComparison.cheapest")}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {difference !== null && (
+                        <span className={anomalous ? "inline-block px-2 py-0.5 bg-destructive text-destructive-foreground rounded-full text-xs font-semibold" : "text-muted-foreground"}>
+                          {difference > 0 ? `+${difference}%` : `${difference}%`}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {region.buyUrl && (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          onClick={() => window.open(region.buyUrl!, "_blank")}
+                          className="gap-2"
+                        >
+                          {t("regionComparison.open")}
+                          <ExternalLink className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+};
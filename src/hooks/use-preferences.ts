@@ -0,0 +1,159 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { toast } from "@/hooks/use-toast";
+import { TranslatableError, translate, translateError } from "@/i18n/translate";
+
+export type Language = "pt-BR" | "en-US" | "es-ES";
+export type Currency = "BRL" | "USD" | "EUR" | "GBP";
+export type DigestFrequency = "never" | "daily" | "weekly";
+
+export interface Preferences {
+  language: Language;
+  currency: Currency;
+  notificationsEnabled: boolean;
+  notifyPriceDrop: boolean;
+  notifyNewDeal: boolean;
+  digestFrequency: DigestFrequency;
+}
+
+// Valores usados antes do usuário salvar qualquer preferência (mesmos defaults da tabela)
+export const DEFAULT_PREFERENCES: Preferences = {
+  language: "pt-BR",
+  currency: "BRL",
+  notificationsEnabled: true,
+  notifyPriceDrop: true,
+  notifyNewDeal: true,
+  digestFrequency: "never",
+};
+
+const PREFERENCES_QUERY_KEY = ["preferences"];
+
+const COLUMNS = {
+  language: "language",
+  currency: "currency",
+  notificationsEnabled: "notifications_enabled",
+  notifyPriceDrop: "notify_price_drop",
+  notifyNewDeal: "notify_new_deal",
+  digestFrequency: "digest_frequency",
+} as const satisfies Record<keyof Preferences, keyof TablesUpdate<"user_preferences">>;
+
+const fetchPreferences = async (): Promise<Preferences> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return DEFAULT_PREFERENCES;
+
+  const { data, error } = await supabase
+    .from("user_preferences")
+    .select("language, currency, notifications_enabled, notify_price_drop, notify_new_deal, digest_frequency")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_PREFERENCES;
+
+  return {
+    language: data.language as Language,
+    currency: data.currency as Currency,
+    notificationsEnabled: data.notifications_enabled,
+    notifyPriceDrop: data.notify_price_drop,
+    notifyNewDeal: data.notify_new_deal,
+    digestFrequency: data.digest_frequency as DigestFrequency,
+  };
+};
+
+const savePreferences = async (changes: Partial<Preferences>) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new TranslatableError("common.notAuthenticated");
+
+  const row: TablesUpdate<"user_preferences"> = {};
+  for (const [key, value] of Object.entries(changes)) {
+    Object.assign(row, { [COLUMNS[key as keyof Preferences]]: value });
+  }
+
+  const { error } = await supabase
+    .from("user_preferences")
+    .upsert({ ...row, user_id: user.id });
+
+  if (error) throw error;
+};
+
+// Uma só inscrição em onAuthStateChange por QueryClient, dividida entre todas as instâncias do hook
+const authListeners = new Map<QueryClient, { count: number; unsubscribe: () => void }>();
+
+const watchAuthChanges = (queryClient: QueryClient) => {
+  let listener = authListeners.get(queryClient);
+  if (!listener) {
+    // Outro usuário pode entrar na mesma aba
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_IN" || event === "SIGNED_OUT") {
+        queryClient.invalidateQueries({ queryKey: PREFERENCES_QUERY_KEY });
+      }
+    });
+    listener = { count: 0, unsubscribe: () => subscription.unsubscribe() };
+    authListeners.set(queryClient, listener);
+  }
+  listener.count++;
+
+  const current = listener;
+  return () => {
+    current.count--;
+    if (current.count === 0) {
+      current.unsubscribe();
+      authListeners.delete(queryClient);
+    }
+  };
+};
+
+/**
+ * Preferências do usuário logado (idioma, moeda e notificações), compartilhadas pelo app via React Query.
+ * updatePreferences aplica a mudança na hora e desfaz se não for possível salvar.
+ */
+export const usePreferences = () => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: PREFERENCES_QUERY_KEY,
+    queryFn: fetchPreferences,
+    staleTime: Infinity,
+  });
+
+  useEffect(() => watchAuthChanges(queryClient), [queryClient]);
+
+  const mutation = useMutation({
+    mutationFn: savePreferences,
+    onMutate: async (changes) => {
+      await queryClient.cancelQueries({ queryKey: PREFERENCES_QUERY_KEY });
+      const previous = queryClient.getQueryData<Preferences>(PREFERENCES_QUERY_KEY);
+      queryClient.setQueryData<Preferences>(PREFERENCES_QUERY_KEY, {
+        ...(previous ?? DEFAULT_PREFERENCES),
+        ...changes,
+      });
+      return { previous };
+    },
+    onError: (error, _changes, context) => {
+      queryClient.setQueryData(PREFERENCES_QUERY_KEY, context?.previous);
+      const language = context?.previous?.language ?? DEFAULT_PREFERENCES.language;
+      toast({
+        title: translate(language, "common.error"),
+        description: translateError(language, error, "settings.preferencesError"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updatePreferences = async (changes: Partial<Preferences>) => {
+    try {
+      await mutation.mutateAsync(changes);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    preferences: data ?? DEFAULT_PREFERENCES,
+    isLoading,
+    updatePreferences,
+  };
+};
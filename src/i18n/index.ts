@@ -0,0 +1,49 @@
+import { useCallback, useMemo } from "react";
+import { formatDistanceToNow, type Locale } from "date-fns";
+import { enUS, es, ptBR } from "date-fns/locale";
+import { usePreferences, type Language } from "@/hooks/use-preferences";
+import { formatPrice } from "@/lib/format";
+import { formatMoney, type Money } from "@shared/money.ts";
+import { translate, translateError, type TranslationKey, type TranslationParams } from "./translate";
+
+export {
+  translate,
+  translateError,
+  TranslatableError,
+  type TranslationKey,
+  type TranslationParams,
+} from "./translate";
+
+const DATE_LOCALES: Record<Language, Locale> = {
+  "pt-BR": ptBR,
+  "en-US": enUS,
+  "es-ES": es,
+};
+
+/**
+ * Textos e formatação de datas, números e preços no idioma salvo nas preferências.
+ */
+export const useTranslation = () => {
+  const { preferences } = usePreferences();
+  const { language } = preferences;
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(language, key, params),
+    [language],
+  );
+
+  return useMemo(() => ({
+    t,
+    translateError: (error: unknown, fallback: TranslationKey) => translateError(language, error, fallback),
+    language,
+    dateLocale: DATE_LOCALES[language],
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) =>
+      new Intl.NumberFormat(language, options).format(value),
+    formatPrice: (value: number, currency: string) => formatPrice(value, currency, language),
+    formatMoney: (value: Money) => formatMoney(value, language),
+    formatDate: (date: Date | number | string, options?: Intl.DateTimeFormatOptions) =>
+      new Intl.DateTimeFormat(language, options).format(new Date(date)),
+    formatRelativeTime: (date: Date | number | string) =>
+      formatDistanceToNow(new Date(date), { addSuffix: true, locale: DATE_LOCALES[language] }),
+  }), [t, language]);
+};
@@ -0,0 +1,271 @@
+import { DIGEST_MESSAGES } from "@shared/email/digest-messages.ts";
+import { NOTIFICATION_MESSAGES } from "@shared/push/notification-messages.ts";
+import type { Messages } from "./pt-BR";
+
+export const enUS: Messages = {
+  common: {
+    loading: "Loading...",
+    back: "Back",
+    error: "Error",
+    cancel: "Cancel",
+    save: "Save",
+    saving: "Saving...",
+    notAuthenticated: "User is not signed in",
+  },
+  nav: {
+    menu: "Menu",
+    home: "Home",
+    profile: "Profile",
+    favorites: "Favorites",
+    notifications: "Notifications",
+    settings: "Settings",
+  },
+  index: {
+    title: "Compare Game Prices",
+    subtitle: "Find the best prices for your favorite games!",
+    cta: "Get Started",
+  },
+  notFound: {
+    message: "Oops! Page not found",
+    backHome: "Return to Home",
+  },
+  auth: {
+    loginTitle: "Sign in to start using our tool!",
+    emailPlaceholder: "email",
+    passwordPlaceholder: "password",
+    noAccount: "Not registered yet?",
+    createAccountHere: "Create a new account here!",
+    signupLink: "Sign up!",
+    signingIn: "Signing in...",
+    signIn: "Sign in",
+    signupTitle: "Sign up",
+    signupSubtitle: "fill in your user details",
+    usernamePlaceholder: "username",
+    confirmPasswordPlaceholder: "confirm password",
+    acceptTerms: "I have read and accept the terms and conditions",
+    finishing: "Finishing...",
+    finish: "Finish",
+    tagline: "Shop for less with our price comparisons!",
+    validationError: "Validation error",
+    loginSuccessTitle: "Signed in!",
+    loginSuccessDescription: "Welcome back!",
+    passwordsMismatch: "Passwords do not match",
+    mustAcceptTerms: "You need to accept the terms and conditions",
+    signupSuccessTitle: "Signed up!",
+    signupSuccessDescription: "Your account was created successfully!",
+    invalidCredentials: "Incorrect email or password",
+    genericError: "Something went wrong. Please try again.",
+    validation: {
+      invalidEmail: "Invalid email",
+      emailTooLong: "Email must be at most {max} characters",
+      passwordRequired: "Password is required",
+      passwordTooShort: "Password must be at least {min} characters",
+      passwordTooLong: "Password must be at most {max} characters",
+      passwordWeak: "Password must contain at least one uppercase letter, one lowercase letter and one number",
+      usernameTooShort: "Username must be at least {min} characters",
+      usernameTooLong: "Username must be at most {max} characters",
+      usernameInvalid: "Username may only contain letters, numbers and underscores",
+    },
+  },
+  price: {
+    from: "Was:",
+    to: "Now:",
+    label: "Price:",
+  },
+  feed: {
+    searchPlaceholder: "Search...",
+    headline: "Compare prices and shop smarter!",
+    allGenres: "All",
+    sortDiscount: "Discount",
+    sortAlphabetic: "Alphabetical",
+    noGames: "No games found",
+    loadMore: "Load more",
+    loadError: "Could not load games",
+    favoriteAddedTitle: "Added to favorites",
+    favoriteAddedDescription: "{title} was added to your favorites",
+    favoriteRemovedTitle: "Removed from favorites",
+    favoriteRemovedDescription: "{title} was removed from your favorites",
+    favoriteError: "Could not update favorites",
+  },
+  genres: {
+    "1": "Action",
+    "2": "Strategy",
+    "3": "RPG",
+    "4": "Casual",
+    "9": "Racing",
+    "18": "Sports",
+    "23": "Indie",
+    "25": "Adventure",
+    "28": "Simulation",
+    "29": "Massively Multiplayer",
+    "37": "Free to Play",
+    "70": "Early Access",
+    "71": "Sexual Content",
+    "72": "Nudity",
+    "73": "Violent",
+    "74": "Gore",
+  },
+  gameDetails: {
+    notFound: "Game not found",
+    loadError: "Could not load game details",
+    description: "Description",
+    developer: "Developer:",
+    publisher: "Publisher:",
+    priceComparisonTitle: "Price Comparison",
+    priceComparisonSubtitle: "Compare real-time prices from the main stores",
+    updated: "Updated {time}",
+    refreshing: "refreshing prices...",
+    loadingPrices: "Loading prices...",
+    pricesErrorTitle: "Error fetching prices",
+    pricesErrorDescription: "Could not load prices",
+    store: "Store",
+    originalPrice: "Original Price",
+    currentPrice: "Current Price",
+    discount: "Discount",
+    lowestPrice: "Lowest Price",
+    action: "Action",
+    buy: "Buy",
+    keyFor: "{platform} key",
+    keyReseller: "Key reseller",
+    storeUnavailable: "{store} temporarily unavailable",
+    tabStores: "Stores",
+    tabRegions: "Regions",
+  },
+  regionComparison: {
+    title: "Price by Region",
+    subtitle: "Lowest price in each region, converted to {currency}",
+    ratesDate: "Exchange rates from {date}",
+    loading: "Loading regional prices...",
+    empty: "Could not load regional prices",
+    region: "Region",
+    store: "Store",
+    localPrice: "Local Price",
+    convertedPrice: "In {currency}",
+    vsMedian: "vs. Median",
+    cheapest: "cheapest",
+    unavailable: "Unavailable",
+    open: "View",
+    regions: {
+      BR: "Brazil",
+      US: "United States",
+      AR: "Argentina",
+      TR: "Turkey",
+      EU: "European Union",
+      UK: "United Kingdom",
+    },
+  },
+  favorites: {
+    title: "Favorites",
+    loading: "Loading favorites...",
+    emptyTitle: "No favorites yet",
+    emptyDescription: "Start adding games to your favorites!",
+    loadError: "Could not load favorites",
+    removeError: "Could not remove from favorites",
+    alert: "Alert:",
+    alertUpTo: "up to {price}",
+    alertMinDiscount: "{discount}% off or more",
+    alertStores: "on {stores}",
+  },
+  alertSettings: {
+    targetPrice: "Target price ({currency})",
+    minDiscount: "Minimum discount (%)",
+    any: "Any",
+    stores: "Stores:",
+    saveAlert: "Save alert",
+    savedTitle: "Alert saved",
+    savedDescription: "We'll let you know when the price hits your target",
+    saveError: "Could not save the alert",
+  },
+  priceLow: {
+    allTime: "All-time low",
+    last90Days: "90-day low",
+    aboveLow: "{percent}% above the low ({price})",
+  },
+  priceHistory: {
+    title: "Price History",
+    subtitle: "See how the price changed in each store",
+    range30Days: "30 days",
+    range90Days: "90 days",
+    range1Year: "1 year",
+    rangeAll: "All",
+    loading: "Loading history...",
+    empty: "There is no price history for this game yet",
+    saleStart: "Sale start",
+    saleEnd: "Sale end",
+  },
+  notifications: {
+    title: "Notifications",
+    markAllRead: "Mark all as read",
+    unread_one: "{count} unread",
+    unread_other: "{count} unread",
+    emptyTitle: "No notifications",
+    emptyDescription: "We'll let you know here when your favorites drop in price",
+    loadError: "Could not load notifications",
+    ...NOTIFICATION_MESSAGES["en-US"],
+  },
+  profile: {
+    title: "Profile",
+    favorites_one: "Favorite",
+    favorites_other: "Favorites",
+    savedGames_one: "Saved Game",
+    savedGames_other: "Saved Games",
+    username: "Username",
+    usernamePlaceholder: "Enter your username",
+    email: "Email",
+    edit: "Edit Profile",
+    updatedTitle: "Profile updated",
+    updatedDescription: "Your information was updated successfully!",
+    updateError: "Could not update the profile",
+    photoUpdatedTitle: "Photo updated",
+    photoUpdatedDescription: "Your profile photo was updated successfully!",
+    photoError: "Could not update the photo",
+  },
+  settings: {
+    title: "Settings",
+    notifications: "Notifications",
+    notificationsDescription: "Get alerts about deals and discounts",
+    notificationsEnabledTitle: "Notifications enabled",
+    notificationsEnabledDescription: "You will receive notifications about deals",
+    notificationsDisabledTitle: "Notifications disabled",
+    notificationsDisabledDescription: "You will no longer receive notifications",
+    priceDropAlerts: "Price alerts for favorites",
+    newDeals: "New deals on favorites",
+    push: "Push notifications on this device",
+    pushPermissionDeniedTitle: "Permission denied",
+    pushPermissionDeniedDescription: "Allow notifications in your browser to receive push alerts",
+    pushError: "Could not change push notifications",
+    pushUnsupported: "Push notifications are not supported in this browser",
+    pushInvalidSubscription: "Invalid push subscription",
+    digest: "Email Digest",
+    digestDescription: "Get price drops, all-time lows and alerts for your favorites",
+    digestPlaceholder: "Select the frequency",
+    digestDaily: "Daily",
+    digestWeekly: "Weekly",
+    digestNever: "Never",
+    digestEnabledTitle: "Email digest enabled",
+    digestDailyDescription: "You will receive a daily digest of your favorites",
+    digestWeeklyDescription: "You will receive a weekly digest of your favorites",
+    digestDisabledTitle: "Email digest disabled",
+    digestDisabledDescription: "You will no longer receive the deals digest",
+    language: "Language",
+    languageDescription: "Choose the app language",
+    languagePlaceholder: "Select the language",
+    languageChangedTitle: "Language changed",
+    languageChangedDescription: "Language changed to English (USA)",
+    currency: "Pricing Region",
+    currencyDescription: "Choose the currency prices are shown in",
+    currencyPlaceholder: "Select the currency",
+    currencyBRL: "Brazilian Real (R$)",
+    currencyUSD: "US Dollar (US$)",
+    currencyEUR: "Euro (€)",
+    currencyGBP: "Pound Sterling (£)",
+    currencyChangedTitle: "Currency changed",
+    currencyChangedDescription: "Pricing currency changed to {currency}",
+    preferencesError: "Could not save your preferences",
+    logout: "Sign Out",
+    logoutSuccessTitle: "Signed out",
+    logoutSuccessDescription: "You have been signed out successfully",
+    logoutError: "Error signing out",
+  },
+  digest: DIGEST_MESSAGES["en-US"],
+};
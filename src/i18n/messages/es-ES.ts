@@ -0,0 +1,271 @@
+import { DIGEST_MESSAGES } from "@shared/email/digest-messages.ts";
+import { NOTIFICATION_MESSAGES } from "@shared/push/notification-messages.ts";
+import type { Messages } from "./pt-BR";
+
+export const esES: Messages = {
+  common: {
+    loading: "Cargando...",
+    back: "Volver",
+    error: "Error",
+    cancel: "Cancelar",
+    save: "Guardar",
+    saving: "Guardando...",
+    notAuthenticated: "Usuario no autenticado",
+  },
+  nav: {
+    menu: "Menú",
+    home: "Inicio",
+    profile: "Perfil",
+    favorites: "Favoritos",
+    notifications: "Notificaciones",
+    settings: "Configuración",
+  },
+  index: {
+    title: "Compara Precios de Juegos",
+    subtitle: "¡Encuentra los mejores precios para tus juegos favoritos!",
+    cta: "Empezar Ahora",
+  },
+  notFound: {
+    message: "¡Vaya! Página no encontrada",
+    backHome: "Volver al inicio",
+  },
+  auth: {
+    loginTitle: "¡Inicia sesión para empezar a usar nuestra herramienta!",
+    emailPlaceholder: "email",
+    passwordPlaceholder: "contraseña",
+    noAccount: "¿Todavía no tienes cuenta?",
+    createAccountHere: "¡Crea una cuenta nueva aquí!",
+    signupLink: "¡Registrarse!",
+    signingIn: "Entrando...",
+    signIn: "Entrar",
+    signupTitle: "Área de registro",
+    signupSubtitle: "completa tus datos de usuario",
+    usernamePlaceholder: "nombre de usuario",
+    confirmPasswordPlaceholder: "confirmar contraseña",
+    acceptTerms: "He leído y acepto los términos y condiciones",
+    finishing: "Finalizando...",
+    finish: "Finalizar",
+    tagline: "¡Compra más barato con nuestras comparaciones de precios!",
+    validationError: "Error de validación",
+    loginSuccessTitle: "¡Sesión iniciada!",
+    loginSuccessDescription: "¡Bienvenido de nuevo!",
+    passwordsMismatch: "Las contraseñas no coinciden",
+    mustAcceptTerms: "Debes aceptar los términos y condiciones",
+    signupSuccessTitle: "¡Registro completado!",
+    signupSuccessDescription: "¡Tu cuenta se creó correctamente!",
+    invalidCredentials: "Email o contraseña incorrectos",
+    genericError: "Ocurrió un error. Inténtalo de nuevo.",
+    validation: {
+      invalidEmail: "Email no válido",
+      emailTooLong: "El email debe tener como máximo {max} caracteres",
+      passwordRequired: "La contraseña es obligatoria",
+      passwordTooShort: "La contraseña debe tener al menos {min} caracteres",
+      passwordTooLong: "La contraseña debe tener como máximo {max} caracteres",
+      passwordWeak: "La contraseña debe contener al menos una mayúscula, una minúscula y un número",
+      usernameTooShort: "El nombre de usuario debe tener al menos {min} caracteres",
+      usernameTooLong: "El nombre de usuario debe tener como máximo {max} caracteres",
+      usernameInvalid: "El nombre de usuario solo puede contener letras, números y guiones bajos",
+    },
+  },
+  price: {
+    from: "Antes:",
+    to: "Ahora:",
+    label: "Precio:",
+  },
+  feed: {
+    searchPlaceholder: "Buscar...",
+    headline: "¡Compara precios y compra de forma más eficiente!",
+    allGenres: "Todos",
+    sortDiscount: "Descuento",
+    sortAlphabetic: "Orden Alfabético",
+    noGames: "No se encontraron juegos",
+    loadMore: "Cargar más",
+    loadError: "No se pudieron cargar los juegos",
+    favoriteAddedTitle: "Añadido a favoritos",
+    favoriteAddedDescription: "{title} se añadió a tus favoritos",
+    favoriteRemovedTitle: "Eliminado de favoritos",
+    favoriteRemovedDescription: "{title} se eliminó de tus favoritos",
+    favoriteError: "No se pudieron actualizar los favoritos",
+  },
+  genres: {
+    "1": "Acción",
+    "2": "Estrategia",
+    "3": "Rol",
+    "4": "Casual",
+    "9": "Carreras",
+    "18": "Deportes",
+    "23": "Indie",
+    "25": "Aventura",
+    "28": "Simulación",
+    "29": "Multijugador masivo",
+    "37": "Gratuito",
+    "70": "Acceso anticipado",
+    "71": "Contenido sexual",
+    "72": "Desnudos",
+    "73": "Violento",
+    "74": "Gore",
+  },
+  gameDetails: {
+    notFound: "Juego no encontrado",
+    loadError: "No se pudieron cargar los detalles del juego",
+    description: "Descripción",
+    developer: "Desarrolladora:",
+    publisher: "Editora:",
+    priceComparisonTitle: "Comparación de Precios",
+    priceComparisonSubtitle: "Compara en tiempo real los precios de las principales tiendas",
+    updated: "Actualizado {time}",
+    refreshing: "actualizando precios...",
+    loadingPrices: "Cargando precios...",
+    pricesErrorTitle: "Error al buscar precios",
+    pricesErrorDescription: "No se pudieron cargar los precios",
+    store: "Tienda",
+    originalPrice: "Precio Original",
+    currentPrice: "Precio Actual",
+    discount: "Descuento",
+    lowestPrice: "Precio Mínimo",
+    action: "Acción",
+    buy: "Comprar",
+    keyFor: "Clave para {platform}",
+    keyReseller: "Revendedor de claves",
+    storeUnavailable: "{store} no disponible temporalmente",
+    tabStores: "Tiendas",
+    tabRegions: "Regiones",
+  },
+  regionComparison: {
+    title: "Precio por Región",
+    subtitle: "Precio más bajo en cada región, convertido a {currency}",
+    ratesDate: "Tipo de cambio del {date}",
+    loading: "Cargando precios de las regiones...",
+    empty: "No se pudieron cargar los precios de las regiones",
+    region: "Región",
+    store: "Tienda",
+    localPrice: "Precio Local",
+    convertedPrice: "En {currency}",
+    vsMedian: "vs. Mediana",
+    cheapest: "más barato",
+    unavailable: "No disponible",
+    open: "Ver",
+    regions: {
+      BR: "Brasil",
+      US: "Estados Unidos",
+      AR: "Argentina",
+      TR: "Turquía",
+      EU: "Unión Europea",
+      UK: "Reino Unido",
+    },
+  },
+  favorites: {
+    title: "Favoritos",
+    loading: "Cargando favoritos...",
+    emptyTitle: "Aún no tienes favoritos",
+    emptyDescription: "¡Empieza añadiendo juegos a tus favoritos!",
+    loadError: "No se pudieron cargar los favoritos",
+    removeError: "No se pudo eliminar de favoritos",
+    alert: "Alerta:",
+    alertUpTo: "hasta {price}",
+    alertMinDiscount: "{discount}% de descuento o más",
+    alertStores: "en {stores}",
+  },
+  alertSettings: {
+    targetPrice: "Precio objetivo ({currency})",
+    minDiscount: "Descuento mínimo (%)",
+    any: "Cualquiera",
+    stores: "Tiendas:",
+    saveAlert: "Guardar alerta",
+    savedTitle: "Alerta guardada",
+    savedDescription: "Te avisaremos cuando el precio alcance tu objetivo",
+    saveError: "No se pudo guardar la alerta",
+  },
+  priceLow: {
+    allTime: "Mínimo histórico",
+    last90Days: "Mínimo en 90 días",
+    aboveLow: "{percent}% por encima del mínimo ({price})",
+  },
+  priceHistory: {
+    title: "Historial de Precios",
+    subtitle: "Mira cómo cambió el precio en cada tienda",
+    range30Days: "30 días",
+    range90Days: "90 días",
+    range1Year: "1 año",
+    rangeAll: "Todo",
+    loading: "Cargando historial...",
+    empty: "Todavía no hay historial de precios para este juego",
+    saleStart: "Inicio de la oferta",
+    saleEnd: "Fin de la oferta",
+  },
+  notifications: {
+    title: "Notificaciones",
+    markAllRead: "Marcar todas como leídas",
+    unread_one: "{count} sin leer",
+    unread_other: "{count} sin leer",
+    emptyTitle: "No hay notificaciones",
+    emptyDescription: "Te avisaremos aquí cuando tus favoritos bajen de precio",
+    loadError: "No se pudieron cargar las notificaciones",
+    ...NOTIFICATION_MESSAGES["es-ES"],
+  },
+  profile: {
+    title: "Perfil",
+    favorites_one: "Favorito",
+    favorites_other: "Favoritos",
+    savedGames_one: "Juego Guardado",
+    savedGames_other: "Juegos Guardados",
+    username: "Nombre de usuario",
+    usernamePlaceholder: "Escribe tu nombre de usuario",
+    email: "Email",
+    edit: "Editar Perfil",
+    updatedTitle: "Perfil actualizado",
+    updatedDescription: "¡Tu información se actualizó correctamente!",
+    updateError: "No se pudo actualizar el perfil",
+    photoUpdatedTitle: "Foto actualizada",
+    photoUpdatedDescription: "¡Tu foto de perfil se actualizó correctamente!",
+    photoError: "No se pudo actualizar la foto",
+  },
+  settings: {
+    title: "Configuración",
+    notifications: "Notificaciones",
+    notificationsDescription: "Recibe alertas sobre ofertas y descuentos",
+    notificationsEnabledTitle: "Notificaciones activadas",
+    notificationsEnabledDescription: "Recibirás notificaciones sobre ofertas",
+    notificationsDisabledTitle: "Notificaciones desactivadas",
+    notificationsDisabledDescription: "Ya no recibirás notificaciones",
+    priceDropAlerts: "Alertas de precio de favoritos",
+    newDeals: "Nuevas ofertas de favoritos",
+    push: "Notificaciones push en este dispositivo",
+    pushPermissionDeniedTitle: "Permiso denegado",
+    pushPermissionDeniedDescription: "Permite las notificaciones en el navegador para recibir alertas push",
+    pushError: "No se pudieron cambiar las notificaciones push",
+    pushUnsupported: "Las notificaciones push no son compatibles con este navegador",
+    pushInvalidSubscription: "Suscripción push no válida",
+    digest: "Resumen por Email",
+    digestDescription: "Recibe las bajadas de precio, mínimos históricos y alertas de tus favoritos",
+    digestPlaceholder: "Selecciona la frecuencia",
+    digestDaily: "Diario",
+    digestWeekly: "Semanal",
+    digestNever: "Nunca",
+    digestEnabledTitle: "Resumen por email activado",
+    digestDailyDescription: "Recibirás un resumen diario de tus favoritos",
+    digestWeeklyDescription: "Recibirás un resumen semanal de tus favoritos",
+    digestDisabledTitle: "Resumen por email desactivado",
+    digestDisabledDescription: "Ya no recibirás el resumen de ofertas",
+    language: "Idioma",
+    languageDescription: "Elige el idioma de la aplicación",
+    languagePlaceholder: "Selecciona el idioma",
+    languageChangedTitle: "Idioma cambiado",
+    languageChangedDescription: "Idioma cambiado a Español",
+    currency: "Región de Precios",
+    currencyDescription: "Elige la moneda en la que se muestran los precios",
+    currencyPlaceholder: "Selecciona la moneda",
+    currencyBRL: "Real Brasileño (R$)",
+    currencyUSD: "Dólar Estadounidense (US$)",
+    currencyEUR: "Euro (€)",
+    currencyGBP: "Libra Esterlina (£)",
+    currencyChangedTitle: "Moneda cambiada",
+    currencyChangedDescription: "Moneda de precios cambiada a {currency}",
+    preferencesError: "No se pudieron guardar tus preferencias",
+    logout: "Cerrar Sesión",
+    logoutSuccessTitle: "Sesión cerrada",
+    logoutSuccessDescription: "Cerraste sesión correctamente",
+    logoutError: "Error al cerrar sesión",
+  },
+  digest: DIGEST_MESSAGES["es-ES"],
+};
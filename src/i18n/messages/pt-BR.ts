@@ -0,0 +1,275 @@
+import { DIGEST_MESSAGES } from "@shared/email/digest-messages.ts";
+import { NOTIFICATION_MESSAGES } from "@shared/push/notification-messages.ts";
+
+// Catálogo de referência: os outros idiomas precisam ter as mesmas chaves.
+// Chaves com sufixo _one/_other são plurais (categorias do Intl.PluralRules).
+export const ptBR = {
+  common: {
+    loading: "Carregando...",
+    back: "Voltar",
+    error: "Erro",
+    cancel: "Cancelar",
+    save: "Salvar",
+    saving: "Salvando...",
+    notAuthenticated: "Usuário não autenticado",
+  },
+  nav: {
+    menu: "Menu",
+    home: "Início",
+    profile: "Perfil",
+    favorites: "Favoritos",
+    notifications: "Notificações",
+    settings: "Configurações",
+  },
+  index: {
+    title: "Compare Preços de Jogos",
+    subtitle: "Encontre os melhores preços para seus jogos favoritos!",
+    cta: "Começar Agora",
+  },
+  notFound: {
+    message: "Ops! Página não encontrada",
+    backHome: "Voltar para o início",
+  },
+  auth: {
+    loginTitle: "Faça login para começar a usar nossa ferramenta!",
+    emailPlaceholder: "email",
+    passwordPlaceholder: "senha",
+    noAccount: "Não é cadastrado ainda?",
+    createAccountHere: "Crie uma nova conta por aqui!",
+    signupLink: "Cadastrar!",
+    signingIn: "Entrando...",
+    signIn: "Entrar",
+    signupTitle: "Área de cadastro",
+    signupSubtitle: "preencha seus dados de usuário",
+    usernamePlaceholder: "nome de usuário",
+    confirmPasswordPlaceholder: "confirmar senha",
+    acceptTerms: "Eu li e aceito os termos e condições",
+    finishing: "Finalizando...",
+    finish: "Finalizar",
+    tagline: "Realize compras de forma barata com nossas comparações de preços!",
+    validationError: "Erro de validação",
+    loginSuccessTitle: "Login realizado!",
+    loginSuccessDescription: "Bem-vindo de volta!",
+    passwordsMismatch: "As senhas não coincidem",
+    mustAcceptTerms: "Você precisa aceitar os termos e condições",
+    signupSuccessTitle: "Cadastro realizado!",
+    signupSuccessDescription: "Sua conta foi criada com sucesso!",
+    invalidCredentials: "Email ou senha incorretos",
+    genericError: "Ocorreu um erro. Tente novamente.",
+    validation: {
+      invalidEmail: "Email inválido",
+      emailTooLong: "Email deve ter no máximo {max} caracteres",
+      passwordRequired: "Senha é obrigatória",
+      passwordTooShort: "Senha deve ter no mínimo {min} caracteres",
+      passwordTooLong: "Senha deve ter no máximo {max} caracteres",
+      passwordWeak: "Senha deve conter pelo menos uma letra maiúscula, uma minúscula e um número",
+      usernameTooShort: "Nome de usuário deve ter no mínimo {min} caracteres",
+      usernameTooLong: "Nome de usuário deve ter no máximo {max} caracteres",
+      usernameInvalid: "Nome de usuário pode conter apenas letras, números e sublinhados",
+    },
+  },
+  price: {
+    from: "De:",
+    to: "Por:",
+    label: "Preço:",
+  },
+  feed: {
+    searchPlaceholder: "Procurar...",
+    headline: "Compare os preços e faça sua compra com mais eficiência!",
+    allGenres: "Todos",
+    sortDiscount: "Desconto",
+    sortAlphabetic: "Ordem Alfabética",
+    noGames: "Nenhum jogo encontrado",
+    loadMore: "Carregar mais",
+    loadError: "Não foi possível carregar os jogos",
+    favoriteAddedTitle: "Adicionado aos favoritos",
+    favoriteAddedDescription: "{title} foi adicionado aos seus favoritos",
+    favoriteRemovedTitle: "Removido dos favoritos",
+    favoriteRemovedDescription: "{title} foi removido dos seus favoritos",
+    favoriteError: "Não foi possível atualizar favoritos",
+  },
+  // Gêneros da Steam pelo id salvo em games.genre_ids
+  genres: {
+    "1": "Ação",
+    "2": "Estratégia",
+    "3": "RPG",
+    "4": "Casual",
+    "9": "Corrida",
+    "18": "Esportes",
+    "23": "Indie",
+    "25": "Aventura",
+    "28": "Simulação",
+    "29": "Multijogador massivo",
+    "37": "Gratuito para jogar",
+    "70": "Acesso antecipado",
+    "71": "Conteúdo sexual",
+    "72": "Nudez",
+    "73": "Violento",
+    "74": "Sangue",
+  },
+  gameDetails: {
+    notFound: "Jogo não encontrado",
+    loadError: "Não foi possível carregar os detalhes do jogo",
+    description: "Descrição",
+    developer: "Desenvolvedora:",
+    publisher: "Publicadora:",
+    priceComparisonTitle: "Comparação de Preços",
+    priceComparisonSubtitle: "Compare os preços em tempo real das principais lojas",
+    updated: "Atualizado {time}",
+    refreshing: "atualizando preços...",
+    loadingPrices: "Carregando preços...",
+    pricesErrorTitle: "Erro ao buscar preços",
+    pricesErrorDescription: "Não foi possível carregar os preços",
+    store: "Loja",
+    originalPrice: "Preço Original",
+    currentPrice: "Preço Atual",
+    discount: "Desconto",
+    lowestPrice: "Menor Preço",
+    action: "Ação",
+    buy: "Comprar",
+    keyFor: "Chave para {platform}",
+    keyReseller: "Revendedora de chaves",
+    storeUnavailable: "{store} temporariamente indisponível",
+    tabStores: "Lojas",
+    tabRegions: "Regiões",
+  },
+  regionComparison: {
+    title: "Preço por Região",
+    subtitle: "Menor preço em cada região, convertido para {currency}",
+    ratesDate: "Cotação de {date}",
+    loading: "Carregando preços das regiões...",
+    empty: "Não foi possível carregar os preços das regiões",
+    region: "Região",
+    store: "Loja",
+    localPrice: "Preço Local",
+    convertedPrice: "Em {currency}",
+    vsMedian: "vs. Mediana",
+    cheapest: "mais barato",
+    unavailable: "Indisponível",
+    open: "Ver",
+    regions: {
+      BR: "Brasil",
+      US: "Estados Unidos",
+      AR: "Argentina",
+      TR: "Turquia",
+      EU: "União Europeia",
+      UK: "Reino Unido",
+    },
+  },
+  favorites: {
+    title: "Favoritos",
+    loading: "Carregando favoritos...",
+    emptyTitle: "Nenhum favorito ainda",
+    emptyDescription: "Comece adicionando jogos aos seus favoritos!",
+    loadError: "Não foi possível carregar os favoritos",
+    removeError: "Não foi possível remover dos favoritos",
+    alert: "Alerta:",
+    alertUpTo: "até {price}",
+    alertMinDiscount: "{discount}% de desconto ou mais",
+    alertStores: "em {stores}",
+  },
+  alertSettings: {
+    targetPrice: "Preço alvo ({currency})",
+    minDiscount: "Desconto mínimo (%)",
+    any: "Qualquer",
+    stores: "Lojas:",
+    saveAlert: "Salvar alerta",
+    savedTitle: "Alerta salvo",
+    savedDescription: "Avisaremos quando o preço atingir sua meta",
+    saveError: "Não foi possível salvar o alerta",
+  },
+  priceLow: {
+    allTime: "Menor preço histórico",
+    last90Days: "Menor preço em 90 dias",
+    aboveLow: "{percent}% acima do menor ({price})",
+  },
+  priceHistory: {
+    title: "Histórico de Preços",
+    subtitle: "Veja como o preço variou em cada loja",
+    range30Days: "30 dias",
+    range90Days: "90 dias",
+    range1Year: "1 ano",
+    rangeAll: "Tudo",
+    loading: "Carregando histórico...",
+    empty: "Ainda não há histórico de preços para este jogo",
+    saleStart: "Início da promoção",
+    saleEnd: "Fim da promoção",
+  },
+  notifications: {
+    title: "Notificações",
+    markAllRead: "Marcar todas como lidas",
+    unread_one: "{count} não lida",
+    unread_other: "{count} não lidas",
+    emptyTitle: "Nenhuma notificação",
+    emptyDescription: "Avisaremos aqui quando seus favoritos baixarem de preço",
+    loadError: "Não foi possível carregar as notificações",
+    ...NOTIFICATION_MESSAGES["pt-BR"],
+  },
+  profile: {
+    title: "Perfil",
+    favorites_one: "Favorito",
+    favorites_other: "Favoritos",
+    savedGames_one: "Jogo Salvo",
+    savedGames_other: "Jogos Salvos",
+    username: "Nome de usuário",
+    usernamePlaceholder: "Digite seu nome de usuário",
+    email: "Email",
+    edit: "Editar Perfil",
+    updatedTitle: "Perfil atualizado",
+    updatedDescription: "Suas informações foram atualizadas com sucesso!",
+    updateError: "Não foi possível atualizar o perfil",
+    photoUpdatedTitle: "Foto atualizada",
+    photoUpdatedDescription: "Sua foto de perfil foi atualizada com sucesso!",
+    photoError: "Não foi possível atualizar a foto",
+  },
+  settings: {
+    title: "Configurações",
+    notifications: "Notificações",
+    notificationsDescription: "Receba alertas sobre ofertas e descontos",
+    notificationsEnabledTitle: "Notificações ativadas",
+    notificationsEnabledDescription: "Você receberá notificações sobre ofertas",
+    notificationsDisabledTitle: "Notificações desativadas",
+    notificationsDisabledDescription: "Você não receberá mais notificações",
+    priceDropAlerts: "Alertas de preço dos favoritos",
+    newDeals: "Novas promoções dos favoritos",
+    push: "Notificações push neste dispositivo",
+    pushPermissionDeniedTitle: "Permissão negada",
+    pushPermissionDeniedDescription: "Permita notificações no navegador para receber alertas push",
+    pushError: "Não foi possível alterar as notificações push",
+    pushUnsupported: "Notificações push não são suportadas neste navegador",
+    pushInvalidSubscription: "Inscrição push inválida",
+    digest: "Resumo por E-mail",
+    digestDescription: "Receba as quedas de preço, menores preços históricos e alertas dos seus favoritos",
+    digestPlaceholder: "Selecione a frequência",
+    digestDaily: "Diário",
+    digestWeekly: "Semanal",
+    digestNever: "Nunca",
+    digestEnabledTitle: "Resumo por e-mail ativado",
+    digestDailyDescription: "Você receberá um resumo diário dos seus favoritos",
+    digestWeeklyDescription: "Você receberá um resumo semanal dos seus favoritos",
+    digestDisabledTitle: "Resumo por e-mail desativado",
+    digestDisabledDescription: "Você não receberá mais o resumo de ofertas",
+    language: "Idioma",
+    languageDescription: "Escolha o idioma do aplicativo",
+    languagePlaceholder: "Selecione o idioma",
+    languageChangedTitle: "Idioma alterado",
+    languageChangedDescription: "Idioma alterado para Português (Brasil)",
+    currency: "Região de Precificação",
+    currencyDescription: "Escolha a moeda para exibição de preços",
+    currencyPlaceholder: "Selecione a moeda",
+    currencyBRL: "Real Brasileiro (R$)",
+    currencyUSD: "Dólar Americano (US$)",
+    currencyEUR: "Euro (€)",
+    currencyGBP: "Libra Esterlina (£)",
+    currencyChangedTitle: "Moeda alterada",
+    currencyChangedDescription: "Moeda de precificação alterada para {currency}",
+    preferencesError: "Não foi possível salvar suas preferências",
+    logout: "Sair da Conta",
+    logoutSuccessTitle: "Logout realizado",
+    logoutSuccessDescription: "Você foi desconectado com sucesso",
+    logoutError: "Erro ao deslogar",
+  },
+  digest: DIGEST_MESSAGES["pt-BR"],
+};
+
+export type Messages = typeof ptBR;
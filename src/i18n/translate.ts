@@ -0,0 +1,64 @@
+import type { Language } from "@/hooks/use-preferences";
+import { ptBR, type Messages } from "./messages/pt-BR";
+import { enUS } from "./messages/en-US";
+import { esES } from "./messages/es-ES";
+import { interpolate, type MessageParams } from "@shared/i18n.ts";
+
+const CATALOGS: Record<Language, Messages> = {
+  "pt-BR": ptBR,
+  "en-US": enUS,
+  "es-ES": esES,
+};
+
+// Todas as chaves folha do catálogo, em notação com ponto ("feed.loadMore")
+type Leaves<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string ? `${Prefix}${K}` : Leaves<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+type MessageKey = Leaves<Messages>;
+
+// Plurais são chamados pela chave base ("notifications.unread" → unread_one / unread_other)
+type PluralKey<K> = K extends `${infer Base}_other` ? Base : never;
+
+export type TranslationKey = MessageKey | PluralKey<MessageKey>;
+
+export type TranslationParams = MessageParams;
+
+const lookup = (messages: Messages, key: string): string | undefined => {
+  const value = key.split(".").reduce<unknown>(
+    (node, part) => (node && typeof node === "object" ? (node as Record<string, unknown>)[part] : undefined),
+    messages,
+  );
+  return typeof value === "string" ? value : undefined;
+};
+
+/**
+ * Traduz uma chave no idioma indicado. Com params.count escolhe a forma de plural do idioma.
+ * Chaves que faltarem no catálogo caem no português e, por fim, na própria chave.
+ */
+export const translate = (language: Language, key: TranslationKey, params?: TranslationParams): string => {
+  const messages = CATALOGS[language] ?? ptBR;
+
+  let message: string | undefined;
+  if (typeof params?.count === "number") {
+    const category = new Intl.PluralRules(language).select(params.count);
+    message = lookup(messages, `${key}_${category}`) ?? lookup(messages, `${key}_other`);
+  }
+  message ??= lookup(messages, key) ?? lookup(ptBR, key) ?? key;
+
+  return interpolate(message, params);
+};
+
+// Erro com uma chave do catálogo no lugar do texto: quem mostra o erro traduz no idioma atual
+export class TranslatableError extends Error {
+  constructor(readonly key: TranslationKey) {
+    super(key);
+    this.name = "TranslatableError";
+  }
+}
+
+// Mensagem de um erro qualquer para o usuário; sem mensagem própria usa a chave fallback
+export const translateError = (language: Language, error: unknown, fallback: TranslationKey): string => {
+  if (error instanceof TranslatableError) return translate(language, error.key);
+  return error instanceof Error && error.message ? error.message : translate(language, fallback);
+};
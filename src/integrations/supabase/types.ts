@@ -14,61 +14,134 @@ export type Database = {
   }
   public: {
     Tables: {
+      exchange_rates: {
+        Row: {
+          as_of: string | null
+          base_currency: string
+          id: string
+          provider: string
+          quote_currency: string
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          as_of?: string | null
+          base_currency: string
+          id?: string
+          provider: string
+          quote_currency: string
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          as_of?: string | null
+          base_currency?: string
+          id?: string
+          provider?: string
+          quote_currency?: string
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       favorites: {
         Row: {
+          alerted_at: string | null
+          allowed_stores: string[] | null
           appid: string
           created_at: string
+          currency: string
           current_price: number
           discount_percent: number
           genre: string
           header_image: string
           id: string
+          min_discount: number | null
           original_price: number
           price_formatted: string
+          target_currency: string
+          target_price: number | null
           title: string
           user_id: string
         }
         Insert: {
+          alerted_at?: string | null
+          allowed_stores?: string[] | null
           appid: string
           created_at?: string
+          currency?: string
           current_price: number
           discount_percent: number
           genre: string
           header_image: string
           id?: string
+          min_discount?: number | null
           original_price: number
           price_formatted: string
+          target_currency?: string
+          target_price?: number | null
           title: string
           user_id: string
         }
         Update: {
+          alerted_at?: string | null
+          allowed_stores?: string[] | null
           appid?: string
           created_at?: string
+          currency?: string
           current_price?: number
           discount_percent?: number
           genre?: string
           header_image?: string
           id?: string
+          min_discount?: number | null
           original_price?: number
           price_formatted?: string
+          target_currency?: string
+          target_price?: number | null
           title?: string
           user_id?: string
         }
         Relationships: []
       }
+      game_metadata: {
+        Row: {
+          appid: string
+          language: string
+          metadata: Json
+          updated_at: string
+        }
+        Insert: {
+          appid: string
+          language: string
+          metadata: Json
+          updated_at?: string
+        }
+        Update: {
+          appid?: string
+          language?: string
+          metadata?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
       game_prices: {
         Row: {
           appid: string
           available: boolean
           buy_url: string
           created_at: string
+          currency: string
           discount: number
           id: string
+          is_key_reseller: boolean
           last_updated: string
           numeric_original_price: number | null
           numeric_price: number | null
-          original_price: string
-          price: string
+          original_price: string | null
+          price: string | null
+          redemption_platform: string | null
+          region: string
           store: string
         }
         Insert: {
@@ -76,13 +149,17 @@ export type Database = {
           available?: boolean
           buy_url: string
           created_at?: string
+          currency?: string
           discount?: number
           id?: string
+          is_key_reseller?: boolean
           last_updated?: string
           numeric_original_price?: number | null
           numeric_price?: number | null
-          original_price: string
-          price: string
+          original_price?: string | null
+          price?: string | null
+          redemption_platform?: string | null
+          region?: string
           store: string
         }
         Update: {
@@ -90,17 +167,233 @@ export type Database = {
           available?: boolean
           buy_url?: string
           created_at?: string
+          currency?: string
           discount?: number
           id?: string
+          is_key_reseller?: boolean
           last_updated?: string
           numeric_original_price?: number | null
           numeric_price?: number | null
-          original_price?: string
-          price?: string
+          original_price?: string | null
+          price?: string | null
+          redemption_platform?: string | null
+          region?: string
+          store?: string
+        }
+        Relationships: []
+      }
+      games: {
+        Row: {
+          appid: string
+          capsule_image: string | null
+          coming_soon: boolean
+          created_at: string
+          genre_ids: string[]
+          header_image: string
+          is_free: boolean
+          platforms: string[]
+          release_date: string | null
+          short_description: string | null
+          synced_at: string | null
+          tags: string[]
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          appid: string
+          capsule_image?: string | null
+          coming_soon?: boolean
+          created_at?: string
+          genre_ids?: string[]
+          header_image: string
+          is_free?: boolean
+          platforms?: string[]
+          release_date?: string | null
+          short_description?: string | null
+          synced_at?: string | null
+          tags?: string[]
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          appid?: string
+          capsule_image?: string | null
+          coming_soon?: boolean
+          created_at?: string
+          genre_ids?: string[]
+          header_image?: string
+          is_free?: boolean
+          platforms?: string[]
+          release_date?: string | null
+          short_description?: string | null
+          synced_at?: string | null
+          tags?: string[]
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          appid: string | null
+          body: string | null
+          created_at: string
+          data: Json
+          id: string
+          read_at: string | null
+          title: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          appid?: string | null
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          title?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          appid?: string | null
+          body?: string | null
+          created_at?: string
+          data?: Json
+          id?: string
+          read_at?: string | null
+          title?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      price_alerts: {
+        Row: {
+          appid: string
+          buy_url: string
+          created_at: string
+          currency: string
+          discount: number
+          favorite_id: string
+          id: string
+          min_discount: number | null
+          price: number
+          store: string
+          target_price: number | null
+          title: string
+          user_id: string
+        }
+        Insert: {
+          appid: string
+          buy_url: string
+          created_at?: string
+          currency?: string
+          discount?: number
+          favorite_id: string
+          id?: string
+          min_discount?: number | null
+          price: number
+          store: string
+          target_price?: number | null
+          title: string
+          user_id: string
+        }
+        Update: {
+          appid?: string
+          buy_url?: string
+          created_at?: string
+          currency?: string
+          discount?: number
+          favorite_id?: string
+          id?: string
+          min_discount?: number | null
+          price?: number
+          store?: string
+          target_price?: number | null
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_alerts_favorite_id_fkey"
+            columns: ["favorite_id"]
+            isOneToOne: false
+            referencedRelation: "favorites"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_history: {
+        Row: {
+          appid: string
+          discount: number
+          id: string
+          numeric_original_price: number | null
+          numeric_price: number
+          recorded_at: string
+          region: string
+          store: string
+        }
+        Insert: {
+          appid: string
+          discount?: number
+          id?: string
+          numeric_original_price?: number | null
+          numeric_price: number
+          recorded_at?: string
+          region?: string
+          store: string
+        }
+        Update: {
+          appid?: string
+          discount?: number
+          id?: string
+          numeric_original_price?: number | null
+          numeric_price?: number
+          recorded_at?: string
+          region?: string
           store?: string
         }
         Relationships: []
       }
+      price_refresh_runs: {
+        Row: {
+          appids_failed: string[]
+          appids_succeeded: string[]
+          duration_ms: number | null
+          error: string | null
+          finished_at: string | null
+          id: string
+          started_at: string
+          status: string
+          store_stats: Json
+        }
+        Insert: {
+          appids_failed?: string[]
+          appids_succeeded?: string[]
+          duration_ms?: number | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          status?: string
+          store_stats?: Json
+        }
+        Update: {
+          appids_failed?: string[]
+          appids_succeeded?: string[]
+          duration_ms?: number | null
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          status?: string
+          store_stats?: Json
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -125,12 +418,275 @@ export type Database = {
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      steam_app_cache: {
+        Row: {
+          appid: string
+          country_code: string
+          data: Json | null
+          fetched_at: string
+          language: string
+          success: boolean
+        }
+        Insert: {
+          appid: string
+          country_code: string
+          data?: Json | null
+          fetched_at?: string
+          language: string
+          success: boolean
+        }
+        Update: {
+          appid?: string
+          country_code?: string
+          data?: Json | null
+          fetched_at?: string
+          language?: string
+          success?: boolean
+        }
+        Relationships: []
+      }
+      store_health: {
+        Row: {
+          avg_latency_ms: number | null
+          circuit_open_until: string | null
+          consecutive_failures: number
+          failure_count: number
+          last_error: string | null
+          last_error_at: string | null
+          last_latency_ms: number | null
+          last_success_at: string | null
+          store: string
+          success_count: number
+          success_rate: number | null
+          total_latency_ms: number
+          updated_at: string
+        }
+        Insert: {
+          avg_latency_ms?: never
+          circuit_open_until?: string | null
+          consecutive_failures?: number
+          failure_count?: number
+          last_error?: string | null
+          last_error_at?: string | null
+          last_latency_ms?: number | null
+          last_success_at?: string | null
+          store: string
+          success_count?: number
+          success_rate?: never
+          total_latency_ms?: number
+          updated_at?: string
+        }
+        Update: {
+          avg_latency_ms?: never
+          circuit_open_until?: string | null
+          consecutive_failures?: number
+          failure_count?: number
+          last_error?: string | null
+          last_error_at?: string | null
+          last_latency_ms?: number | null
+          last_success_at?: string | null
+          store?: string
+          success_count?: number
+          success_rate?: never
+          total_latency_ms?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      store_listings: {
+        Row: {
+          appid: string
+          created_at: string
+          id: string
+          match_confidence: number
+          matched_by: string
+          not_found_at: Json
+          slug: string | null
+          store: string
+          store_product_id: string | null
+          store_title: string | null
+          updated_at: string
+        }
+        Insert: {
+          appid: string
+          created_at?: string
+          id?: string
+          match_confidence?: number
+          matched_by?: string
+          not_found_at?: Json
+          slug?: string | null
+          store: string
+          store_product_id?: string | null
+          store_title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          appid?: string
+          created_at?: string
+          id?: string
+          match_confidence?: number
+          matched_by?: string
+          not_found_at?: Json
+          slug?: string | null
+          store?: string
+          store_product_id?: string | null
+          store_title?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_preferences: {
+        Row: {
+          created_at: string
+          currency: string
+          digest_frequency: string
+          digest_unsubscribe_token: string
+          language: string
+          last_digest_sent_at: string | null
+          notifications_enabled: boolean
+          notify_new_deal: boolean
+          notify_price_drop: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency?: string
+          digest_frequency?: string
+          digest_unsubscribe_token?: string
+          language?: string
+          last_digest_sent_at?: string | null
+          notifications_enabled?: boolean
+          notify_new_deal?: boolean
+          notify_price_drop?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          digest_frequency?: string
+          digest_unsubscribe_token?: string
+          language?: string
+          last_digest_sent_at?: string | null
+          notifications_enabled?: boolean
+          notify_new_deal?: boolean
+          notify_price_drop?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      create_notification: {
+        Args: {
+          p_appid?: string
+          p_data?: Json
+          p_type: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      money_json: {
+        Args: {
+          p_currency: string
+          p_value: number
+        }
+        Returns: Json
+      }
+      price_history_lows: {
+        Args: {
+          p_appids: string[]
+          p_region: string
+          p_since: string
+        }
+        Returns: {
+          all_time_high: number
+          all_time_low: number
+          appid: string
+          store: string
+          window_high: number
+          window_low: number
+        }[]
+      }
+      price_history_since: {
+        Args: {
+          p_appids: string[]
+          p_region: string
+          p_since: string
+        }
+        Returns: {
+          appid: string
+          discount: number
+          id: string
+          numeric_original_price: number | null
+          numeric_price: number
+          recorded_at: string
+          store: string
+        }[]
+      }
+      record_store_outcome: {
+        Args: {
+          p_cooldown_seconds: number
+          p_error: string
+          p_failure_threshold: number
+          p_latency_ms: number
+          p_ok: boolean
+          p_store: string
+        }
+        Returns: {
+          avg_latency_ms: number | null
+          circuit_open_until: string | null
+          consecutive_failures: number
+          failure_count: number
+          last_error: string | null
+          last_error_at: string | null
+          last_latency_ms: number | null
+          last_success_at: string | null
+          store: string
+          success_count: number
+          success_rate: number | null
+          total_latency_ms: number
+          updated_at: string
+        }
+      }
     }
     Enums: {
       [_ in never]: never
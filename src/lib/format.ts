@@ -0,0 +1,5 @@
+import { formatMoney, moneyFromDecimal } from "@shared/money.ts";
+
+// Formata um valor na moeda indicada, seguindo as convenções do idioma escolhido
+export const formatPrice = (value: number, currency: string, locale: string) =>
+  formatMoney(moneyFromDecimal(value, currency), locale);
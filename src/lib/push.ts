@@ -0,0 +1,75 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TranslatableError } from "@/i18n/translate";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+export const isPushSupported = () =>
+  "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+
+// A chave pública VAPID chega em base64url, mas o PushManager espera os bytes
+const urlBase64ToUint8Array = (base64: string) => {
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const raw = atob((base64 + padding).replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+const getRegistration = () => navigator.serviceWorker.register(SERVICE_WORKER_URL);
+
+export const getPushSubscription = async () => {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+};
+
+/**
+ * Pede permissão, inscreve este navegador e salva a inscrição do usuário.
+ * Retorna false se o usuário negar a permissão.
+ */
+export const subscribeToPush = async () => {
+  const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+  if (!isPushSupported() || !vapidPublicKey) {
+    throw new TranslatableError("settings.pushUnsupported");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") return false;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return false;
+
+  const registration = await getRegistration();
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) {
+    throw new TranslatableError("settings.pushInvalidSubscription");
+  }
+
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .upsert(
+      { user_id: user.id, endpoint, p256dh: keys.p256dh, auth: keys.auth, user_agent: navigator.userAgent },
+      { onConflict: "endpoint" },
+    );
+
+  if (error) throw error;
+  return true;
+};
+
+export const unsubscribeFromPush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", subscription.endpoint);
+
+  if (error) throw error;
+  await subscription.unsubscribe();
+};
@@ -0,0 +1,2 @@
+// Lojas consultadas pelo fetch-game-prices
+export const STORES = ["Steam", "GOG", "Epic Games", "Humble", "Fanatical", "Green Man Gaming", "Nuuvem", "Microsoft Store"] as const;
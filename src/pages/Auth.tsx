@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,31 +7,41 @@ import { User, ArrowLeft } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { z } from "zod";
+import { useTranslation } from "@/i18n";
 
-const loginSchema = z.object({
-  email: z.string().email("Email inválido").max(255, "Email deve ter no máximo 255 caracteres"),
-  password: z.string().min(1, "Senha é obrigatória"),
-});
-
-const signupSchema = z.object({
-  email: z.string().email("Email inválido").max(255, "Email deve ter no máximo 255 caracteres"),
-  password: z
-    .string()
-    .min(8, "Senha deve ter no mínimo 8 caracteres")
-    .max(72, "Senha deve ter no máximo 72 caracteres")
-    .regex(
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
-      "Senha deve conter pelo menos uma letra maiúscula, uma minúscula e um número"
-    ),
-  username: z
+// Mensagens de validação no idioma do usuário
+const createAuthSchemas = (t: ReturnType<typeof useTranslation>["t"]) => {
+  const email = z
     .string()
-    .min(3, "Nome de usuário deve ter no mínimo 3 caracteres")
-    .max(30, "Nome de usuário deve ter no máximo 30 caracteres")
-    .regex(
-      /^[a-zA-Z0-9_]+$/,
-      "Nome de usuário pode conter apenas letras, números e sublinhados"
-    ),
-});
+    .email(t("auth.validation.invalidEmail"))
+    .max(255, t("auth.validation.emailTooLong", { max: 255 }));
+
+  return {
+    loginSchema: z.object({
+      email,
+      password: z.string().min(1, t("auth.validation.passwordRequired")),
+    }),
+    signupSchema: z.object({
+      email,
+      password: z
+        .string()
+        .min(8, t("auth.validation.passwordTooShort", { min: 8 }))
+        .max(72, t("auth.validation.passwordTooLong", { max: 72 }))
+        .regex(
+          /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+          t("auth.validation.passwordWeak")
+        ),
+      username: z
+        .string()
+        .min(3, t("auth.validation.usernameTooShort", { min: 3 }))
+        .max(30, t("auth.validation.usernameTooLong", { max: 30 }))
+        .regex(
+          /^[a-zA-Z0-9_]+$/,
+          t("auth.validation.usernameInvalid")
+        ),
+    }),
+  };
+};
 
 const Auth = () => {
   const navigate = useNavigate();
@@ -42,6 +52,8 @@ const Auth = () => {
   const [username, setUsername] = useState("");
   const [acceptTerms, setAcceptTerms] = useState(false);
   const [loading, setLoading] = useState(false);
+  const { t } = useTranslation();
+  const { loginSchema, signupSchema } = useMemo(() => createAuthSchemas(t), [t]);
 
   useEffect(() => {
     // Check if user is already logged in
@@ -71,7 +83,7 @@ const Auth = () => {
         if (!validationResult.success) {
           const firstError = validationResult.error.errors[0];
           toast({
-            title: "Erro de validação",
+            title: t("auth.validationError"),
             description: firstError.message,
             variant: "destructive",
           });
@@ -88,15 +100,15 @@ const Auth = () => {
         if (error) throw error;
 
         toast({
-          title: "Login realizado!",
-          description: "Bem-vindo de volta!",
+          title: t("auth.loginSuccessTitle"),
+          description: t("auth.loginSuccessDescription"),
         });
       } else {
         // Signup - validate password match first
         if (password !== confirmPassword) {
           toast({
-            title: "Erro",
-            description: "As senhas não coincidem",
+            title: t("common.error"),
+            description: t("auth.passwordsMismatch"),
             variant: "destructive",
           });
           setLoading(false);
@@ -105,8 +117,8 @@ const Auth = () => {
 
         if (!acceptTerms) {
           toast({
-            title: "Erro",
-            description: "Você precisa aceitar os termos e condições",
+            title: t("common.error"),
+            description: t("auth.mustAcceptTerms"),
             variant: "destructive",
           });
           setLoading(false);
@@ -118,7 +130,7 @@ const Auth = () => {
         if (!validationResult.success) {
           const firstError = validationResult.error.errors[0];
           toast({
-            title: "Erro de validação",
+            title: t("auth.validationError"),
             description: firstError.message,
             variant: "destructive",
           });
@@ -140,18 +152,18 @@ const Auth = () => {
         if (error) throw error;
 
         toast({
-          title: "Cadastro realizado!",
-          description: "Sua conta foi criada com sucesso!",
+          title: t("auth.signupSuccessTitle"),
+          description: t("auth.signupSuccessDescription"),
         });
       }
     } catch (error: any) {
       // Generic error message to prevent account enumeration
       const errorMessage = error.message?.includes("Invalid login credentials")
-        ? "Email ou senha incorretos"
-        : "Ocorreu um erro. Tente novamente.";
+        ? t("auth.invalidCredentials")
+        : t("auth.genericError");
       
       toast({
-        title: "Erro",
+        title: t("common.error"),
         description: errorMessage,
         variant: "destructive",
       });
@@ -172,14 +184,14 @@ const Auth = () => {
           
           {/* Title */}
           <h1 className="text-2xl md:text-3xl font-bold text-primary text-center px-4">
-            Faça login para começar a usar nossa ferramenta!
+            {t("auth.loginTitle")}
           </h1>
           
           {/* Form */}
           <form onSubmit={handleSubmit} className="w-full space-y-6">
             <Input
               type="email"
-              placeholder="email"
+              placeholder={t("auth.emailPlaceholder")}
               value={email}
               onChange={(e) => setEmail(e.target.value)}
               required
@@ -189,7 +201,7 @@ const Auth = () => {
             
             <Input
               type="password"
-              placeholder="senha"
+              placeholder={t("auth.passwordPlaceholder")}
               value={password}
               onChange={(e) => setPassword(e.target.value)}
               required
@@ -199,8 +211,8 @@ const Auth = () => {
             
             <div className="text-center space-y-2 pt-4">
               <p className="text-primary font-semibold">
-                Não é cadastrado ainda?<br />
-                Crie uma nova conta por aqui!
+                {t("auth.noAccount")}<br />
+                {t("auth.createAccountHere")}
               </p>
               <button
                 type="button"
@@ -208,7 +220,7 @@ const Auth = () => {
                 className="text-primary font-bold text-lg underline hover:text-primary/80 transition-colors"
                 disabled={loading}
               >
-                Cadastrar!
+                {t("auth.signupLink")}
               </button>
             </div>
             
@@ -218,7 +230,7 @@ const Auth = () => {
               size="lg"
               disabled={loading}
             >
-              {loading ? "Entrando..." : "Entrar"}
+              {loading ? t("auth.signingIn") : t("auth.signIn")}
             </Button>
           </form>
         </div>
@@ -236,15 +248,15 @@ const Auth = () => {
           <div className="bg-card rounded-3xl border-4 border-foreground p-8 space-y-6">
             <div className="text-center space-y-2">
               <h2 className="text-2xl md:text-3xl font-bold text-primary">
-                Área de cadastro
+                {t("auth.signupTitle")}
               </h2>
-              <p className="text-foreground">preencha seus dados de usuário</p>
+              <p className="text-foreground">{t("auth.signupSubtitle")}</p>
             </div>
             
             <form onSubmit={handleSubmit} className="space-y-4">
               <Input
                 type="text"
-                placeholder="nome de usuário"
+                placeholder={t("auth.usernamePlaceholder")}
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
                 required
@@ -254,7 +266,7 @@ const Auth = () => {
               
               <Input
                 type="email"
-                placeholder="email"
+                placeholder={t("auth.emailPlaceholder")}
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 required
@@ -264,7 +276,7 @@ const Auth = () => {
               
               <Input
                 type="password"
-                placeholder="senha"
+                placeholder={t("auth.passwordPlaceholder")}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 required
@@ -274,7 +286,7 @@ const Auth = () => {
               
               <Input
                 type="password"
-                placeholder="confirmar senha"
+                placeholder={t("auth.confirmPasswordPlaceholder")}
                 value={confirmPassword}
                 onChange={(e) => setConfirmPassword(e.target.value)}
                 required
@@ -291,7 +303,7 @@ const Auth = () => {
                   disabled={loading}
                 />
                 <label htmlFor="terms" className="text-sm text-foreground cursor-pointer">
-                  Eu li e aceito os termos e condições
+                  {t("auth.acceptTerms")}
                 </label>
               </div>
               
@@ -301,14 +313,14 @@ const Auth = () => {
                 size="lg"
                 disabled={loading}
               >
-                {loading ? "Finalizando..." : "Finalizar"}
+                {loading ? t("auth.finishing") : t("auth.finish")}
               </Button>
             </form>
           </div>
           
           <div className="mt-8 text-center">
             <p className="text-primary font-semibold text-lg px-4">
-              Realize compras de forma barata com nossas comparações de preços!
+              {t("auth.tagline")}
             </p>
           </div>
         </div>
@@ -1,11 +1,17 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { Heart } from "lucide-react";
+import { Bell, BellRing, Heart } from "lucide-react";
 import { NavigationDrawer } from "@/components/NavigationDrawer";
 import { toast } from "@/hooks/use-toast";
+import { usePreferences } from "@/hooks/use-preferences";
+import { useTranslation } from "@/i18n";
+import { regionForCurrency } from "@shared/regions.ts";
+import { PriceLowBadge, type PriceLows } from "@/components/PriceLowBadge";
+import { LATEST_API_VERSION } from "@shared/price-api.ts";
+import { FavoriteAlertSettings, type FavoriteAlert } from "@/components/FavoriteAlertSettings";
 
-interface FavoriteGame {
+interface FavoriteGame extends FavoriteAlert {
   id: string;
   appid: string;
   title: string;
@@ -13,18 +19,24 @@ interface FavoriteGame {
   current_price: number;
   original_price: number;
   discount_percent: number;
-  price_formatted: string;
+  currency: string;
   genre: string;
 }
 
+// Mesmo limite de appids por chamada que fetch-price-lows aceita
+const PRICE_LOWS_BATCH_SIZE = 50;
+
 const Favorites = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [favorites, setFavorites] = useState<FavoriteGame[]>([]);
+  const [lows, setLows] = useState<Record<string, PriceLows>>({});
+  const [editingAlertId, setEditingAlertId] = useState<string | null>(null);
+  const { preferences, isLoading: preferencesLoading } = usePreferences();
+  const { t, formatPrice } = useTranslation();
 
   useEffect(() => {
     checkAuth();
-    fetchFavorites();
   }, []);
 
   const checkAuth = async () => {
@@ -34,7 +46,31 @@ const Favorites = () => {
     }
   };
 
-  const fetchFavorites = async () => {
+  const fetchLows = useCallback(async (appids: string[]) => {
+    if (appids.length === 0) return;
+
+    try {
+      const batches: string[][] = [];
+      for (let i = 0; i < appids.length; i += PRICE_LOWS_BATCH_SIZE) {
+        batches.push(appids.slice(i, i + PRICE_LOWS_BATCH_SIZE));
+      }
+
+      const responses = await Promise.all(batches.map(batch =>
+        supabase.functions.invoke('fetch-price-lows', {
+          body: { appids: batch, cc: regionForCurrency(preferences.currency).code, version: LATEST_API_VERSION }
+        })
+      ));
+
+      const failed = responses.find(response => response.error);
+      if (failed) throw failed.error;
+
+      setLows(Object.assign({}, ...responses.map(response => response.data?.lows ?? {})));
+    } catch (error) {
+      console.error("Error fetching price lows:", error);
+    }
+  }, [preferences.currency]);
+
+  const fetchFavorites = useCallback(async () => {
     try {
       setLoading(true);
       const { data: { user } } = await supabase.auth.getUser();
@@ -49,17 +85,31 @@ const Favorites = () => {
       if (error) throw error;
 
       setFavorites(data || []);
+      fetchLows((data || []).map(fav => fav.appid));
     } catch (error: any) {
       toast({
-        title: "Erro",
-        description: error.message || "Não foi possível carregar os favoritos",
+        title: t("common.error"),
+        description: error.message || t("favorites.loadError"),
         variant: "destructive",
       });
     } finally {
       setLoading(false);
     }
+  }, [t, fetchLows]);
+
+  useEffect(() => {
+    // Os menores preços vêm da região da moeda escolhida
+    if (preferencesLoading) return;
+    fetchFavorites();
+  }, [fetchFavorites, preferencesLoading]);
+
+  const handleAlertSaved = (favoriteId: string, alert: FavoriteAlert) => {
+    setFavorites(prev => prev.map(fav => fav.id === favoriteId ? { ...fav, ...alert } : fav));
+    setEditingAlertId(null);
   };
 
+  const hasAlert = (game: FavoriteGame) => game.target_price !== null || game.min_discount !== null;
+
   const removeFavorite = async (favoriteId: string, title: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -76,13 +126,13 @@ const Favorites = () => {
       setFavorites(prev => prev.filter(fav => fav.id !== favoriteId));
 
       toast({
-        title: "Removido dos favoritos",
-        description: `${title} foi removido dos seus favoritos`,
+        title: t("feed.favoriteRemovedTitle"),
+        description: t("feed.favoriteRemovedDescription", { title }),
       });
     } catch (error: any) {
       toast({
-        title: "Erro",
-        description: error.message || "Não foi possível remover dos favoritos",
+        title: t("common.error"),
+        description: error.message || t("favorites.removeError"),
         variant: "destructive",
       });
     }
@@ -91,7 +141,7 @@ const Favorites = () => {
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
-        <p className="text-muted-foreground">Carregando...</p>
+        <p className="text-muted-foreground">{t("common.loading")}</p>
       </div>
     );
   }
@@ -103,7 +153,7 @@ const Favorites = () => {
         <div className="container max-w-4xl mx-auto px-4 py-4">
           <div className="flex items-center gap-3">
             <NavigationDrawer />
-            <h1 className="text-xl font-bold text-foreground">Favoritos</h1>
+            <h1 className="text-xl font-bold text-foreground">{t("favorites.title")}</h1>
           </div>
         </div>
       </div>
@@ -112,7 +162,7 @@ const Favorites = () => {
       <div className="container max-w-4xl mx-auto px-4 py-6">
         {loading ? (
           <div className="text-center py-12">
-            <p className="text-lg text-muted-foreground">Carregando favoritos...</p>
+            <p className="text-lg text-muted-foreground">{t("favorites.loading")}</p>
           </div>
         ) : favorites.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-20 text-center">
@@ -120,10 +170,10 @@ const Favorites = () => {
               <Heart className="w-12 h-12 text-muted-foreground" />
             </div>
             <h2 className="text-2xl font-bold text-foreground mb-2">
-              Nenhum favorito ainda
+              {t("favorites.emptyTitle")}
             </h2>
             <p className="text-muted-foreground mb-6">
-              Comece adicionando jogos aos seus favoritos!
+              {t("favorites.emptyDescription")}
             </p>
           </div>
         ) : (
@@ -132,7 +182,7 @@ const Favorites = () => {
               <div
                 key={game.id}
                 onClick={() => navigate(`/game/${game.appid}`)}
-                className="bg-card border-2 border-foreground rounded-xl p-3 flex gap-3 hover:shadow-md transition-all hover:scale-[1.01] animate-in fade-in duration-300 cursor-pointer"
+                className="bg-card border-2 border-foreground rounded-xl p-3 flex flex-wrap gap-3 hover:shadow-md transition-all hover:scale-[1.01] animate-in fade-in duration-300 cursor-pointer"
               >
                 {/* Game Image */}
                 <div className="flex-shrink-0">
@@ -157,15 +207,15 @@ const Favorites = () => {
                     {game.discount_percent > 0 ? (
                       <>
                         <div className="flex items-center gap-2">
-                          <span className="text-muted-foreground">De:</span>
+                          <span className="text-muted-foreground">{t("price.from")}</span>
                           <span className="line-through text-muted-foreground">
-                            R$ {game.original_price.toFixed(2)}
+                            {formatPrice(game.original_price, game.currency)}
                           </span>
                         </div>
                         <div className="flex items-center gap-2">
-                          <span className="text-muted-foreground">Por:</span>
+                          <span className="text-muted-foreground">{t("price.to")}</span>
                           <span className="text-green-600 font-bold text-base">
-                            {game.price_formatted}
+                            {formatPrice(game.current_price, game.currency)}
                           </span>
                           <span className="inline-block px-2 py-0.5 bg-green-600 text-white rounded-full text-xs font-semibold">
                             -{game.discount_percent}%
@@ -174,25 +224,65 @@ const Favorites = () => {
                       </>
                     ) : (
                       <div className="flex items-center gap-2">
-                        <span className="text-muted-foreground">Preço:</span>
+                        <span className="text-muted-foreground">{t("price.label")}</span>
                         <span className="text-foreground font-bold text-base">
-                          {game.price_formatted}
+                          {formatPrice(game.current_price, game.currency)}
                         </span>
                       </div>
                     )}
                   </div>
+
+                  <PriceLowBadge low={lows[game.appid]?.game} />
+
+                  {hasAlert(game) && editingAlertId !== game.id && (
+                    <p className="text-xs text-muted-foreground">
+                      {t("favorites.alert")}{" "}
+                      {[
+                        game.target_price !== null && t("favorites.alertUpTo", { price: formatPrice(Number(game.target_price), game.target_currency) }),
+                        game.min_discount !== null && t("favorites.alertMinDiscount", { discount: game.min_discount }),
+                        game.allowed_stores?.length && t("favorites.alertStores", { stores: game.allowed_stores.join(", ") }),
+                      ].filter(Boolean).join(" · ")}
+                    </p>
+                  )}
                 </div>
 
-                {/* Remove Favorite Button */}
-                <button 
-                  className="self-start p-1 hover:scale-110 transition-transform"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    removeFavorite(game.id, game.title);
-                  }}
-                >
-                  <Heart className="w-5 h-5 fill-red-500 text-red-500 transition-colors" />
-                </button>
+                <div className="self-start flex flex-col items-center gap-2">
+                  {/* Remove Favorite Button */}
+                  <button 
+                    className="p-1 hover:scale-110 transition-transform"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeFavorite(game.id, game.title);
+                    }}
+                  >
+                    <Heart className="w-5 h-5 fill-red-500 text-red-500 transition-colors" />
+                  </button>
+
+                  {/* Price Alert Button */}
+                  <button
+                    className="p-1 hover:scale-110 transition-transform"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setEditingAlertId(editingAlertId === game.id ? null : game.id);
+                    }}
+                  >
+                    {hasAlert(game) ? (
+                      <BellRing className="w-5 h-5 text-primary" />
+                    ) : (
+                      <Bell className="w-5 h-5 text-foreground" />
+                    )}
+                  </button>
+                </div>
+
+                {editingAlertId === game.id && (
+                  <FavoriteAlertSettings
+                    favoriteId={game.id}
+                    alert={game}
+                    currency={preferences.currency}
+                    onSaved={(alert) => handleAlertSaved(game.id, alert)}
+                    onCancel={() => setEditingAlertId(null)}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Search, Settings, Heart, ChevronDown } from "lucide-react";
@@ -6,27 +6,59 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { toast } from "@/hooks/use-toast";
+import { usePreferences } from "@/hooks/use-preferences";
+import { useTranslation, type TranslationKey } from "@/i18n";
+import { regionForCurrency } from "@shared/regions.ts";
 import { NavigationDrawer } from "@/components/NavigationDrawer";
+import { NotificationBell } from "@/components/NotificationBell";
+import { PriceLowBadge, type PriceLow } from "@/components/PriceLowBadge";
+import { moneyToDecimal, type Money } from "@shared/money.ts";
+import { LATEST_API_VERSION, type StorePriceV2 } from "@shared/price-api.ts";
+
+interface BatchDeal {
+  appid: string;
+  bestPrice: StorePriceV2 | null;
+  lows: PriceLow | null;
+}
 
 interface GameDeal {
   appid: string;
   title: string;
   header_image: string;
-  current_price: number;
-  original_price: number;
+  price: Money;
+  originalPrice: Money;
   discount_percent: number;
-  price_formatted: string;
-  genre: string;
+  // Ids de gênero da Steam (games.genre_ids), traduzidos na hora de mostrar
+  genres: string[];
+  lows: PriceLow | null;
 }
 
+const PAGE_SIZE = 20;
+const ALL_GENRES = "all";
+
 const Feed = () => {
   const navigate = useNavigate();
   const [games, setGames] = useState<GameDeal[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [knownGenres, setKnownGenres] = useState<Set<string>>(new Set());
   const [sortBy, setSortBy] = useState<"discount" | "alphabetic">("discount");
-  const [selectedGenre, setSelectedGenre] = useState<string>("Todos");
+  const [selectedGenre, setSelectedGenre] = useState<string>(ALL_GENRES);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const { preferences, isLoading: preferencesLoading } = usePreferences();
+  const { t, formatMoney } = useTranslation();
+
+  // Nome do gênero no idioma atual; um id que o catálogo não conhece aparece como está
+  const genreName = (genreId: string) => {
+    const key = `genres.${genreId}` as TranslationKey;
+    const name = t(key);
+    return name === key ? genreId : name;
+  };
+  const genreLine = (game: GameDeal) => game.genres.slice(0, 2).map(genreName).join("/");
 
   useEffect(() => {
     // Check authentication
@@ -46,10 +78,15 @@ const Feed = () => {
   }, [navigate]);
 
   useEffect(() => {
-    fetchGames();
     fetchFavorites();
   }, []);
 
+  // Espera o usuário parar de digitar antes de buscar no catálogo
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
   const fetchFavorites = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -99,8 +136,8 @@ const Feed = () => {
         });
 
         toast({
-          title: "Removido dos favoritos",
-          description: `${game.title} foi removido dos seus favoritos`,
+          title: t("feed.favoriteRemovedTitle"),
+          description: t("feed.favoriteRemovedDescription", { title: game.title }),
         });
       } else {
         // Add to favorites
@@ -111,11 +148,12 @@ const Feed = () => {
             appid: game.appid,
             title: game.title,
             header_image: game.header_image,
-            current_price: game.current_price,
-            original_price: game.original_price,
+            current_price: moneyToDecimal(game.price),
+            original_price: moneyToDecimal(game.originalPrice),
             discount_percent: game.discount_percent,
-            price_formatted: game.price_formatted,
-            genre: game.genre,
+            price_formatted: formatMoney(game.price),
+            currency: game.price.currency,
+            genre: genreLine(game),
           });
 
         if (error) throw error;
@@ -123,136 +161,106 @@ const Feed = () => {
         setFavorites(prev => new Set(prev).add(game.appid));
 
         toast({
-          title: "Adicionado aos favoritos",
-          description: `${game.title} foi adicionado aos seus favoritos`,
+          title: t("feed.favoriteAddedTitle"),
+          description: t("feed.favoriteAddedDescription", { title: game.title }),
         });
       }
     } catch (error: any) {
       toast({
-        title: "Erro",
-        description: error.message || "Não foi possível atualizar favoritos",
+        title: t("common.error"),
+        description: error.message || t("feed.favoriteError"),
         variant: "destructive",
       });
     }
   };
 
-  const fetchGames = async () => {
+  const fetchGames = useCallback(async (pageToLoad: number) => {
     try {
-      setLoading(true);
-      
-      // Lista de jogos disponíveis tanto na Steam quanto na GOG
-      const popularGames = [
-        { appid: "292030", genre: "RPG/Aventura" }, // The Witcher 3: Wild Hunt
-        { appid: "1091500", genre: "RPG/Ação" }, // Cyberpunk 2077
-        { appid: "1086940", genre: "RPG/Aventura" }, // Baldur's Gate 3
-        { appid: "435150", genre: "RPG/Aventura" }, // Divinity: Original Sin 2
-        { appid: "632470", genre: "RPG/Narrativo" }, // Disco Elysium
-        { appid: "413150", genre: "Simulação/Fazenda" }, // Stardew Valley
-        { appid: "105600", genre: "Aventura/Sandbox" }, // Terraria
-        { appid: "367520", genre: "Metroidvania" }, // Hollow Knight
-        { appid: "646570", genre: "Roguelike/Cartas" }, // Slay the Spire
-        { appid: "588650", genre: "Roguelike/Ação" }, // Dead Cells
-        { appid: "20900", genre: "RPG/Aventura" }, // The Witcher: Enhanced Edition
-      ];
-
-      // Busca todos os jogos em paralelo
-      const gamePromises = popularGames.map(async (game) => {
-        try {
-          // Busca dados do jogo e preços em paralelo
-          const [gameResponse, pricesResponse] = await Promise.all([
-            supabase.functions.invoke('fetch-steam-games', {
-              body: { appid: game.appid }
-            }),
-            supabase.functions.invoke('fetch-game-prices', {
-              body: { appid: game.appid }
-            }).catch(() => ({ data: null, error: null })) // Não falha se preços não carregarem
-          ]);
-          
-          if (gameResponse.error || !gameResponse.data[game.appid]?.success) {
-            return null;
-          }
-          
-          const gameData = gameResponse.data[game.appid].data;
-          
-          // Verifica se o jogo tem preço
-          if (!gameData.price_overview) {
-            return null;
-          }
-
-          const priceData = gameData.price_overview;
-          let lowestCurrentPrice = priceData.final / 100;
-          let lowestOriginalPrice = priceData.initial / 100 || lowestCurrentPrice;
-          let bestDiscount = priceData.discount_percent;
-          let bestPriceFormatted = priceData.final_formatted;
-          
-          // Se encontrou preços de outras lojas, compara para achar o menor
-          if (pricesResponse.data?.prices) {
-            const availablePrices = pricesResponse.data.prices.filter((p: any) => 
-              p.available && p.numericPrice !== null && p.numericPrice > 0
-            );
-            
-            if (availablePrices.length > 0) {
-              const cheapest = availablePrices.reduce((min: any, current: any) => 
-                current.numericPrice < min.numericPrice ? current : min
-              );
-              
-              if (cheapest.numericPrice < lowestCurrentPrice) {
-                lowestCurrentPrice = cheapest.numericPrice;
-                lowestOriginalPrice = parseFloat(cheapest.originalPrice.replace('R$ ', '').replace(',', '.')) || lowestCurrentPrice;
-                bestDiscount = cheapest.discount;
-                bestPriceFormatted = cheapest.price;
-              }
-            }
-          }
-          
-          return {
-            appid: game.appid,
-            title: gameData.name,
-            header_image: gameData.header_image,
-            current_price: lowestCurrentPrice,
-            original_price: lowestOriginalPrice,
-            discount_percent: bestDiscount,
-            price_formatted: bestPriceFormatted,
-            genre: game.genre,
-          };
-        } catch (err) {
-          console.log(`Error fetching game ${game.appid}:`, err);
-          return null;
-        }
-      });
+      if (pageToLoad === 0) {
+        setLoading(true);
+      } else {
+        setLoadingMore(true);
+      }
 
-      // Aguarda todos os jogos carregarem em paralelo
-      const results = await Promise.all(gamePromises);
-      
-      // Filtra jogos que carregaram com sucesso
-      const validGames = results.filter((game): game is GameDeal => game !== null);
+      // Busca uma página do catálogo, já filtrada por nome e gênero
+      let query = supabase
+        .from("games")
+        .select("appid, title, header_image, genre_ids")
+        .order("title")
+        .range(pageToLoad * PAGE_SIZE, (pageToLoad + 1) * PAGE_SIZE - 1);
+
+      if (debouncedSearch) {
+        query = query.ilike("title", `%${debouncedSearch}%`);
+      }
+      if (selectedGenre !== ALL_GENRES) {
+        query = query.contains("genre_ids", [selectedGenre]);
+      }
+
+      const { data: catalog, error } = await query;
+      if (error) throw error;
+
+      // Busca metadados e melhores preços de toda a página em uma única chamada
+      const appids = (catalog ?? []).map(game => game.appid);
+      let deals: BatchDeal[] = [];
+      if (appids.length > 0) {
+        const { data, error: dealsError } = await supabase.functions.invoke('fetch-game-deals', {
+          body: { appids, cc: regionForCurrency(preferences.currency).code, version: LATEST_API_VERSION }
+        });
+        if (dealsError) throw dealsError;
+        deals = data?.deals ?? [];
+      }
+
+      const dealsByAppid = new Map(deals.map(deal => [deal.appid, deal]));
+
+      // Só entram jogos com preço disponível em alguma loja
+      const validGames = (catalog ?? []).flatMap((game): GameDeal[] => {
+        const cheapest = dealsByAppid.get(game.appid)?.bestPrice;
+        if (!cheapest?.price) return [];
+
+        return [{
+          appid: game.appid,
+          title: game.title,
+          header_image: game.header_image,
+          price: cheapest.price,
+          originalPrice: cheapest.originalPrice ?? cheapest.price,
+          discount_percent: cheapest.discount,
+          genres: game.genre_ids,
+          lows: dealsByAppid.get(game.appid)?.lows ?? null,
+        }];
+      });
       
-      setGames(validGames);
+      setGames(prev => pageToLoad === 0 ? validGames : [...prev, ...validGames]);
+      setKnownGenres(prev => new Set([...prev, ...(catalog ?? []).flatMap(game => game.genre_ids)]));
+      setPage(pageToLoad);
+      setHasMore((catalog?.length ?? 0) === PAGE_SIZE);
     } catch (error: any) {
       toast({
-        title: "Erro",
-        description: error.message || "Não foi possível carregar os jogos",
+        title: t("common.error"),
+        description: error.message || t("feed.loadError"),
         variant: "destructive",
       });
     } finally {
       setLoading(false);
+      setLoadingMore(false);
     }
-  };
+  }, [debouncedSearch, selectedGenre, preferences.currency, t]);
+
+  useEffect(() => {
+    // Espera as preferências para já buscar na moeda certa
+    if (preferencesLoading) return;
+    fetchGames(0);
+  }, [fetchGames, preferencesLoading]);
 
   // Lista de gêneros únicos
-  const genres = ["Todos", ...Array.from(new Set(games.map(game => game.genre)))];
-
-  // Filtra e ordena os jogos
-  const filteredGames = games
-    .filter(game =>
-      game.title.toLowerCase().includes(searchTerm.toLowerCase()) &&
-      (selectedGenre === "Todos" || game.genre === selectedGenre)
-    )
+  const genres = [ALL_GENRES, ...Array.from(knownGenres).sort((a, b) => genreName(a).localeCompare(genreName(b), preferences.language))];
+
+  // Ordena os jogos (busca e gênero já são filtrados no catálogo)
+  const filteredGames = [...games]
     .sort((a, b) => {
       if (sortBy === "discount") {
         return b.discount_percent - a.discount_percent;
       } else if (sortBy === "alphabetic") {
-        return a.title.localeCompare(b.title);
+        return a.title.localeCompare(b.title, preferences.language);
       }
       return 0;
     });
@@ -268,13 +276,15 @@ const Feed = () => {
             <div className="flex-1 relative">
               <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
               <Input
-                placeholder="Procurar..."
+                placeholder={t("feed.searchPlaceholder")}
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-12 bg-muted/80 border-0 h-12"
               />
             </div>
             
+            <NotificationBell />
+
             <button onClick={() => navigate("/settings")} className="p-2">
               <Settings className="w-6 h-6 text-foreground" />
             </button>
@@ -286,7 +296,7 @@ const Feed = () => {
       <div className="container max-w-4xl mx-auto px-4 py-6 space-y-6">
         {/* Title */}
         <h1 className="text-2xl md:text-3xl font-bold text-primary text-center">
-          Compare os preços e faça sua compra com mais eficiência!
+          {t("feed.headline")}
         </h1>
 
         {/* Filter Buttons */}
@@ -297,7 +307,7 @@ const Feed = () => {
                 variant="secondary"
                 className="rounded-full px-6"
               >
-                {selectedGenre}
+                {selectedGenre === ALL_GENRES ? t("feed.allGenres") : genreName(selectedGenre)}
                 <ChevronDown className="ml-2 h-4 w-4" />
               </Button>
             </PopoverTrigger>
@@ -313,7 +323,7 @@ const Feed = () => {
                         : "hover:bg-accent hover:text-accent-foreground"
                     }`}
                   >
-                    {genre}
+                    {genre === ALL_GENRES ? t("feed.allGenres") : genreName(genre)}
                   </button>
                 ))}
               </div>
@@ -324,14 +334,14 @@ const Feed = () => {
             variant={sortBy === "discount" ? "default" : "secondary"}
             className="rounded-full px-6"
           >
-            Desconto
+            {t("feed.sortDiscount")}
           </Button>
           <Button
             onClick={() => setSortBy("alphabetic")}
             variant={sortBy === "alphabetic" ? "default" : "secondary"}
             className="rounded-full px-6"
           >
-            Ordem Alfabética
+            {t("feed.sortAlphabetic")}
           </Button>
         </div>
 
@@ -355,7 +365,7 @@ const Feed = () => {
           </div>
         ) : filteredGames.length === 0 ? (
           <div className="text-center py-12">
-            <p className="text-lg text-muted-foreground">Nenhum jogo encontrado</p>
+            <p className="text-lg text-muted-foreground">{t("feed.noGames")}</p>
           </div>
         ) : (
           <div className="space-y-3">
@@ -381,22 +391,22 @@ const Feed = () => {
                   </h3>
                   
                   <p className="text-xs text-muted-foreground mb-1">
-                    {game.genre}
+                    {genreLine(game)}
                   </p>
                   
                   <div className="space-y-0.5 text-xs">
                     {game.discount_percent > 0 ? (
                       <>
                         <div className="flex items-center gap-2">
-                          <span className="text-muted-foreground">De:</span>
+                          <span className="text-muted-foreground">{t("price.from")}</span>
                           <span className="line-through text-muted-foreground">
-                            R$ {game.original_price.toFixed(2)}
+                            {formatMoney(game.originalPrice)}
                           </span>
                         </div>
                         <div className="flex items-center gap-2">
-                          <span className="text-muted-foreground">Por:</span>
+                          <span className="text-muted-foreground">{t("price.to")}</span>
                           <span className="text-green-600 font-bold text-base">
-                            {game.price_formatted}
+                            {formatMoney(game.price)}
                           </span>
                           <span className="inline-block px-2 py-0.5 bg-green-600 text-white rounded-full text-xs font-semibold">
                             -{game.discount_percent}%
@@ -405,13 +415,15 @@ const Feed = () => {
                       </>
                     ) : (
                       <div className="flex items-center gap-2">
-                        <span className="text-muted-foreground">Preço:</span>
+                        <span className="text-muted-foreground">{t("price.label")}</span>
                         <span className="text-foreground font-bold text-base">
-                          {game.price_formatted}
+                          {formatMoney(game.price)}
                         </span>
                       </div>
                     )}
                   </div>
+
+                  <PriceLowBadge low={game.lows} />
                 </div>
 
                 {/* Favorite Button */}
@@ -429,6 +441,19 @@ const Feed = () => {
                 </button>
               </div>
             ))}
+
+            {hasMore && (
+              <div className="flex justify-center pt-3">
+                <Button
+                  onClick={() => fetchGames(page + 1)}
+                  disabled={loadingMore}
+                  variant="secondary"
+                  className="rounded-full px-6"
+                >
+                  {loadingMore ? t("common.loading") : t("feed.loadMore")}
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -1,10 +1,19 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { ArrowLeft, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/hooks/use-toast";
+import { usePreferences } from "@/hooks/use-preferences";
+import { useTranslation } from "@/i18n";
+import { regionForCurrency } from "@shared/regions.ts";
 import { Skeleton } from "@/components/ui/skeleton";
+import { PriceHistoryChart } from "@/components/PriceHistoryChart";
+import { PriceLowBadge, type PriceLows } from "@/components/PriceLowBadge";
+import { RegionPriceComparison } from "@/components/RegionPriceComparison";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LATEST_API_VERSION, type StorePriceV2, type StoreStatusMap } from "@shared/price-api.ts";
+import type { GameMetadata, GameMetadataResponse } from "@shared/game-metadata.ts";
 import {
   Table,
   TableBody,
@@ -14,22 +23,19 @@ import {
   TableRow,
 } from "@/components/ui/table";
 
-interface StorePrice {
-  store: string;
-  price: string;
-  originalPrice: string;
-  discount: number;
-  buyUrl: string;
-  available: boolean;
-}
-
 const GameDetails = () => {
   const navigate = useNavigate();
   const { gameId } = useParams<{ gameId: string }>();
-  const [game, setGame] = useState<any>(null);
-  const [prices, setPrices] = useState<StorePrice[]>([]);
+  const [game, setGame] = useState<GameMetadata | null>(null);
+  const [prices, setPrices] = useState<StorePriceV2[]>([]);
+  const [lows, setLows] = useState<PriceLows | null>(null);
+  const [pricesUpdatedAt, setPricesUpdatedAt] = useState<string | null>(null);
+  const [pricesStale, setPricesStale] = useState(false);
+  const [storeStatus, setStoreStatus] = useState<StoreStatusMap>({});
   const [loading, setLoading] = useState(true);
   const [loadingPrices, setLoadingPrices] = useState(true);
+  const { preferences, isLoading: preferencesLoading } = usePreferences();
+  const { t, formatMoney, formatRelativeTime } = useTranslation();
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -47,50 +53,46 @@ const GameDetails = () => {
     return () => subscription.unsubscribe();
   }, [navigate]);
 
-  useEffect(() => {
-    fetchGameDetails();
-    fetchPrices();
-  }, [gameId]);
-
-  const fetchGameDetails = async () => {
+  const fetchGameDetails = useCallback(async () => {
     if (!gameId) return;
 
     try {
       setLoading(true);
-      const { data, error } = await supabase.functions.invoke('fetch-steam-games', {
-        body: { appid: gameId }
+      const { data, error } = await supabase.functions.invoke<GameMetadataResponse>('fetch-steam-games', {
+        // Mesmo país da busca de preços: no servidor as duas usam a mesma resposta da Steam
+        body: { appid: gameId, language: preferences.language, cc: regionForCurrency(preferences.currency).code }
       });
       
       if (error) throw error;
       
-      if (data[gameId]?.success && data[gameId]?.data) {
-        setGame(data[gameId].data);
+      if (data?.game) {
+        setGame(data.game);
       } else {
         toast({
-          title: "Erro",
-          description: "Jogo não encontrado",
+          title: t("common.error"),
+          description: t("gameDetails.notFound"),
           variant: "destructive",
         });
         navigate("/feed");
       }
     } catch (error: any) {
       toast({
-        title: "Erro",
-        description: error.message || "Não foi possível carregar os detalhes do jogo",
+        title: t("common.error"),
+        description: error.message || t("gameDetails.loadError"),
         variant: "destructive",
       });
     } finally {
       setLoading(false);
     }
-  };
+  }, [gameId, preferences.language, preferences.currency, navigate, t]);
 
-  const fetchPrices = async () => {
+  const fetchPrices = useCallback(async () => {
     if (!gameId) return;
 
     try {
       setLoadingPrices(true);
       const { data, error } = await supabase.functions.invoke('fetch-game-prices', {
-        body: { appid: gameId }
+        body: { appid: gameId, cc: regionForCurrency(preferences.currency).code, version: LATEST_API_VERSION }
       });
       
       if (error) throw error;
@@ -98,17 +100,41 @@ const GameDetails = () => {
       if (data?.prices) {
         setPrices(data.prices);
       }
+      setLows(data?.lows ?? null);
+      setPricesUpdatedAt(data?.last_updated ?? null);
+      setPricesStale(data?.stale ?? false);
+      setStoreStatus(data?.storeStatus ?? {});
     } catch (error: any) {
       console.error("Error fetching prices:", error);
       toast({
-        title: "Erro ao buscar preços",
-        description: error.message || "Não foi possível carregar os preços",
+        title: t("gameDetails.pricesErrorTitle"),
+        description: error.message || t("gameDetails.pricesErrorDescription"),
         variant: "destructive",
       });
     } finally {
       setLoadingPrices(false);
     }
-  };
+  }, [gameId, preferences.currency, t]);
+
+  useEffect(() => {
+    // Descrições e gêneros vêm da Steam já no idioma escolhido
+    if (preferencesLoading) return;
+    fetchGameDetails();
+  }, [fetchGameDetails, preferencesLoading]);
+
+  useEffect(() => {
+    // Espera as preferências para já buscar na moeda certa
+    if (preferencesLoading) return;
+    fetchPrices();
+  }, [fetchPrices, preferencesLoading]);
+
+  // Lojas com o circuito aberto que ficaram sem preço: avisa em vez de simplesmente omitir.
+  // Uma loja só degradada ainda foi consultada; sem preço, ela apenas não vende o jogo.
+  const unavailableStores = Object.entries(storeStatus)
+    .filter(([store, { status }]) =>
+      status === "unavailable" && !prices.some((storePrice) => storePrice.store === store && storePrice.available)
+    )
+    .map(([store]) => store);
 
   if (loading) {
     return (
@@ -133,9 +159,9 @@ const GameDetails = () => {
             className="mb-6"
           >
             <ArrowLeft className="w-5 h-5 mr-2" />
-            Voltar
+            {t("common.back")}
           </Button>
-          <p className="text-center text-muted-foreground">Jogo não encontrado</p>
+          <p className="text-center text-muted-foreground">{t("gameDetails.notFound")}</p>
         </div>
       </div>
     );
@@ -152,7 +178,7 @@ const GameDetails = () => {
             className="gap-2"
           >
             <ArrowLeft className="w-5 h-5" />
-            Voltar
+            {t("common.back")}
           </Button>
         </div>
       </div>
@@ -164,7 +190,7 @@ const GameDetails = () => {
           <div className="relative">
             <div className="aspect-[460/215] w-full overflow-hidden rounded-xl bg-muted border-2 border-border">
               <img
-                src={game.header_image}
+                src={game.media.headerImage ?? undefined}
                 alt={game.name}
                 className="w-full h-full object-cover"
               />
@@ -179,14 +205,14 @@ const GameDetails = () => {
               </h1>
               
               {/* Genres */}
-              {game.genres && game.genres.length > 0 && (
+              {game.genres.length > 0 && (
                 <div className="flex flex-wrap gap-2 mb-4">
-                  {game.genres.map((genre: any) => (
+                  {game.genres.map((genre) => (
                     <span
-                      key={genre.id}
+                      key={genre}
                       className="px-3 py-1 bg-primary/10 text-primary rounded-full text-sm font-medium"
                     >
-                      {genre.description}
+                      {genre}
                     </span>
                   ))}
                 </div>
@@ -195,23 +221,23 @@ const GameDetails = () => {
 
             {/* Description */}
             <div>
-              <h2 className="text-lg font-semibold text-foreground mb-2">Descrição</h2>
+              <h2 className="text-lg font-semibold text-foreground mb-2">{t("gameDetails.description")}</h2>
               <p className="text-muted-foreground leading-relaxed">
-                {game.short_description}
+                {game.shortDescription}
               </p>
             </div>
 
             {/* Developers and Publishers */}
             <div className="space-y-2 text-sm">
-              {game.developers && game.developers.length > 0 && (
+              {game.developers.length > 0 && (
                 <p>
-                  <span className="font-semibold text-foreground">Desenvolvedora:</span>{" "}
+                  <span className="font-semibold text-foreground">{t("gameDetails.developer")}</span>{" "}
                   <span className="text-muted-foreground">{game.developers.join(", ")}</span>
                 </p>
               )}
-              {game.publishers && game.publishers.length > 0 && (
+              {game.publishers.length > 0 && (
                 <p>
-                  <span className="font-semibold text-foreground">Publicadora:</span>{" "}
+                  <span className="font-semibold text-foreground">{t("gameDetails.publisher")}</span>{" "}
                   <span className="text-muted-foreground">{game.publishers.join(", ")}</span>
                 </p>
               )}
@@ -219,67 +245,119 @@ const GameDetails = () => {
           </div>
         </div>
 
-        {/* Price Comparison Table */}
-        <div className="bg-card border-2 border-border rounded-xl overflow-hidden">
-          <div className="bg-primary/10 px-6 py-4 border-b border-border">
-            <h2 className="text-xl font-bold text-foreground">Comparação de Preços</h2>
-            <p className="text-sm text-muted-foreground">Compare os preços em tempo real das principais lojas</p>
-          </div>
-          
-          <div className="overflow-x-auto">
-            {loadingPrices ? (
-              <div className="p-8 text-center">
-                <p className="text-muted-foreground">Carregando preços...</p>
+        {/* Price Comparison: stores in the user's region, or one game across regions */}
+        <Tabs defaultValue="stores" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="stores">{t("gameDetails.tabStores")}</TabsTrigger>
+            <TabsTrigger value="regions">{t("gameDetails.tabRegions")}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="stores">
+            <div className="bg-card border-2 border-border rounded-xl overflow-hidden">
+              <div className="bg-primary/10 px-6 py-4 border-b border-border">
+                <h2 className="text-xl font-bold text-foreground">{t("gameDetails.priceComparisonTitle")}</h2>
+                <p className="text-sm text-muted-foreground">{t("gameDetails.priceComparisonSubtitle")}</p>
+                {!loadingPrices && pricesUpdatedAt && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {t("gameDetails.updated", { time: formatRelativeTime(pricesUpdatedAt) })}
+                    {pricesStale && ` · ${t("gameDetails.refreshing")}`}
+                  </p>
+                )}
               </div>
-            ) : (
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="font-bold">Loja</TableHead>
-                    <TableHead className="font-bold">Preço Original</TableHead>
-                    <TableHead className="font-bold">Preço Atual</TableHead>
-                    <TableHead className="font-bold">Desconto</TableHead>
-                    <TableHead className="font-bold text-right">Ação</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {prices
-                    .filter((storePrice) => storePrice.available && storePrice.price !== 'Consulte a loja')
-                    .map((storePrice, index) => (
-                      <TableRow key={index}>
-                        <TableCell className="font-medium">{storePrice.store}</TableCell>
-                        <TableCell className="text-muted-foreground">
-                          {storePrice.originalPrice}
-                        </TableCell>
-                        <TableCell>
-                          <span className={storePrice.discount > 0 ? "text-green-600 font-semibold" : ""}>
-                            {storePrice.price}
-                          </span>
-                        </TableCell>
-                        <TableCell>
-                          {storePrice.discount > 0 && (
-                            <span className="inline-block px-2 py-1 bg-green-600 text-white rounded-full text-xs font-semibold">
-                              -{storePrice.discount}%
-                            </span>
-                          )}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          <Button
-                            size="sm"
-                            onClick={() => window.open(storePrice.buyUrl, "_blank")}
-                            className="gap-2"
-                          >
-                            Comprar
-                            <ExternalLink className="w-4 h-4" />
-                          </Button>
-                        </TableCell>
+          
+              <div className="overflow-x-auto">
+                {loadingPrices ? (
+                  <div className="p-8 text-center">
+                    <p className="text-muted-foreground">{t("gameDetails.loadingPrices")}</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="font-bold">{t("gameDetails.store")}</TableHead>
+                        <TableHead className="font-bold">{t("gameDetails.originalPrice")}</TableHead>
+                        <TableHead className="font-bold">{t("gameDetails.currentPrice")}</TableHead>
+                        <TableHead className="font-bold">{t("gameDetails.discount")}</TableHead>
+                        <TableHead className="font-bold">{t("gameDetails.lowestPrice")}</TableHead>
+                        <TableHead className="font-bold text-right">{t("gameDetails.action")}</TableHead>
                       </TableRow>
-                    ))}
-                </TableBody>
-              </Table>
+                    </TableHeader>
+                    <TableBody>
+                      {prices
+                        .filter((storePrice) => storePrice.available && storePrice.price !== null)
+                        .map((storePrice, index) => (
+                          <TableRow key={index}>
+                            <TableCell className="font-medium">
+                              {storePrice.store}
+                              {storePrice.isKeyReseller && (
+                                <span className="block text-xs font-normal text-muted-foreground">
+                                  {storePrice.redemptionPlatform
+                                    ? t("gameDetails.keyFor", { platform: storePrice.redemptionPlatform })
+                                    : t("gameDetails.keyReseller")}
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-muted-foreground">
+                              {formatMoney(storePrice.originalPrice ?? storePrice.price)}
+                            </TableCell>
+                            <TableCell>
+                              <span className={storePrice.discount > 0 ? "text-green-600 font-semibold" : ""}>
+                                {formatMoney(storePrice.price)}
+                              </span>
+                            </TableCell>
+                            <TableCell>
+                              {storePrice.discount > 0 && (
+                                <span className="inline-block px-2 py-1 bg-green-600 text-white rounded-full text-xs font-semibold">
+                                  -{storePrice.discount}%
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              {lows?.stores[storePrice.store] && (
+                                <div className="flex flex-col items-start gap-1">
+                                  <span className="text-muted-foreground">
+                                    {formatMoney(lows.stores[storePrice.store].allTimeLow)}
+                                  </span>
+                                  <PriceLowBadge low={lows.stores[storePrice.store]} />
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <Button
+                                size="sm"
+                                onClick={() => window.open(storePrice.buyUrl, "_blank")}
+                                className="gap-2"
+                              >
+                                {t("gameDetails.buy")}
+                                <ExternalLink className="w-4 h-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      {unavailableStores.map((store) => (
+                        <TableRow key={store}>
+                          <TableCell colSpan={6} className="text-sm text-muted-foreground">
+                            {t("gameDetails.storeUnavailable", { store })}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+          </TabsContent>
+
+          {/* Montado só quando a aba é aberta: consulta as seis regiões */}
+          <TabsContent value="regions">
+            {gameId && (
+              <RegionPriceComparison appid={gameId} gameName={game.name} currency={preferences.currency} />
             )}
-          </div>
-        </div>
+          </TabsContent>
+        </Tabs>
+
+        {/* Price History Chart */}
+        {gameId && <PriceHistoryChart appid={gameId} />}
       </div>
     </div>
   );
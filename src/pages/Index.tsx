@@ -3,9 +3,11 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Gamepad2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { useTranslation } from "@/i18n";
 
 const Index = () => {
   const navigate = useNavigate();
+  const { t } = useTranslation();
 
   useEffect(() => {
     const checkAuthAndRedirect = async () => {
@@ -33,11 +35,11 @@ const Index = () => {
         </div>
         
         <h1 className="text-4xl md:text-5xl font-bold text-primary">
-          Compare Preços de Jogos
+          {t("index.title")}
         </h1>
         
         <p className="text-xl md:text-2xl text-foreground max-w-2xl mx-auto">
-          Encontre os melhores preços para seus jogos favoritos!
+          {t("index.subtitle")}
         </p>
         
         <Button
@@ -45,7 +47,7 @@ const Index = () => {
           size="lg"
           className="text-lg h-14 px-12 rounded-full font-bold"
         >
-          Começar Agora
+          {t("index.cta")}
         </Button>
       </div>
     </div>
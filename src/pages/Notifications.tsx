@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Bell, CheckCheck, Tag, TrendingDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { NavigationDrawer } from "@/components/NavigationDrawer";
+import { toast } from "@/hooks/use-toast";
+import { useTranslation } from "@/i18n";
+import type { NotificationData } from "@shared/notifications.ts";
+
+interface Notification {
+  id: string;
+  type: string;
+  // Só notificações antigas têm o texto pronto; as novas trazem os parâmetros em data
+  title: string | null;
+  body: string | null;
+  data: NotificationData | null;
+  appid: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+const Notifications = () => {
+  const navigate = useNavigate();
+  const [loading, setLoading] = useState(true);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const { t, formatMoney, formatRelativeTime } = useTranslation();
+
+  const checkAuth = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      navigate("/auth");
+    }
+  }, [navigate]);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("id, type, title, body, data, appid, read_at, created_at")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+
+      setNotifications((data || []) as Notification[]);
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : t("notifications.loadError"),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    checkAuth();
+    fetchNotifications();
+  }, [checkAuth, fetchNotifications]);
+
+  // Texto da notificação no idioma atual, a partir do tipo e dos parâmetros gravados
+  const renderNotification = (notification: Notification) => {
+    const { game, store, price, discount = 0 } = notification.data ?? {};
+    if (!game || !store || !price) {
+      return { title: notification.title ?? "", body: notification.body ?? "" };
+    }
+
+    const params = { game, store, price: formatMoney(price), discount };
+    if (notification.type === "new_deal") {
+      return { title: t("notifications.newDealTitle", params), body: t("notifications.newDealBody", params) };
+    }
+    return {
+      title: t("notifications.priceDropTitle", params),
+      body: t(discount > 0 ? "notifications.priceDropBodyDiscount" : "notifications.priceDropBody", params),
+    };
+  };
+
+  const markAsRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .in("id", ids);
+
+    if (error) {
+      console.error("Error marking notifications as read:", error);
+      return;
+    }
+
+    setNotifications(prev => prev.map(n => ids.includes(n.id) ? { ...n, read_at: readAt } : n));
+  };
+
+  const openNotification = async (notification: Notification) => {
+    if (!notification.read_at) {
+      await markAsRead([notification.id]);
+    }
+    if (notification.appid) {
+      navigate(`/game/${notification.appid}`);
+    }
+  };
+
+  const unreadIds = notifications.filter(n => !n.read_at).map(n => n.id);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">{t("common.loading")}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      {/* Header */}
+      <div className="sticky top-0 z-10 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 border-b border-foreground/10">
+        <div className="container max-w-4xl mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <NavigationDrawer />
+            <div className="flex-1">
+              <h1 className="text-xl font-bold text-foreground">{t("notifications.title")}</h1>
+              {unreadIds.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {t("notifications.unread", { count: unreadIds.length })}
+                </p>
+              )}
+            </div>
+            {unreadIds.length > 0 && (
+              <Button variant="secondary" size="sm" className="rounded-full gap-2" onClick={() => markAsRead(unreadIds)}>
+                <CheckCheck className="w-4 h-4" />
+                {t("notifications.markAllRead")}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="container max-w-4xl mx-auto px-4 py-6">
+        {notifications.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 text-center">
+            <div className="mb-4 p-4 bg-muted rounded-full">
+              <Bell className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <h2 className="text-2xl font-bold text-foreground mb-2">
+              {t("notifications.emptyTitle")}
+            </h2>
+            <p className="text-muted-foreground mb-6">
+              {t("notifications.emptyDescription")}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {notifications.map((notification) => {
+              const { title, body } = renderNotification(notification);
+              return (
+                <div
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={`bg-card border-2 rounded-xl p-4 flex gap-3 hover:shadow-md transition-all cursor-pointer ${
+                    notification.read_at ? "border-foreground/20 opacity-75" : "border-foreground"
+                  }`}
+                >
+                  <div className="flex-shrink-0 p-2 bg-primary/10 rounded-full self-start">
+                    {notification.type === "price_drop" ? (
+                      <TrendingDown className="w-5 h-5 text-primary" />
+                    ) : (
+                      <Tag className="w-5 h-5 text-primary" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <h3 className="text-sm font-bold text-foreground leading-tight">
+                      {title}
+                    </h3>
+                    <p className="text-sm text-muted-foreground">{body}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatRelativeTime(notification.created_at)}
+                    </p>
+                  </div>
+                  {!notification.read_at && (
+                    <span className="self-center w-2.5 h-2.5 rounded-full bg-red-500 flex-shrink-0" />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Notifications;
@@ -9,6 +9,7 @@ import { Label } from "@/components/ui/label";
 import { ArrowLeft, Camera, Heart, Settings } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { NavigationDrawer } from "@/components/NavigationDrawer";
+import { useTranslation } from "@/i18n";
 
 const Profile = () => {
   const navigate = useNavigate();
@@ -19,6 +20,7 @@ const Profile = () => {
   const [favoritesCount, setFavoritesCount] = useState(0);
   const [avatarUrl, setAvatarUrl] = useState("");
   const [uploading, setUploading] = useState(false);
+  const { t, formatNumber } = useTranslation();
 
   useEffect(() => {
     checkAuth();
@@ -82,15 +84,15 @@ const Profile = () => {
       if (error) throw error;
 
       toast({
-        title: "Perfil atualizado",
-        description: "Suas informações foram atualizadas com sucesso!",
+        title: t("profile.updatedTitle"),
+        description: t("profile.updatedDescription"),
       });
       
       setIsEditing(false);
     } catch (error: any) {
       toast({
-        title: "Erro",
-        description: error.message || "Não foi possível atualizar o perfil",
+        title: t("common.error"),
+        description: error.message || t("profile.updateError"),
         variant: "destructive",
       });
     }
@@ -135,13 +137,13 @@ const Profile = () => {
       setAvatarUrl(publicUrl);
       
       toast({
-        title: "Foto atualizada",
-        description: "Sua foto de perfil foi atualizada com sucesso!",
+        title: t("profile.photoUpdatedTitle"),
+        description: t("profile.photoUpdatedDescription"),
       });
     } catch (error: any) {
       toast({
-        title: "Erro",
-        description: error.message || "Não foi possível atualizar a foto",
+        title: t("common.error"),
+        description: error.message || t("profile.photoError"),
         variant: "destructive",
       });
     } finally {
@@ -162,7 +164,7 @@ const Profile = () => {
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
-        <p className="text-muted-foreground">Carregando...</p>
+        <p className="text-muted-foreground">{t("common.loading")}</p>
       </div>
     );
   }
@@ -174,7 +176,7 @@ const Profile = () => {
         <div className="container max-w-4xl mx-auto px-4 py-4">
           <div className="flex items-center gap-3">
             <NavigationDrawer />
-            <h1 className="text-xl font-bold text-foreground">Perfil</h1>
+            <h1 className="text-xl font-bold text-foreground">{t("profile.title")}</h1>
           </div>
         </div>
       </div>
@@ -216,30 +218,30 @@ const Profile = () => {
               <div className="text-center p-4 bg-muted rounded-lg">
                 <div className="flex items-center justify-center gap-2 mb-1">
                   <Heart className="w-4 h-4 text-primary" />
-                  <p className="text-2xl font-bold text-foreground">{favoritesCount}</p>
+                  <p className="text-2xl font-bold text-foreground">{formatNumber(favoritesCount)}</p>
                 </div>
-                <p className="text-sm text-muted-foreground">Favoritos</p>
+                <p className="text-sm text-muted-foreground">{t("profile.favorites", { count: favoritesCount })}</p>
               </div>
               <div className="text-center p-4 bg-muted rounded-lg">
-                <p className="text-2xl font-bold text-foreground">0</p>
-                <p className="text-sm text-muted-foreground">Jogos Salvos</p>
+                <p className="text-2xl font-bold text-foreground">{formatNumber(0)}</p>
+                <p className="text-sm text-muted-foreground">{t("profile.savedGames", { count: 0 })}</p>
               </div>
             </div>
 
             {/* Profile Info */}
             <div className="space-y-4 pt-4">
               <div className="space-y-2">
-                <Label htmlFor="username">Nome de usuário</Label>
+                <Label htmlFor="username">{t("profile.username")}</Label>
                 <Input
                   id="username"
                   value={username}
                   onChange={(e) => setUsername(e.target.value)}
                   disabled={!isEditing}
-                  placeholder="Digite seu nome de usuário"
+                  placeholder={t("profile.usernamePlaceholder")}
                 />
               </div>
               <div className="space-y-2">
-                <Label htmlFor="email">Email</Label>
+                <Label htmlFor="email">{t("profile.email")}</Label>
                 <Input
                   id="email"
                   value={email}
@@ -257,7 +259,7 @@ const Profile = () => {
                     onClick={handleUpdateProfile}
                     className="flex-1"
                   >
-                    Salvar
+                    {t("common.save")}
                   </Button>
                   <Button
                     onClick={() => {
@@ -267,7 +269,7 @@ const Profile = () => {
                     variant="outline"
                     className="flex-1"
                   >
-                    Cancelar
+                    {t("common.cancel")}
                   </Button>
                 </>
               ) : (
@@ -275,7 +277,7 @@ const Profile = () => {
                   onClick={() => setIsEditing(true)}
                   className="w-full"
                 >
-                  Editar Perfil
+                  {t("profile.edit")}
                 </Button>
               )}
             </div>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { ArrowLeft, LogOut } from "lucide-react";
@@ -7,53 +7,100 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/hooks/use-toast";
+import { usePreferences, type Currency, type DigestFrequency, type Language } from "@/hooks/use-preferences";
+import { translate, useTranslation } from "@/i18n";
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
 
 const Settings = () => {
   const navigate = useNavigate();
-  const [notificationsEnabled, setNotificationsEnabled] = useState(true);
-  const [language, setLanguage] = useState("pt-BR");
-  const [currency, setCurrency] = useState("BRL");
+  const { preferences, updatePreferences } = usePreferences();
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const { t, translateError } = useTranslation();
+
+  useEffect(() => {
+    getPushSubscription().then(subscription => setPushEnabled(!!subscription));
+  }, []);
 
   const handleLogout = async () => {
     try {
       await supabase.auth.signOut();
       toast({
-        title: "Logout realizado",
-        description: "Você foi desconectado com sucesso",
+        title: t("settings.logoutSuccessTitle"),
+        description: t("settings.logoutSuccessDescription"),
       });
       navigate("/auth");
     } catch (error: any) {
       toast({
-        title: "Erro ao deslogar",
+        title: t("settings.logoutError"),
         description: error.message,
         variant: "destructive",
       });
     }
   };
 
-  const handleNotificationToggle = (checked: boolean) => {
-    setNotificationsEnabled(checked);
+  const handleNotificationToggle = async (checked: boolean) => {
+    if (!await updatePreferences({ notificationsEnabled: checked })) return;
+    toast({
+      title: checked ? t("settings.notificationsEnabledTitle") : t("settings.notificationsDisabledTitle"),
+      description: checked
+        ? t("settings.notificationsEnabledDescription")
+        : t("settings.notificationsDisabledDescription"),
+    });
+  };
+
+  const handleNotificationTypeToggle = (type: "notifyPriceDrop" | "notifyNewDeal", checked: boolean) => {
+    updatePreferences({ [type]: checked });
+  };
+
+  const handlePushToggle = async (checked: boolean) => {
+    try {
+      if (checked) {
+        const subscribed = await subscribeToPush();
+        if (!subscribed) {
+          toast({
+            title: t("settings.pushPermissionDeniedTitle"),
+            description: t("settings.pushPermissionDeniedDescription"),
+            variant: "destructive",
+          });
+          return;
+        }
+      } else {
+        await unsubscribeFromPush();
+      }
+      setPushEnabled(checked);
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: translateError(error, "settings.pushError"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDigestFrequencyChange = async (value: DigestFrequency) => {
+    if (!await updatePreferences({ digestFrequency: value })) return;
     toast({
-      title: checked ? "Notificações ativadas" : "Notificações desativadas",
-      description: checked 
-        ? "Você receberá notificações sobre ofertas" 
-        : "Você não receberá mais notificações",
+      title: value === "never" ? t("settings.digestDisabledTitle") : t("settings.digestEnabledTitle"),
+      description: value === "never"
+        ? t("settings.digestDisabledDescription")
+        : value === "daily" ? t("settings.digestDailyDescription") : t("settings.digestWeeklyDescription"),
     });
   };
 
-  const handleLanguageChange = (value: string) => {
-    setLanguage(value);
+  const handleLanguageChange = async (value: Language) => {
+    if (!await updatePreferences({ language: value })) return;
+    // Avisa já no idioma novo
     toast({
-      title: "Idioma alterado",
-      description: `Idioma alterado para ${value === "pt-BR" ? "Português (BR)" : value === "en-US" ? "Inglês (EUA)" : "Espanhol"}`,
+      title: translate(value, "settings.languageChangedTitle"),
+      description: translate(value, "settings.languageChangedDescription"),
     });
   };
 
-  const handleCurrencyChange = (value: string) => {
-    setCurrency(value);
+  const handleCurrencyChange = async (value: Currency) => {
+    if (!await updatePreferences({ currency: value })) return;
     toast({
-      title: "Moeda alterada",
-      description: `Moeda de precificação alterada para ${value}`,
+      title: t("settings.currencyChangedTitle"),
+      description: t("settings.currencyChangedDescription", { currency: value }),
     });
   };
 
@@ -66,7 +113,7 @@ const Settings = () => {
             <button onClick={() => navigate(-1)} className="p-2">
               <ArrowLeft className="w-6 h-6 text-foreground" />
             </button>
-            <h1 className="text-xl font-bold text-foreground">Configurações</h1>
+            <h1 className="text-xl font-bold text-foreground">{t("settings.title")}</h1>
           </div>
         </div>
       </div>
@@ -78,32 +125,91 @@ const Settings = () => {
           <div className="flex items-center justify-between">
             <div className="space-y-1">
               <Label htmlFor="notifications" className="text-base font-semibold text-foreground">
-                Notificações
+                {t("settings.notifications")}
               </Label>
               <p className="text-sm text-muted-foreground">
-                Receba alertas sobre ofertas e descontos
+                {t("settings.notificationsDescription")}
               </p>
             </div>
             <Switch
               id="notifications"
-              checked={notificationsEnabled}
+              checked={preferences.notificationsEnabled}
               onCheckedChange={handleNotificationToggle}
             />
           </div>
+
+          {preferences.notificationsEnabled && (
+            <div className="space-y-3 pt-2 border-t border-foreground/10">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="notify-price-drop" className="text-sm text-foreground">
+                  {t("settings.priceDropAlerts")}
+                </Label>
+                <Switch
+                  id="notify-price-drop"
+                  checked={preferences.notifyPriceDrop}
+                  onCheckedChange={(checked) => handleNotificationTypeToggle("notifyPriceDrop", checked)}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="notify-new-deal" className="text-sm text-foreground">
+                  {t("settings.newDeals")}
+                </Label>
+                <Switch
+                  id="notify-new-deal"
+                  checked={preferences.notifyNewDeal}
+                  onCheckedChange={(checked) => handleNotificationTypeToggle("notifyNewDeal", checked)}
+                />
+              </div>
+              {isPushSupported() && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="push-enabled" className="text-sm text-foreground">
+                    {t("settings.push")}
+                  </Label>
+                  <Switch
+                    id="push-enabled"
+                    checked={pushEnabled}
+                    onCheckedChange={handlePushToggle}
+                  />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Email Digest Section */}
+        <div className="bg-card border-2 border-foreground rounded-xl p-6 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="digest-frequency" className="text-base font-semibold text-foreground">
+              {t("settings.digest")}
+            </Label>
+            <p className="text-sm text-muted-foreground mb-3">
+              {t("settings.digestDescription")}
+            </p>
+            <Select value={preferences.digestFrequency} onValueChange={handleDigestFrequencyChange}>
+              <SelectTrigger id="digest-frequency" className="w-full">
+                <SelectValue placeholder={t("settings.digestPlaceholder")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="daily">{t("settings.digestDaily")}</SelectItem>
+                <SelectItem value="weekly">{t("settings.digestWeekly")}</SelectItem>
+                <SelectItem value="never">{t("settings.digestNever")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
         </div>
 
         {/* Language Section */}
         <div className="bg-card border-2 border-foreground rounded-xl p-6 space-y-4">
           <div className="space-y-2">
             <Label htmlFor="language" className="text-base font-semibold text-foreground">
-              Idioma
+              {t("settings.language")}
             </Label>
             <p className="text-sm text-muted-foreground mb-3">
-              Escolha o idioma do aplicativo
+              {t("settings.languageDescription")}
             </p>
-            <Select value={language} onValueChange={handleLanguageChange}>
+            <Select value={preferences.language} onValueChange={handleLanguageChange}>
               <SelectTrigger id="language" className="w-full">
-                <SelectValue placeholder="Selecione o idioma" />
+                <SelectValue placeholder={t("settings.languagePlaceholder")} />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="pt-BR">Português (Brasil)</SelectItem>
@@ -118,20 +224,20 @@ const Settings = () => {
         <div className="bg-card border-2 border-foreground rounded-xl p-6 space-y-4">
           <div className="space-y-2">
             <Label htmlFor="currency" className="text-base font-semibold text-foreground">
-              Região de Precificação
+              {t("settings.currency")}
             </Label>
             <p className="text-sm text-muted-foreground mb-3">
-              Escolha a moeda para exibição de preços
+              {t("settings.currencyDescription")}
             </p>
-            <Select value={currency} onValueChange={handleCurrencyChange}>
+            <Select value={preferences.currency} onValueChange={handleCurrencyChange}>
               <SelectTrigger id="currency" className="w-full">
-                <SelectValue placeholder="Selecione a moeda" />
+                <SelectValue placeholder={t("settings.currencyPlaceholder")} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="BRL">Real Brasileiro (R$)</SelectItem>
-                <SelectItem value="USD">Dólar Americano (US$)</SelectItem>
-                <SelectItem value="EUR">Euro (€)</SelectItem>
-                <SelectItem value="GBP">Libra Esterlina (£)</SelectItem>
+                <SelectItem value="BRL">{t("settings.currencyBRL")}</SelectItem>
+                <SelectItem value="USD">{t("settings.currencyUSD")}</SelectItem>
+                <SelectItem value="EUR">{t("settings.currencyEUR")}</SelectItem>
+                <SelectItem value="GBP">{t("settings.currencyGBP")}</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -146,7 +252,7 @@ const Settings = () => {
             size="lg"
           >
             <LogOut className="mr-2 h-5 w-5" />
-            Sair da Conta
+            {t("settings.logout")}
           </Button>
         </div>
       </div>
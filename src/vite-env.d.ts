@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Chave pública VAPID usada para inscrever o navegador em notificações push
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+}
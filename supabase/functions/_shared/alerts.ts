@@ -0,0 +1,118 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { PriceRegion } from './regions.ts';
+import { storeAdapters, type StorePrice } from './stores/index.ts';
+
+interface AlertFavorite {
+  id: string;
+  user_id: string;
+  appid: string;
+  title: string;
+  target_price: number | string | null;
+  min_discount: number | null;
+  allowed_stores: string[] | null;
+  alerted_at: string | null;
+}
+
+// Um favorito dispara quando o preço está no alvo e o desconto é suficiente (condições ausentes não contam)
+export const matchesAlert = (favorite: AlertFavorite, price: StorePrice): boolean => {
+  if (!price.available || price.numericPrice === null || price.numericPrice <= 0) return false;
+  if (favorite.allowed_stores && favorite.allowed_stores.length > 0 && !favorite.allowed_stores.includes(price.store)) {
+    return false;
+  }
+  if (favorite.target_price !== null && price.numericPrice > Number(favorite.target_price)) return false;
+  if (favorite.min_discount !== null && price.discount < favorite.min_discount) return false;
+  return true;
+};
+
+// O episódio só acaba quando todas as lojas do alerta responderam sem atender a condição
+const canRearm = (favorite: AlertFavorite, respondedStores: string[]): boolean => {
+  const stores = favorite.allowed_stores?.length ? favorite.allowed_stores : storeAdapters.map(adapter => adapter.store);
+  return stores.every(store => respondedStores.includes(store));
+};
+
+/**
+ * Confere os favoritos com alerta configurado para o jogo na moeda da região e cria um price_alert
+ * para cada um cuja condição foi atendida, usando a loja mais barata que atende.
+ * Cada favorito alerta uma vez por episódio (favorites.alerted_at): depois só volta a alertar
+ * quando o preço deixa de atender a condição ou o usuário muda o alerta.
+ */
+export const evaluatePriceAlerts = async (
+  supabase: SupabaseClient,
+  appid: string,
+  prices: StorePrice[],
+  region: PriceRegion,
+  respondedStores: string[],
+): Promise<number> => {
+  const { data: favorites, error } = await supabase
+    .from('favorites')
+    .select('id, user_id, appid, title, target_price, min_discount, allowed_stores, alerted_at')
+    .eq('appid', appid)
+    .eq('target_currency', region.currency)
+    .or('target_price.not.is.null,min_discount.not.is.null');
+
+  if (error) throw error;
+
+  const rearmed: string[] = [];
+  const alerts = (favorites ?? []).flatMap((favorite: AlertFavorite) => {
+    const matching = prices.filter(price => matchesAlert(favorite, price));
+    if (matching.length === 0) {
+      if (favorite.alerted_at && canRearm(favorite, respondedStores)) rearmed.push(favorite.id);
+      return [];
+    }
+    if (favorite.alerted_at) return [];
+
+    const best = matching.reduce((min, current) => current.numericPrice! < min.numericPrice! ? current : min);
+    return [{
+      user_id: favorite.user_id,
+      favorite_id: favorite.id,
+      appid,
+      title: favorite.title,
+      store: best.store,
+      price: best.numericPrice,
+      currency: best.currency,
+      discount: best.discount,
+      buy_url: best.buyUrl,
+      target_price: favorite.target_price,
+      min_discount: favorite.min_discount,
+    }];
+  });
+
+  if (rearmed.length > 0) {
+    const { error: rearmError } = await supabase
+      .from('favorites')
+      .update({ alerted_at: null })
+      .in('id', rearmed);
+    if (rearmError) throw rearmError;
+  }
+
+  if (alerts.length === 0) return 0;
+
+  // Abre o episódio antes de inserir: só alerta quem ainda estava sem alerta aberto,
+  // mesmo com duas atualizações do mesmo jogo ao mesmo tempo
+  const { data: claimed, error: claimError } = await supabase
+    .from('favorites')
+    .update({ alerted_at: new Date().toISOString() })
+    .in('id', alerts.map(alert => alert.favorite_id))
+    .is('alerted_at', null)
+    .select('id');
+
+  if (claimError) throw claimError;
+
+  const claimedIds = new Set((claimed ?? []).map(favorite => favorite.id));
+  const toCreate = alerts.filter(alert => claimedIds.has(alert.favorite_id));
+  if (toCreate.length === 0) return 0;
+
+  const { data: created, error: insertError } = await supabase
+    .from('price_alerts')
+    .insert(toCreate)
+    .select('id');
+
+  if (insertError) {
+    // Sem o alerta gravado, o episódio não pode ficar aberto
+    await supabase.from('favorites').update({ alerted_at: null }).in('id', Array.from(claimedIds));
+    throw insertError;
+  }
+
+  console.log(`Created ${created?.length ?? 0} price alerts for appid ${appid}`);
+  return created?.length ?? 0;
+};
@@ -0,0 +1,89 @@
+import { strictEqual } from 'node:assert/strict';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { evaluatePriceAlerts } from './alerts.ts';
+import { REGIONS } from './regions.ts';
+import type { StorePrice } from './stores/index.ts';
+
+type Row = { [column: string]: unknown };
+
+// favorites e price_alerts em memória, só com o que evaluatePriceAlerts usa
+const fakeSupabase = (tables: { [table: string]: Row[] }) => ({
+  from: (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let patch: Row | null = null;
+    let inserted: Row[] = [];
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), query),
+      in: (column: string, values: unknown[]) => (filters.push(row => values.includes(row[column])), query),
+      is: (column: string, value: unknown) => (filters.push(row => (row[column] ?? null) === value), query),
+      or: () => query,
+      update: (values: Row) => ((patch = values), query),
+      insert: (rows: Row[]) => {
+        inserted = rows.map(row => ({ ...row, id: crypto.randomUUID() }));
+        tables[table].push(...inserted);
+        return query;
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => {
+        if (inserted.length > 0) return resolve({ data: inserted, error: null });
+        const rows = tables[table].filter(row => filters.every(filter => filter(row)));
+        if (patch) rows.forEach(row => Object.assign(row, patch));
+        resolve({ data: rows, error: null });
+      },
+    };
+    return query;
+  },
+}) as unknown as SupabaseClient;
+
+const favorite = (): Row => ({
+  id: 'fav-1',
+  user_id: 'user-1',
+  appid: '1',
+  title: 'Hades',
+  target_price: 50,
+  target_currency: 'BRL',
+  min_discount: null,
+  allowed_stores: ['Steam'],
+  alerted_at: null,
+});
+
+const steamPrice = (numericPrice: number): StorePrice => ({
+  store: 'Steam',
+  currency: 'BRL',
+  discount: 0,
+  buyUrl: 'https://store.steampowered.com/app/1',
+  available: true,
+  numericPrice,
+  numericOriginalPrice: numericPrice,
+});
+
+Deno.test('evaluatePriceAlerts alerts once while the price stays on target', async () => {
+  const tables = { favorites: [favorite()], price_alerts: [] as Row[] };
+  const supabase = fakeSupabase(tables);
+
+  strictEqual(await evaluatePriceAlerts(supabase, '1', [steamPrice(45)], REGIONS.BR, ['Steam']), 1);
+  strictEqual(await evaluatePriceAlerts(supabase, '1', [steamPrice(40)], REGIONS.BR, ['Steam']), 0);
+  strictEqual(tables.price_alerts.length, 1);
+});
+
+Deno.test('evaluatePriceAlerts alerts again after the price goes back above target', async () => {
+  const tables = { favorites: [favorite()], price_alerts: [] as Row[] };
+  const supabase = fakeSupabase(tables);
+
+  await evaluatePriceAlerts(supabase, '1', [steamPrice(45)], REGIONS.BR, ['Steam']);
+  await evaluatePriceAlerts(supabase, '1', [steamPrice(60)], REGIONS.BR, ['Steam']);
+  strictEqual(tables.favorites[0].alerted_at, null);
+
+  strictEqual(await evaluatePriceAlerts(supabase, '1', [steamPrice(45)], REGIONS.BR, ['Steam']), 1);
+  strictEqual(tables.price_alerts.length, 2);
+});
+
+Deno.test('evaluatePriceAlerts keeps the episode open when an alert store did not respond', async () => {
+  const tables = { favorites: [favorite()], price_alerts: [] as Row[] };
+  const supabase = fakeSupabase(tables);
+
+  await evaluatePriceAlerts(supabase, '1', [steamPrice(45)], REGIONS.BR, ['Steam']);
+  await evaluatePriceAlerts(supabase, '1', [], REGIONS.BR, []);
+
+  strictEqual(await evaluatePriceAlerts(supabase, '1', [steamPrice(45)], REGIONS.BR, ['Steam']), 0);
+});
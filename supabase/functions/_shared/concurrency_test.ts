@@ -0,0 +1,27 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { mapWithConcurrency } from './concurrency.ts';
+
+Deno.test('mapWithConcurrency never runs more than the limit at once', async () => {
+  let running = 0;
+  let peak = 0;
+
+  const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async (item) => {
+    running++;
+    peak = Math.max(peak, running);
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    running--;
+    return item * 10;
+  });
+
+  strictEqual(peak, 2);
+  deepStrictEqual(results, [10, 20, 30, 40, 50, 60]);
+});
+
+Deno.test('mapWithConcurrency keeps the order of the items when later ones finish first', async () => {
+  const results = await mapWithConcurrency([3, 1, 2], 3, async (delay) => {
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return delay;
+  });
+
+  deepStrictEqual(results, [3, 1, 2]);
+});
@@ -0,0 +1,95 @@
+import { DEFAULT_LANGUAGE } from '../languages.ts';
+
+// Textos do resumo por e-mail e das páginas de cancelamento, no idioma escolhido em Configurações
+export interface DigestMessages {
+  subjectDaily: string;
+  subjectWeekly: string;
+  greeting: string;
+  introDaily: string;
+  introWeekly: string;
+  alertsTitle: string;
+  alertLine: string;
+  buy: string;
+  priceDropsTitle: string;
+  priceDropLine: string;
+  historicalLowsTitle: string;
+  footer: string;
+  unsubscribe: string;
+  unsubscribeConfirm: string;
+  unsubscribeButton: string;
+  unsubscribeDone: string;
+  unsubscribeInvalid: string;
+  unsubscribeError: string;
+}
+
+// Fonte única dos textos do resumo: o app os importa em digest.* (src/i18n/messages)
+export const DIGEST_MESSAGES: { [language: string]: DigestMessages } = {
+  'pt-BR': {
+    subjectDaily: 'Seu resumo de ofertas de hoje',
+    subjectWeekly: 'Seu resumo de ofertas da semana',
+    greeting: 'Olá, {username}!',
+    introDaily: 'Este é o seu resumo de ofertas de hoje.',
+    introWeekly: 'Este é o seu resumo de ofertas da semana.',
+    alertsTitle: 'Alertas de preço atingidos',
+    alertLine: '{price} na {store}',
+    buy: 'comprar',
+    priceDropsTitle: 'Favoritos que baixaram de preço',
+    priceDropLine: 'de {previousPrice} por {currentPrice}',
+    historicalLowsTitle: 'Menor preço histórico',
+    footer: 'Você recebe este e-mail porque ativou o resumo de ofertas.',
+    unsubscribe: 'Cancelar inscrição',
+    unsubscribeConfirm: 'Deseja parar de receber o resumo de ofertas por e-mail?',
+    unsubscribeButton: 'Cancelar inscrição',
+    unsubscribeDone: 'Pronto! Você não receberá mais o resumo de ofertas por e-mail.',
+    unsubscribeInvalid: 'Link de cancelamento inválido.',
+    unsubscribeError: 'Não foi possível cancelar a inscrição. Tente novamente mais tarde.',
+  },
+  'en-US': {
+    subjectDaily: 'Your daily deals digest',
+    subjectWeekly: 'Your weekly deals digest',
+    greeting: 'Hi, {username}!',
+    introDaily: 'Here is your daily deals digest.',
+    introWeekly: 'Here is your weekly deals digest.',
+    alertsTitle: 'Price alerts reached',
+    alertLine: '{price} on {store}',
+    buy: 'buy',
+    priceDropsTitle: 'Favorites that dropped in price',
+    priceDropLine: 'from {previousPrice} to {currentPrice}',
+    historicalLowsTitle: 'Historical low',
+    footer: 'You are receiving this email because you turned on the deals digest.',
+    unsubscribe: 'Unsubscribe',
+    unsubscribeConfirm: 'Stop receiving the deals digest by email?',
+    unsubscribeButton: 'Unsubscribe',
+    unsubscribeDone: 'Done! You will no longer receive the deals digest by email.',
+    unsubscribeInvalid: 'Invalid unsubscribe link.',
+    unsubscribeError: 'Could not unsubscribe. Please try again later.',
+  },
+  'es-ES': {
+    subjectDaily: 'Tu resumen de ofertas de hoy',
+    subjectWeekly: 'Tu resumen de ofertas de la semana',
+    greeting: '¡Hola, {username}!',
+    introDaily: 'Este es tu resumen de ofertas de hoy.',
+    introWeekly: 'Este es tu resumen de ofertas de la semana.',
+    alertsTitle: 'Alertas de precio alcanzadas',
+    alertLine: '{price} en {store}',
+    buy: 'comprar',
+    priceDropsTitle: 'Favoritos que bajaron de precio',
+    priceDropLine: 'de {previousPrice} a {currentPrice}',
+    historicalLowsTitle: 'Precio más bajo histórico',
+    footer: 'Recibes este correo porque activaste el resumen de ofertas.',
+    unsubscribe: 'Cancelar suscripción',
+    unsubscribeConfirm: '¿Quieres dejar de recibir el resumen de ofertas por correo?',
+    unsubscribeButton: 'Cancelar suscripción',
+    unsubscribeDone: '¡Listo! Ya no recibirás el resumen de ofertas por correo.',
+    unsubscribeInvalid: 'Enlace de cancelación no válido.',
+    unsubscribeError: 'No se pudo cancelar la suscripción. Inténtalo de nuevo más tarde.',
+  },
+};
+
+export const DIGEST_LANGUAGES = Object.keys(DIGEST_MESSAGES);
+
+// Idioma desconhecido ou ausente cai no português
+export const digestLanguage = (language?: string | null): string =>
+  language && DIGEST_MESSAGES[language] ? language : DEFAULT_LANGUAGE;
+
+export const digestMessages = (language?: string | null): DigestMessages => DIGEST_MESSAGES[digestLanguage(language)];
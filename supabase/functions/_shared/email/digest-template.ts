@@ -0,0 +1,107 @@
+import { interpolate } from '../i18n.ts';
+import { formatMoney, type Money } from '../money.ts';
+import { digestLanguage, digestMessages } from './digest-messages.ts';
+
+export interface DigestPriceDrop {
+  title: string;
+  appid: string;
+  previousPrice: Money;
+  currentPrice: Money;
+}
+
+export interface DigestHistoricalLow {
+  title: string;
+  appid: string;
+  price: Money;
+}
+
+export interface DigestAlert {
+  title: string;
+  appid: string;
+  store: string;
+  price: Money;
+  buyUrl: string;
+}
+
+export interface DigestContent {
+  username: string;
+  // Idioma escolhido em Configurações (pt-BR, en-US, es-ES)
+  language: string;
+  frequency: 'daily' | 'weekly';
+  priceDrops: DigestPriceDrop[];
+  historicalLows: DigestHistoricalLow[];
+  alerts: DigestAlert[];
+  appUrl: string;
+  unsubscribeUrl: string;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+export const isDigestEmpty = (content: DigestContent) =>
+  content.priceDrops.length === 0 && content.historicalLows.length === 0 && content.alerts.length === 0;
+
+const section = <T>(title: string, items: T[], renderHtml: (item: T) => string) =>
+  items.length === 0
+    ? ''
+    : `<h2 style="font-size:18px;color:#0b2a5b;margin:24px 0 8px">${escapeHtml(title)}</h2>
+<ul style="padding-left:20px;margin:0">${items.map(item => `<li style="margin-bottom:6px">${renderHtml(item)}</li>`).join('')}</ul>`;
+
+const textSection = <T>(title: string, items: T[], renderText: (item: T) => string) =>
+  items.length === 0 ? '' : `${title}\n${items.map(item => `- ${renderText(item)}`).join('\n')}\n\n`;
+
+// Renderiza o resumo em HTML e texto puro, no idioma do usuário
+export const renderDigestEmail = (content: DigestContent): { subject: string; html: string; text: string } => {
+  const language = digestLanguage(content.language);
+  const messages = digestMessages(language);
+  const format = (value: Money) => formatMoney(value, language);
+
+  const daily = content.frequency === 'daily';
+  const subject = daily ? messages.subjectDaily : messages.subjectWeekly;
+  const greeting = interpolate(messages.greeting, { username: content.username });
+  const intro = daily ? messages.introDaily : messages.introWeekly;
+  const alertLine = (alert: DigestAlert) => interpolate(messages.alertLine, { price: format(alert.price), store: alert.store });
+  const priceDropLine = (drop: DigestPriceDrop) => interpolate(messages.priceDropLine, {
+    previousPrice: format(drop.previousPrice),
+    currentPrice: format(drop.currentPrice),
+  });
+  const gameUrl = (appid: string) => `${content.appUrl}/game/${appid}`;
+  const link = (appid: string, title: string) =>
+    `<a href="${escapeHtml(gameUrl(appid))}" style="color:#0b2a5b;font-weight:bold">${escapeHtml(title)}</a>`;
+
+  const html = `<!DOCTYPE html>
+<html lang="${language}">
+<body style="font-family:Arial,sans-serif;background:#f4f7f6;padding:24px;color:#0b2a5b">
+<div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:12px;padding:24px">
+<h1 style="font-size:22px;margin:0 0 8px">${escapeHtml(greeting)}</h1>
+<p style="margin:0 0 8px">${escapeHtml(intro)}</p>
+${section(messages.alertsTitle, content.alerts, alert =>
+  `${link(alert.appid, alert.title)}: ${escapeHtml(alertLine(alert))} — <a href="${escapeHtml(alert.buyUrl)}">${escapeHtml(messages.buy)}</a>`)}
+${section(messages.priceDropsTitle, content.priceDrops, drop =>
+  `${link(drop.appid, drop.title)}: ${escapeHtml(priceDropLine(drop))}`)}
+${section(messages.historicalLowsTitle, content.historicalLows, low =>
+  `${link(low.appid, low.title)}: ${format(low.price)}`)}
+<p style="font-size:12px;color:#5b6b7f;margin-top:32px">
+${escapeHtml(messages.footer)}
+<a href="${escapeHtml(content.unsubscribeUrl)}" style="color:#5b6b7f">${escapeHtml(messages.unsubscribe)}</a>
+</p>
+</div>
+</body>
+</html>`;
+
+  const text = `${greeting}\n\n${intro}\n\n`
+    + textSection(messages.alertsTitle, content.alerts, alert =>
+      `${alert.title}: ${alertLine(alert)} (${alert.buyUrl})`)
+    + textSection(messages.priceDropsTitle, content.priceDrops, drop =>
+      `${drop.title}: ${priceDropLine(drop)} (${gameUrl(drop.appid)})`)
+    + textSection(messages.historicalLowsTitle, content.historicalLows, low =>
+      `${low.title}: ${format(low.price)} (${gameUrl(low.appid)})`)
+    + `${messages.unsubscribe}: ${content.unsubscribeUrl}\n`;
+
+  return { subject, html, text };
+};
@@ -0,0 +1,41 @@
+import { ok, strictEqual } from 'node:assert/strict';
+import { renderDigestEmail, type DigestContent } from './digest-template.ts';
+import { money } from '../money.ts';
+
+const content = (language: string): DigestContent => ({
+  username: 'Ana',
+  language,
+  frequency: 'weekly',
+  priceDrops: [{ title: 'Hades', appid: '1145360', previousPrice: money(7399, 'USD'), currentPrice: money(3699, 'USD') }],
+  historicalLows: [],
+  alerts: [{
+    title: 'Celeste',
+    appid: '504230',
+    store: 'GOG',
+    price: money(499, 'EUR'),
+    buyUrl: 'https://www.gog.com/game/celeste',
+  }],
+  appUrl: 'https://app.example',
+  unsubscribeUrl: 'https://app.example/unsubscribe?token=1',
+});
+
+Deno.test('renderDigestEmail writes the digest in the user language', () => {
+  const email = renderDigestEmail(content('en-US'));
+  strictEqual(email.subject, 'Your weekly deals digest');
+  ok(email.html.includes('<html lang="en-US">'));
+  ok(email.text.includes('Favorites that dropped in price'));
+  ok(email.text.includes('Unsubscribe: https://app.example/unsubscribe?token=1'));
+});
+
+Deno.test('renderDigestEmail falls back to Portuguese for an unknown language', () => {
+  const email = renderDigestEmail(content('fr-FR'));
+  strictEqual(email.subject, 'Seu resumo de ofertas da semana');
+  ok(email.text.includes('Olá, Ana!'));
+});
+
+Deno.test('renderDigestEmail formats each amount in its own currency', () => {
+  const email = renderDigestEmail(content('en-US'));
+  ok(email.text.includes('Hades: from $73.99 to $36.99'));
+  ok(email.text.includes('Celeste: €4.99 on GOG'));
+  ok(!email.text.includes('R$'));
+});
@@ -0,0 +1,73 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: { [name: string]: string };
+}
+
+// Qualquer meio de entrega de e-mail (SMTP, API de um provedor, fake em testes)
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  tls: boolean;
+  from: string;
+}
+
+export class SmtpTransport implements EmailTransport {
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const client = new SMTPClient({
+      connection: {
+        hostname: this.config.hostname,
+        port: this.config.port,
+        tls: this.config.tls,
+        auth: this.config.username
+          ? { username: this.config.username, password: this.config.password ?? '' }
+          : undefined,
+      },
+    });
+
+    try {
+      await client.send({
+        from: this.config.from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+        headers: message.headers,
+      });
+    } finally {
+      await client.close();
+    }
+  }
+}
+
+/**
+ * Monta o transporte a partir das variáveis de ambiente.
+ * Em desenvolvimento basta apontar para o MailHog: SMTP_HOST=localhost SMTP_PORT=1025 SMTP_TLS=false
+ */
+export const createEmailTransport = (): EmailTransport => {
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) {
+    throw new Error('SMTP_HOST is not configured');
+  }
+
+  return new SmtpTransport({
+    hostname,
+    port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+    username: Deno.env.get('SMTP_USER') || undefined,
+    password: Deno.env.get('SMTP_PASS') || undefined,
+    tls: Deno.env.get('SMTP_TLS') !== 'false',
+    from: Deno.env.get('SMTP_FROM') ?? 'Game Deal Buddy <no-reply@gamedealbuddy.app>',
+  });
+};
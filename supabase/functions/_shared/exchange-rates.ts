@@ -0,0 +1,88 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { ExchangeRateTable } from './money.ts';
+import { REGIONS } from './regions.ts';
+import type { ExchangeRateProvider } from './rates/provider.ts';
+
+// Todas as cotações ficam em exchange_rates a partir do dólar; as demais saem por cotação cruzada
+export const RATES_BASE = 'USD';
+
+// Moedas das regiões de precificação, mais as que o usuário pode escolher
+export const RATE_CURRENCIES = Array.from(
+  new Set([...Object.values(REGIONS).map(region => region.currency), 'BRL', 'USD', 'EUR', 'GBP'])
+);
+
+/**
+ * Busca as cotações no provedor e grava em exchange_rates.
+ * Usado pelo job refresh-exchange-rates e quando a tabela ainda está vazia.
+ */
+export const refreshExchangeRates = async (
+  supabase: SupabaseClient,
+  provider: ExchangeRateProvider,
+): Promise<ExchangeRateTable> => {
+  const table = await provider.fetchRates(RATES_BASE, RATE_CURRENCIES);
+  const rows = Object.entries(table.rates).map(([quote, rate]) => ({
+    base_currency: table.base,
+    quote_currency: quote,
+    rate,
+    as_of: table.asOf,
+    provider: provider.name,
+    updated_at: new Date().toISOString(),
+  }));
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('exchange_rates')
+      .upsert(rows, { onConflict: 'base_currency,quote_currency' });
+    if (error) throw error;
+  }
+
+  console.log(`Saved ${rows.length} exchange rates from ${provider.name} (${table.asOf})`);
+  return table;
+};
+
+// O job roda a cada 6 horas; cotações mais velhas que isso indicam que ele parou de rodar
+export const RATES_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Cotações gravadas em exchange_rates; null quando o job ainda não rodou
+const loadStoredRates = async (
+  supabase: SupabaseClient,
+): Promise<{ table: ExchangeRateTable; updatedAt: number } | null> => {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('quote_currency, rate, as_of, updated_at')
+    .eq('base_currency', RATES_BASE);
+
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+
+  return {
+    table: {
+      base: RATES_BASE,
+      rates: Object.fromEntries(data.map(row => [row.quote_currency, Number(row.rate)])),
+      // Todas as linhas vêm da mesma carga; a mais antiga é a data que vale para a tabela
+      asOf: data.map(row => row.as_of).filter(Boolean).sort()[0] ?? null,
+    },
+    updatedAt: Math.min(...data.map(row => new Date(row.updated_at).getTime())),
+  };
+};
+
+/**
+ * Cotações para converter preços: as gravadas, ou do provedor quando a tabela está vazia
+ * ou velha demais. Se o provedor falhar, cotações velhas ainda servem melhor que nenhuma.
+ */
+export const getExchangeRates = async (
+  supabase: SupabaseClient,
+  provider: ExchangeRateProvider,
+  now = Date.now(),
+): Promise<ExchangeRateTable> => {
+  const stored = await loadStoredRates(supabase);
+  if (stored && now - stored.updatedAt < RATES_MAX_AGE_MS) return stored.table;
+
+  try {
+    return await refreshExchangeRates(supabase, provider);
+  } catch (error) {
+    if (!stored) throw error;
+    console.error('Error refreshing stale exchange rates, using stored rates:', error);
+    return stored.table;
+  }
+};
@@ -0,0 +1,88 @@
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert/strict';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getExchangeRates, RATES_MAX_AGE_MS, refreshExchangeRates } from './exchange-rates.ts';
+import { FixtureRateProvider, type ExchangeRateProvider } from './rates/provider.ts';
+
+type Row = { [column: string]: unknown };
+
+// exchange_rates em memória; upsert troca a linha do mesmo par de moedas
+const fakeSupabase = (rows: Row[]) => ({
+  from: () => {
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) =>
+        Promise.resolve({ data: rows.filter(row => row[column] === value), error: null }),
+      upsert: (newRows: Row[]) => {
+        for (const row of newRows) {
+          const index = rows.findIndex(existing => existing.quote_currency === row.quote_currency);
+          if (index >= 0) rows[index] = row;
+          else rows.push(row);
+        }
+        return Promise.resolve({ error: null });
+      },
+    };
+    return query;
+  },
+}) as unknown as SupabaseClient;
+
+const failingProvider: ExchangeRateProvider = {
+  name: 'failing',
+  fetchRates: () => Promise.reject(new Error('provider offline')),
+};
+
+const storedRow = (quote: string, rate: number, updatedAt: number): Row => ({
+  base_currency: 'USD',
+  quote_currency: quote,
+  rate,
+  as_of: '2025-12-01',
+  provider: 'frankfurter',
+  updated_at: new Date(updatedAt).toISOString(),
+});
+
+const now = Date.parse('2026-01-02T12:00:00Z');
+
+Deno.test('FixtureRateProvider recomputes cross rates for another base', async () => {
+  const table = await new FixtureRateProvider().fetchRates('BRL', ['BRL', 'USD', 'EUR']);
+
+  deepStrictEqual(table, { base: 'BRL', rates: { USD: 0.2, EUR: 0.18 }, asOf: '2026-01-01' });
+});
+
+Deno.test('refreshExchangeRates saves one row per quote currency', async () => {
+  const rows: Row[] = [];
+
+  const table = await refreshExchangeRates(fakeSupabase(rows), new FixtureRateProvider());
+
+  strictEqual(table.base, 'USD');
+  strictEqual(rows.find(row => row.quote_currency === 'BRL')?.rate, 5);
+  strictEqual(rows.every(row => row.base_currency === 'USD' && row.provider === 'fixture'), true);
+  strictEqual(rows.some(row => row.quote_currency === 'USD'), false);
+});
+
+Deno.test('getExchangeRates uses stored rates while they are recent', async () => {
+  const rows = [storedRow('BRL', 5.5, now - RATES_MAX_AGE_MS + 1000)];
+
+  const table = await getExchangeRates(fakeSupabase(rows), failingProvider, now);
+
+  deepStrictEqual(table, { base: 'USD', rates: { BRL: 5.5 }, asOf: '2025-12-01' });
+});
+
+Deno.test('getExchangeRates refreshes stale rates from the provider', async () => {
+  const rows = [storedRow('BRL', 5.5, now - RATES_MAX_AGE_MS)];
+
+  const table = await getExchangeRates(fakeSupabase(rows), new FixtureRateProvider(), now);
+
+  strictEqual(table.rates.BRL, 5);
+  strictEqual(rows.find(row => row.quote_currency === 'BRL')?.rate, 5);
+});
+
+Deno.test('getExchangeRates falls back to stale rates when the provider fails', async () => {
+  const rows = [storedRow('BRL', 5.5, now - 2 * RATES_MAX_AGE_MS)];
+
+  const table = await getExchangeRates(fakeSupabase(rows), failingProvider, now);
+
+  strictEqual(table.rates.BRL, 5.5);
+});
+
+Deno.test('getExchangeRates fails without stored rates and without the provider', async () => {
+  await rejects(getExchangeRates(fakeSupabase([]), failingProvider, now), /provider offline/);
+});
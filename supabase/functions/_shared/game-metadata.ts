@@ -0,0 +1,65 @@
+/**
+ * Contrato da resposta do fetch-steam-games, compartilhado com o app React (@shared/game-metadata.ts).
+ * Dados do jogo já normalizados a partir do appdetails da Steam, no idioma pedido.
+ */
+
+export interface GameRequirements {
+  // HTML da Steam, como a loja exibe
+  minimum: string | null;
+  recommended: string | null;
+}
+
+export interface GameScreenshot {
+  thumbnail: string;
+  full: string;
+}
+
+export interface GameMovie {
+  name: string;
+  thumbnail: string;
+  webm: string | null;
+  mp4: string | null;
+}
+
+export interface GameMedia {
+  headerImage: string | null;
+  capsuleImage: string | null;
+  background: string | null;
+  screenshots: GameScreenshot[];
+  movies: GameMovie[];
+}
+
+export interface GamePlatforms {
+  windows: boolean;
+  mac: boolean;
+  linux: boolean;
+}
+
+export interface GameMetadata {
+  appid: string;
+  name: string;
+  // game, dlc, demo...
+  type: string;
+  isFree: boolean;
+  shortDescription: string;
+  // HTML da Steam
+  detailedDescription: string;
+  genres: string[];
+  developers: string[];
+  publishers: string[];
+  media: GameMedia;
+  platforms: GamePlatforms;
+  // Texto livre da Steam ("21 Oct, 2025"); null quando ainda não anunciada
+  releaseDate: { date: string | null; comingSoon: boolean };
+  metacritic: { score: number; url: string | null } | null;
+  // appids das DLCs
+  dlc: string[];
+  requirements: { [platform in keyof GamePlatforms]: GameRequirements | null };
+}
+
+export interface GameMetadataResponse {
+  // null quando a Steam não conhece o appid
+  game: GameMetadata | null;
+  language: string;
+  last_updated: string | null;
+}
@@ -0,0 +1,6 @@
+// Parâmetros de uma mensagem dos catálogos: "{game} entrou em promoção" com { game: 'Hades' }
+export type MessageParams = Record<string, string | number>;
+
+// Troca cada {nome} pelo parâmetro de mesmo nome; nomes sem parâmetro ficam como estão
+export const interpolate = (message: string, params?: MessageParams) =>
+  params ? message.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match)) : message;
@@ -0,0 +1,12 @@
+// Idiomas do app e o nome que a API da Steam espera no parâmetro `l`
+const STEAM_LANGUAGES: { [language: string]: string } = {
+  'pt-BR': 'brazilian',
+  'en-US': 'english',
+  'es-ES': 'spanish',
+};
+
+export const DEFAULT_LANGUAGE = 'pt-BR';
+
+// Idioma desconhecido ou ausente cai no português
+export const steamLanguage = (language?: string | null): string =>
+  (language && STEAM_LANGUAGES[language]) || STEAM_LANGUAGES[DEFAULT_LANGUAGE];
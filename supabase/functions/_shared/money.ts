@@ -0,0 +1,67 @@
+// Valores monetários compartilhados entre as edge functions e o app React.
+// Não depende de nada do Deno nem do navegador: o app importa este arquivo via @shared/money.ts.
+
+// amount em unidades menores (centavos), currency em código ISO 4217
+export interface Money {
+  amount: number;
+  currency: string;
+}
+
+// Cotações a partir de uma moeda base: 1 base = rates[moeda]
+export interface ExchangeRateTable {
+  base: string;
+  rates: { [currency: string]: number };
+  asOf: string | null;
+}
+
+const decimalsCache = new Map<string, number>();
+
+// Casas decimais da moeda segundo o Intl (2 para BRL/USD, 0 para JPY...)
+export const currencyDecimals = (currency: string): number => {
+  const code = currency.toUpperCase();
+  let decimals = decimalsCache.get(code);
+  if (decimals === undefined) {
+    decimals = new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? 2;
+    decimalsCache.set(code, decimals);
+  }
+  return decimals;
+};
+
+export const money = (amount: number, currency: string): Money => ({
+  amount: Math.round(amount),
+  currency: currency.toUpperCase(),
+});
+
+// 59.99 BRL -> { amount: 5999, currency: 'BRL' }
+// toPrecision tira o erro de ponto flutuante da multiplicação (1.005 * 100 = 100.49999...) antes de arredondar
+export const moneyFromDecimal = (value: number, currency: string): Money =>
+  money(Number((value * 10 ** currencyDecimals(currency)).toPrecision(12)), currency);
+
+// { amount: 5999, currency: 'BRL' } -> 59.99
+export const moneyToDecimal = ({ amount, currency }: Money): number =>
+  amount / 10 ** currencyDecimals(currency);
+
+export const formatMoney = (value: Money, locale: string): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency: value.currency }).format(moneyToDecimal(value));
+
+/**
+ * Converte para outra moeda usando a cotação cruzada pela base da tabela.
+ * Retorna null quando falta cotação para alguma das moedas.
+ */
+export const convertMoney = (value: Money, to: string, table: ExchangeRateTable): Money | null => {
+  const target = to.toUpperCase();
+  if (value.currency === target) return value;
+
+  const fromRate = value.currency === table.base ? 1 : table.rates[value.currency];
+  const toRate = target === table.base ? 1 : table.rates[target];
+  if (!fromRate || !toRate) return null;
+
+  return moneyFromDecimal((moneyToDecimal(value) / fromRate) * toRate, target);
+};
+
+export const compareMoney = (a: Money, b: Money): number => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot compare ${a.currency} with ${b.currency}`);
+  }
+  return a.amount - b.amount;
+};
@@ -0,0 +1,55 @@
+import { deepStrictEqual, strictEqual, throws } from 'node:assert/strict';
+import {
+  compareMoney,
+  convertMoney,
+  currencyDecimals,
+  money,
+  moneyFromDecimal,
+  moneyToDecimal,
+} from './money.ts';
+import { FIXTURE_RATES } from './rates/fixtures.ts';
+
+Deno.test('currencyDecimals follows the currency minor unit', () => {
+  strictEqual(currencyDecimals('BRL'), 2);
+  strictEqual(currencyDecimals('jpy'), 0);
+  strictEqual(currencyDecimals('KWD'), 3);
+});
+
+Deno.test('moneyFromDecimal rounds to the nearest minor unit', () => {
+  deepStrictEqual(moneyFromDecimal(59.99, 'brl'), { amount: 5999, currency: 'BRL' });
+  // 1.005 * 100 é 100.49999... em ponto flutuante
+  deepStrictEqual(moneyFromDecimal(1.005, 'USD'), { amount: 101, currency: 'USD' });
+  deepStrictEqual(moneyFromDecimal(0.125, 'USD'), { amount: 13, currency: 'USD' });
+  deepStrictEqual(money(12.6, 'EUR'), { amount: 13, currency: 'EUR' });
+});
+
+Deno.test('moneyFromDecimal handles currencies without cents and with three decimals', () => {
+  deepStrictEqual(moneyFromDecimal(1500.4, 'JPY'), { amount: 1500, currency: 'JPY' });
+  deepStrictEqual(moneyFromDecimal(1.2345, 'KWD'), { amount: 1235, currency: 'KWD' });
+  strictEqual(moneyToDecimal({ amount: 1500, currency: 'JPY' }), 1500);
+  strictEqual(moneyToDecimal({ amount: 1235, currency: 'KWD' }), 1.235);
+});
+
+Deno.test('convertMoney goes from and to the table base', () => {
+  deepStrictEqual(convertMoney(money(1000, 'USD'), 'BRL', FIXTURE_RATES), { amount: 5000, currency: 'BRL' });
+  deepStrictEqual(convertMoney(money(5000, 'BRL'), 'usd', FIXTURE_RATES), { amount: 1000, currency: 'USD' });
+});
+
+Deno.test('convertMoney crosses through the base between two other currencies', () => {
+  // 50 reais = 10 dólares = 9 euros
+  deepStrictEqual(convertMoney(money(5000, 'BRL'), 'EUR', FIXTURE_RATES), { amount: 900, currency: 'EUR' });
+  // 9 euros = 10 dólares = 8 libras
+  deepStrictEqual(convertMoney(money(900, 'EUR'), 'GBP', FIXTURE_RATES), { amount: 800, currency: 'GBP' });
+});
+
+Deno.test('convertMoney keeps the value in the same currency and returns null without a rate', () => {
+  const value = money(5999, 'BRL');
+  strictEqual(convertMoney(value, 'BRL', FIXTURE_RATES), value);
+  strictEqual(convertMoney(value, 'JPY', FIXTURE_RATES), null);
+  strictEqual(convertMoney(money(100, 'JPY'), 'BRL', FIXTURE_RATES), null);
+});
+
+Deno.test('compareMoney refuses to compare different currencies', () => {
+  strictEqual(compareMoney(money(500, 'BRL'), money(700, 'BRL')), -200);
+  throws(() => compareMoney(money(500, 'BRL'), money(500, 'USD')), /Cannot compare BRL with USD/);
+});
@@ -0,0 +1,18 @@
+import type { Money } from './money.ts';
+
+/**
+ * Contrato de notifications.data, compartilhado com o app React (@shared/notifications.ts).
+ * O banco guarda só o tipo e estes parâmetros; o app e o send-push montam o texto no idioma do usuário.
+ */
+export type NotificationType = 'price_drop' | 'new_deal';
+
+export interface NotificationData {
+  // Nome do jogo favoritado
+  game?: string;
+  store?: string;
+  price?: Money;
+  discount?: number;
+  buy_url?: string;
+  // Só em price_drop: o price_alert que gerou a notificação
+  alert_id?: string;
+}
@@ -0,0 +1,20 @@
+// O PostgREST devolve no máximo 1000 linhas por consulta (max-rows); acima disso o resto some sem erro
+export const PAGE_SIZE = 1000;
+
+/**
+ * Lê todas as linhas de uma consulta, página por página, até vir uma página incompleta.
+ * page monta a consulta para o intervalo pedido, ex.: (from, to) => supabase.from('games').select('appid').range(from, to).
+ * A consulta precisa de uma ordem estável (order) para as páginas não repetirem nem pularem linhas.
+ */
+export const selectAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+  pageSize = PAGE_SIZE,
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await page(from, from + pageSize - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < pageSize) return rows;
+  }
+};
@@ -0,0 +1,26 @@
+import { deepStrictEqual } from 'node:assert/strict';
+import { selectAllRows } from './pagination.ts';
+
+const pagedTable = (size: number) => {
+  const rows = Array.from({ length: size }, (_, index) => index);
+  const ranges: [number, number][] = [];
+  const page = (from: number, to: number) => {
+    ranges.push([from, to]);
+    return Promise.resolve({ data: rows.slice(from, to + 1), error: null });
+  };
+  return { rows, ranges, page };
+};
+
+Deno.test('selectAllRows reads past the first page', async () => {
+  const table = pagedTable(25);
+
+  deepStrictEqual(await selectAllRows(table.page, 10), table.rows);
+  deepStrictEqual(table.ranges, [[0, 9], [10, 19], [20, 29]]);
+});
+
+Deno.test('selectAllRows stops on an empty page when the rows fill the last page exactly', async () => {
+  const table = pagedTable(20);
+
+  deepStrictEqual(await selectAllRows(table.page, 10), table.rows);
+  deepStrictEqual(table.ranges, [[0, 9], [10, 19], [20, 29]]);
+});
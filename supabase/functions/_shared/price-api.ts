@@ -0,0 +1,125 @@
+import type { Money } from './money.ts';
+
+/**
+ * Contrato das respostas das funções de preço, compartilhado com o app React (@shared/price-api.ts).
+ *
+ * - v1: preço como texto já formatado (price, originalPrice) mais numericPrice em decimal.
+ *   É o padrão enquanto houver clientes antigos.
+ * - v2: preço como Money (unidades menores + moeda ISO); o cliente formata no idioma dele.
+ *
+ * O cliente escolhe enviando `version` no corpo da requisição.
+ */
+export type ApiVersion = 1 | 2;
+
+export const LATEST_API_VERSION: ApiVersion = 2;
+
+export const resolveApiVersion = (version: unknown): ApiVersion => Number(version) === 2 ? 2 : 1;
+
+export interface StorePriceV1 {
+  store: string;
+  price: string;
+  originalPrice: string;
+  discount: number;
+  buyUrl: string;
+  available: boolean;
+  numericPrice: number | null;
+  numericOriginalPrice: number | null;
+  isKeyReseller: boolean;
+  redemptionPlatform: string | null;
+}
+
+export interface StorePriceV2 {
+  store: string;
+  price: Money | null;
+  originalPrice: Money | null;
+  discount: number;
+  buyUrl: string;
+  available: boolean;
+  // Revendedora de chaves e a plataforma onde a chave é ativada
+  isKeyReseller: boolean;
+  redemptionPlatform: string | null;
+}
+
+export interface PriceLowV2 {
+  current: Money | null;
+  allTimeLow: Money;
+  low90Days: Money;
+  isAllTimeLow: boolean;
+  isLow90Days: boolean;
+  percentAboveLow: number | null;
+}
+
+export interface PriceLowsV2 {
+  game: PriceLowV2 | null;
+  stores: { [store: string]: PriceLowV2 };
+}
+
+/**
+ * Situação de cada loja consultada, igual nas duas versões.
+ * - degraded: a última consulta falhou; o preço pode estar desatualizado ou ausente
+ * - unavailable: falhas seguidas abriram o circuito e a loja fica de fora até retryAt
+ */
+export type StoreHealthStatus = 'ok' | 'degraded' | 'unavailable';
+
+export interface StoreStatus {
+  status: StoreHealthStatus;
+  lastError: string | null;
+  retryAt: string | null;
+}
+
+export type StoreStatusMap = { [store: string]: StoreStatus };
+
+export interface GamePricesResponseV2 {
+  version: 2;
+  prices: StorePriceV2[];
+  lows: PriceLowsV2 | null;
+  region: string;
+  currency: string;
+  last_updated: string | null;
+  stale: boolean;
+  storeStatus: StoreStatusMap;
+}
+
+export interface GameDealV2 {
+  appid: string;
+  game: { appid: string; title: string; header_image: string; genre_ids: string[] } | null;
+  prices: StorePriceV2[];
+  bestPrice: StorePriceV2 | null;
+  lows: PriceLowV2 | null;
+  last_updated: string | null;
+  stale: boolean;
+}
+
+export interface GameDealsResponseV2 {
+  version: 2;
+  deals: GameDealV2[];
+  region: string;
+  currency: string;
+  storeStatus: StoreStatusMap;
+}
+
+export interface PriceLowsResponseV2 {
+  version: 2;
+  lows: { [appid: string]: PriceLowsV2 };
+}
+
+export interface RegionPriceV2 {
+  region: string;
+  countryCode: string;
+  currency: string;
+  store: string | null;
+  price: Money | null;
+  discount: number;
+  buyUrl: string | null;
+  // Menor preço da região na moeda pedida pelo cliente
+  convertedPrice: Money | null;
+  last_updated: string | null;
+  stale: boolean;
+}
+
+export interface RegionPricesResponseV2 {
+  version: 2;
+  currency: string;
+  rates_date: string | null;
+  regions: RegionPriceV2[];
+}
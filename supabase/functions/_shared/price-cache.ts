@@ -0,0 +1,90 @@
+import type { StorePrice } from './stores/index.ts';
+
+// Tempo de vida padrão do preço de cada loja
+const STORE_TTL_MS: { [store: string]: number } = {
+  Steam: 60 * 60 * 1000,
+  GOG: 2 * 60 * 60 * 1000,
+  'Epic Games': 2 * 60 * 60 * 1000,
+  Humble: 2 * 60 * 60 * 1000,
+  Fanatical: 2 * 60 * 60 * 1000,
+  'Green Man Gaming': 2 * 60 * 60 * 1000,
+  Nuuvem: 2 * 60 * 60 * 1000,
+  'Microsoft Store': 2 * 60 * 60 * 1000,
+};
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+// Promoções começam e acabam a qualquer momento, então expiram mais rápido
+const ON_SALE_TTL_MS = 15 * 60 * 1000;
+
+// Depois disso o cache é velho demais até para ser mostrado enquanto atualiza
+export const MAX_STALE_MS = 24 * 60 * 60 * 1000;
+
+export type CacheState = 'fresh' | 'stale' | 'miss';
+
+export interface GamePriceRow {
+  appid: string;
+  store: string;
+  currency: string;
+  discount: number;
+  buy_url: string;
+  available: boolean;
+  numeric_price: number | string | null;
+  numeric_original_price: number | string | null;
+  is_key_reseller: boolean;
+  redemption_platform: string | null;
+  last_updated: string;
+}
+
+export interface CachedPrices {
+  state: CacheState;
+  prices: StorePrice[];
+  // Horário do preço mais antigo do conjunto
+  lastUpdated: string | null;
+}
+
+export const priceTtlMs = (store: string, discount: number): number => {
+  const storeTtl = STORE_TTL_MS[store] ?? DEFAULT_TTL_MS;
+  return discount > 0 ? Math.min(storeTtl, ON_SALE_TTL_MS) : storeTtl;
+};
+
+export const rowToStorePrice = (row: GamePriceRow): StorePrice => ({
+  store: row.store,
+  currency: row.currency,
+  discount: row.discount,
+  buyUrl: row.buy_url,
+  available: row.available,
+  numericPrice: row.numeric_price ? parseFloat(String(row.numeric_price)) : null,
+  numericOriginalPrice: row.numeric_original_price ? parseFloat(String(row.numeric_original_price)) : null,
+  isKeyReseller: row.is_key_reseller,
+  redemptionPlatform: row.redemption_platform,
+});
+
+/**
+ * Classifica as linhas de game_prices de um jogo:
+ * - fresh: todas as lojas dentro do TTL, pode responder direto
+ * - stale: alguma loja expirou, responde com o cache e atualiza em segundo plano
+ * - miss: nada utilizável, é preciso buscar nas lojas antes de responder
+ */
+export const evaluatePriceCache = (rows: GamePriceRow[], now = Date.now()): CachedPrices => {
+  const usable = rows.filter(row =>
+    row.available &&
+    row.numeric_price &&
+    Number(row.numeric_price) > 0 &&
+    now - new Date(row.last_updated).getTime() < MAX_STALE_MS
+  );
+
+  if (usable.length === 0) {
+    return { state: 'miss', prices: [], lastUpdated: null };
+  }
+
+  const expired = usable.some(row =>
+    now - new Date(row.last_updated).getTime() >= priceTtlMs(row.store, row.discount)
+  );
+  const oldest = usable.reduce((min, row) => row.last_updated < min ? row.last_updated : min, usable[0].last_updated);
+
+  return {
+    state: expired ? 'stale' : 'fresh',
+    prices: usable.map(rowToStorePrice),
+    lastUpdated: oldest,
+  };
+};
@@ -0,0 +1,67 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { evaluatePriceCache, MAX_STALE_MS, priceTtlMs, type CacheState, type GamePriceRow } from './price-cache.ts';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const now = Date.parse('2026-01-01T12:00:00Z');
+
+const row = (store: string, ageMs: number, overrides: Partial<GamePriceRow> = {}): GamePriceRow => ({
+  appid: '1',
+  store,
+  currency: 'BRL',
+  discount: 0,
+  buy_url: `https://example.com/${store}`,
+  available: true,
+  numeric_price: '59.99',
+  numeric_original_price: '59.99',
+  is_key_reseller: false,
+  redemption_platform: null,
+  last_updated: new Date(now - ageMs).toISOString(),
+  ...overrides,
+});
+
+Deno.test('priceTtlMs uses each store TTL and shortens it while on sale', () => {
+  const cases: [string, number, number][] = [
+    ['Steam', 0, HOUR_MS],
+    ['GOG', 0, 2 * HOUR_MS],
+    ['Unknown Store', 0, HOUR_MS],
+    ['Steam', 50, 15 * MINUTE_MS],
+    ['GOG', 10, 15 * MINUTE_MS],
+  ];
+  for (const [store, discount, ttl] of cases) {
+    strictEqual(priceTtlMs(store, discount), ttl, `${store} with ${discount}% off`);
+  }
+});
+
+Deno.test('evaluatePriceCache classifies the cached rows', () => {
+  const cases: [string, GamePriceRow[], CacheState][] = [
+    ['no rows', [], 'miss'],
+    ['all stores within TTL', [row('Steam', 59 * MINUTE_MS), row('GOG', 119 * MINUTE_MS)], 'fresh'],
+    ['one millisecond before the TTL', [row('Steam', HOUR_MS - 1)], 'fresh'],
+    ['exactly at the TTL', [row('Steam', HOUR_MS)], 'stale'],
+    ['one store past its TTL', [row('Steam', 10 * MINUTE_MS), row('GOG', 2 * HOUR_MS + 1)], 'stale'],
+    ['on sale within 15 minutes', [row('GOG', 14 * MINUTE_MS, { discount: 30 })], 'fresh'],
+    ['on sale exactly at 15 minutes', [row('GOG', 15 * MINUTE_MS, { discount: 30 })], 'stale'],
+    ['one millisecond before the max stale age', [row('Steam', MAX_STALE_MS - 1)], 'stale'],
+    ['exactly at the max stale age', [row('Steam', MAX_STALE_MS)], 'miss'],
+    ['only unavailable rows', [row('Steam', MINUTE_MS, { available: false })], 'miss'],
+    ['only rows without price', [row('Steam', MINUTE_MS, { numeric_price: null })], 'miss'],
+    ['only free rows', [row('Steam', MINUTE_MS, { numeric_price: '0' })], 'miss'],
+  ];
+  for (const [name, rows, state] of cases) {
+    strictEqual(evaluatePriceCache(rows, now).state, state, name);
+  }
+});
+
+Deno.test('evaluatePriceCache ignores rows too old to show and reports the oldest usable one', () => {
+  const cache = evaluatePriceCache([
+    row('Steam', 30 * MINUTE_MS),
+    row('GOG', 90 * MINUTE_MS),
+    row('Nuuvem', MAX_STALE_MS + 1),
+  ], now);
+
+  strictEqual(cache.state, 'fresh');
+  deepStrictEqual(cache.prices.map(price => price.store), ['Steam', 'GOG']);
+  strictEqual(cache.lastUpdated, new Date(now - 90 * MINUTE_MS).toISOString());
+  strictEqual(cache.prices[0].numericPrice, 59.99);
+});
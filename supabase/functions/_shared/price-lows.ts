@@ -0,0 +1,123 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { selectAllRows } from './pagination.ts';
+import { DEFAULT_REGION, type PriceRegion } from './regions.ts';
+
+export interface PriceLow {
+  current: number | null;
+  allTimeLow: number;
+  low90Days: number;
+  isAllTimeLow: boolean;
+  isLow90Days: boolean;
+  // Quanto o preço atual está acima do menor preço histórico (em %)
+  percentAboveLow: number | null;
+}
+
+export interface PriceLows {
+  game: PriceLow | null;
+  stores: { [store: string]: PriceLow };
+}
+
+// Uma linha de price_history_lows: menor e maior preço de uma loja no histórico todo e na janela de 90 dias
+interface HistoryStats {
+  store: string;
+  all_time_low: number | string;
+  all_time_high: number | string;
+  window_low: number | string;
+  window_high: number | string;
+}
+
+const WINDOW_90_DAYS_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Tolerância para comparar preços em reais sem cair em erro de ponto flutuante
+const PRICE_EPSILON = 0.005;
+
+// Só é menor preço se já houve um preço mais alto: um preço que nunca mudou não ganha selo
+const buildPriceLow = (
+  current: number | null,
+  allTimeLow: number,
+  low90Days: number,
+  dropped: { allTime: boolean; window90Days: boolean },
+): PriceLow => ({
+  current,
+  allTimeLow,
+  low90Days,
+  isAllTimeLow: dropped.allTime && current !== null && current <= allTimeLow + PRICE_EPSILON,
+  isLow90Days: dropped.window90Days && current !== null && current <= low90Days + PRICE_EPSILON,
+  percentAboveLow: current !== null && allTimeLow > 0
+    ? Math.round(((current - allTimeLow) / allTimeLow) * 100)
+    : null,
+});
+
+/**
+ * Calcula os menores preços a partir dos agregados do histórico (ver price_history_lows).
+ * currentPrices tem o preço atual de cada loja disponível; lojas fora dele (indisponíveis) são ignoradas.
+ */
+export const computePriceLows = (
+  history: HistoryStats[],
+  currentPrices: { [store: string]: number | null },
+): PriceLows => {
+  const stores: { [store: string]: PriceLow } = {};
+  for (const row of history) {
+    const current = currentPrices[row.store];
+    if (current === undefined || current === null) continue;
+
+    const allTimeLow = Math.min(current, Number(row.all_time_low));
+    const low90Days = Math.min(current, Number(row.window_low));
+
+    stores[row.store] = buildPriceLow(current, allTimeLow, low90Days, {
+      allTime: Number(row.all_time_high) > allTimeLow + PRICE_EPSILON,
+      window90Days: Number(row.window_high) > low90Days + PRICE_EPSILON,
+    });
+  }
+
+  const storeLows = Object.values(stores);
+  if (storeLows.length === 0) {
+    return { game: null, stores };
+  }
+
+  const current = Math.min(...storeLows.map((low) => low.current as number));
+
+  // O jogo só está no menor preço se a loja mais barata de agora chegou lá depois de uma queda
+  const cheapest = storeLows.filter((low) => (low.current as number) <= current + PRICE_EPSILON);
+  const game = buildPriceLow(
+    current,
+    Math.min(...storeLows.map((low) => low.allTimeLow)),
+    Math.min(...storeLows.map((low) => low.low90Days)),
+    {
+      allTime: cheapest.some((low) => low.isAllTimeLow),
+      window90Days: cheapest.some((low) => low.isLow90Days),
+    },
+  );
+
+  return { game, stores };
+};
+
+// Lê os agregados do histórico de um ou mais jogos em uma região e calcula os menores preços de cada um
+export const fetchPriceLows = async (
+  supabase: SupabaseClient,
+  appids: string[],
+  currentPrices: { [appid: string]: { [store: string]: number | null } } = {},
+  region: PriceRegion = DEFAULT_REGION,
+  now = Date.now(),
+): Promise<{ [appid: string]: PriceLows }> => {
+  const rows = await selectAllRows<HistoryStats & { appid: string }>((from, to) =>
+    supabase
+      .rpc('price_history_lows', {
+        p_appids: appids,
+        p_region: region.code,
+        p_since: new Date(now - WINDOW_90_DAYS_MS).toISOString(),
+      })
+      .order('appid')
+      .order('store')
+      .range(from, to)
+  );
+
+  const historyByAppid: { [appid: string]: HistoryStats[] } = {};
+  for (const row of rows) {
+    (historyByAppid[row.appid] ??= []).push(row);
+  }
+
+  return Object.fromEntries(
+    appids.map((appid) => [appid, computePriceLows(historyByAppid[appid] ?? [], currentPrices[appid] ?? {})])
+  );
+};
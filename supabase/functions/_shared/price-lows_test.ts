@@ -0,0 +1,64 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { computePriceLows } from './price-lows.ts';
+
+// Agregados de uma loja como price_history_lows devolve; sem janela informada, ela é igual ao histórico todo
+const stats = (store: string, low: string, high: string, windowLow = low, windowHigh = high) => ({
+  store,
+  all_time_low: low,
+  all_time_high: high,
+  window_low: windowLow,
+  window_high: windowHigh,
+});
+
+Deno.test('computePriceLows does not flag a price that never changed', () => {
+  const lows = computePriceLows([stats('Steam', '59.99', '59.99')], { Steam: 59.99 });
+  strictEqual(lows.stores.Steam.isAllTimeLow, false);
+  strictEqual(lows.stores.Steam.isLow90Days, false);
+  strictEqual(lows.game?.isAllTimeLow, false);
+});
+
+Deno.test('computePriceLows flags a drop below every earlier price', () => {
+  const lows = computePriceLows([stats('Steam', '29.99', '59.99')], { Steam: 29.99 });
+  strictEqual(lows.stores.Steam.isAllTimeLow, true);
+  strictEqual(lows.stores.Steam.isLow90Days, true);
+  strictEqual(lows.game?.isAllTimeLow, true);
+});
+
+Deno.test('computePriceLows flags the 90-day low only after a drop inside the window', () => {
+  const lows = computePriceLows([stats('Steam', '19.99', '39.99', '29.99', '39.99')], { Steam: 29.99 });
+  strictEqual(lows.stores.Steam.isAllTimeLow, false);
+  strictEqual(lows.stores.Steam.isLow90Days, true);
+  strictEqual(lows.stores.Steam.allTimeLow, 19.99);
+});
+
+Deno.test('computePriceLows counts the current price toward both lows', () => {
+  const lows = computePriceLows([stats('Steam', '29.99', '59.99')], { Steam: 24.99 });
+  strictEqual(lows.stores.Steam.allTimeLow, 24.99);
+  strictEqual(lows.stores.Steam.low90Days, 24.99);
+  strictEqual(lows.stores.Steam.isAllTimeLow, true);
+});
+
+Deno.test('computePriceLows ignores stores without an available current price', () => {
+  const lows = computePriceLows([
+    stats('Steam', '59.99', '59.99'),
+    stats('GOG', '19.99', '19.99'),
+  ], { Steam: 59.99 });
+  deepStrictEqual(Object.keys(lows.stores), ['Steam']);
+  strictEqual(lows.game?.current, 59.99);
+  strictEqual(lows.game?.allTimeLow, 59.99);
+});
+
+Deno.test('computePriceLows does not flag the game when the cheapest store never dropped', () => {
+  const lows = computePriceLows([
+    stats('Steam', '49.99', '49.99'),
+    stats('GOG', '59.99', '79.99'),
+  ], { Steam: 49.99, GOG: 59.99 });
+  strictEqual(lows.stores.GOG.isAllTimeLow, true);
+  strictEqual(lows.game?.current, 49.99);
+  strictEqual(lows.game?.isAllTimeLow, false);
+});
+
+Deno.test('computePriceLows returns no game low when no store is available', () => {
+  const lows = computePriceLows([stats('Steam', '59.99', '59.99')], {});
+  strictEqual(lows.game, null);
+});
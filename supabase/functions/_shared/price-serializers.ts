@@ -0,0 +1,75 @@
+import { moneyFromDecimal, type Money } from './money.ts';
+import type { ApiVersion, PriceLowV2, PriceLowsV2, StorePriceV1, StorePriceV2 } from './price-api.ts';
+import type { PriceLow, PriceLows } from './price-lows.ts';
+import type { PriceRegion } from './regions.ts';
+import type { StorePrice } from './stores/index.ts';
+
+// Texto usado pelos clientes v1 quando a loja não tem preço
+const LEGACY_NO_PRICE = 'N/A';
+
+const LEGACY_CURRENCY_SYMBOLS: { [currency: string]: string } = {
+  BRL: 'R$',
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+};
+
+// Número no formato pt-BR, sem símbolo: 1.234,56
+const LEGACY_NUMBER_FORMAT = new Intl.NumberFormat('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Clientes v1 recebem o texto como a Steam mandava antes ("R$ 59,99"); a formatação por idioma fica na v2
+const legacyPriceText = (value: number, currency: string) =>
+  `${LEGACY_CURRENCY_SYMBOLS[currency] ?? currency} ${LEGACY_NUMBER_FORMAT.format(value)}`;
+
+const toMoney = (value: number | null, currency: string): Money | null =>
+  value !== null ? moneyFromDecimal(value, currency) : null;
+
+// Formato antigo: os textos são montados aqui
+export const toStorePriceV1 = (price: StorePrice, region: PriceRegion): StorePriceV1 => ({
+  store: price.store,
+  price: price.numericPrice !== null ? legacyPriceText(price.numericPrice, region.currency) : LEGACY_NO_PRICE,
+  originalPrice: price.numericOriginalPrice !== null
+    ? legacyPriceText(price.numericOriginalPrice, region.currency)
+    : LEGACY_NO_PRICE,
+  discount: price.discount,
+  buyUrl: price.buyUrl,
+  available: price.available,
+  numericPrice: price.numericPrice,
+  numericOriginalPrice: price.numericOriginalPrice,
+  isKeyReseller: price.isKeyReseller ?? false,
+  redemptionPlatform: price.redemptionPlatform ?? null,
+});
+
+export const toStorePriceV2 = (price: StorePrice): StorePriceV2 => ({
+  store: price.store,
+  price: toMoney(price.numericPrice, price.currency),
+  originalPrice: toMoney(price.numericOriginalPrice, price.currency),
+  discount: price.discount,
+  buyUrl: price.buyUrl,
+  available: price.available,
+  isKeyReseller: price.isKeyReseller ?? false,
+  redemptionPlatform: price.redemptionPlatform ?? null,
+});
+
+export const serializeStorePrice = (price: StorePrice, region: PriceRegion, version: ApiVersion) =>
+  version === 2 ? toStorePriceV2(price) : toStorePriceV1(price, region);
+
+export const toPriceLowV2 = (low: PriceLow, currency: string): PriceLowV2 => ({
+  ...low,
+  current: toMoney(low.current, currency),
+  allTimeLow: moneyFromDecimal(low.allTimeLow, currency),
+  low90Days: moneyFromDecimal(low.low90Days, currency),
+});
+
+// v1 já devolvia os menores preços como números, então segue igual
+export const serializePriceLow = (low: PriceLow | null, currency: string, version: ApiVersion) =>
+  low && version === 2 ? toPriceLowV2(low, currency) : low;
+
+export const serializePriceLows = (lows: PriceLows | null, currency: string, version: ApiVersion) => {
+  if (!lows || version === 1) return lows;
+  const stores: PriceLowsV2['stores'] = {};
+  for (const [store, low] of Object.entries(lows.stores)) {
+    stores[store] = toPriceLowV2(low, currency);
+  }
+  return { game: lows.game ? toPriceLowV2(lows.game, currency) : null, stores };
+};
@@ -0,0 +1,39 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { toStorePriceV1, toStorePriceV2 } from './price-serializers.ts';
+import { REGIONS } from './regions.ts';
+import type { StorePrice } from './stores/index.ts';
+
+const price: StorePrice = {
+  store: 'Steam',
+  currency: 'BRL',
+  discount: 25,
+  buyUrl: 'https://store.steampowered.com/app/1',
+  available: true,
+  numericPrice: 59.99,
+  numericOriginalPrice: 79.99,
+};
+
+// Texto que a v1 devolvia antes (final_formatted da Steam)
+Deno.test('toStorePriceV1 keeps the legacy pt-BR price text', () => {
+  const v1 = toStorePriceV1(price, REGIONS.BR);
+  strictEqual(v1.price, 'R$ 59,99');
+  strictEqual(v1.originalPrice, 'R$ 79,99');
+});
+
+Deno.test('toStorePriceV1 groups thousands with a dot', () => {
+  const v1 = toStorePriceV1({ ...price, numericPrice: 1234.5, numericOriginalPrice: 1499 }, REGIONS.BR);
+  strictEqual(v1.price, 'R$ 1.234,50');
+  strictEqual(v1.originalPrice, 'R$ 1.499,00');
+});
+
+Deno.test('toStorePriceV1 marks stores without a price as N/A', () => {
+  const v1 = toStorePriceV1({ ...price, available: false, numericPrice: null, numericOriginalPrice: null }, REGIONS.BR);
+  strictEqual(v1.price, 'N/A');
+  strictEqual(v1.originalPrice, 'N/A');
+});
+
+Deno.test('toStorePriceV2 returns Money in minor units', () => {
+  const v2 = toStorePriceV2(price);
+  deepStrictEqual(v2.price, { amount: 5999, currency: 'BRL' });
+  deepStrictEqual(v2.originalPrice, { amount: 7999, currency: 'BRL' });
+});
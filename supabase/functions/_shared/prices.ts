@@ -0,0 +1,294 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { runAdapters, storeAdapters, type AdapterOutcome, type RunAdaptersOptions, type StorePrice } from './stores/index.ts';
+import { fetchPriceLows, type PriceLows } from './price-lows.ts';
+import { evaluatePriceCache, type GamePriceRow } from './price-cache.ts';
+import { evaluatePriceAlerts } from './alerts.ts';
+import { DEFAULT_REGION, regionForCurrency, type PriceRegion } from './regions.ts';
+import { isCircuitOpen, loadStoreHealth, recordStoreOutcome, type StoreHealthMap } from './store-health.ts';
+import { fetchAppDetails } from './steam.ts';
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+export interface FetchPricesOptions extends RunAdaptersOptions {
+  region?: PriceRegion;
+  // Chamado para cada loja deixada de fora porque o circuito dela está aberto
+  onCircuitOpen?: (store: string) => void;
+  // Saúde das lojas já lida nesta requisição; sem ela, é lida de store_health
+  health?: StoreHealthMap;
+}
+
+export interface GamePrices {
+  prices: StorePrice[];
+  lastUpdated: string | null;
+  stale: boolean;
+}
+
+// Busca o nome do jogo na Steam para procurar nas outras lojas.
+// Usa o mesmo país e idioma do adapter da Steam, que depois aproveita a resposta.
+const fetchSteamGameName = async (supabase: SupabaseClient, appid: string, region: PriceRegion): Promise<string> => {
+  try {
+    const details = await fetchAppDetails(supabase, appid, { countryCode: region.countryCode });
+    if (details?.name) {
+      console.log(`Game name from Steam: ${details.name}`);
+      return details.name;
+    }
+  } catch (error) {
+    console.error('Error fetching game name from Steam:', error);
+  }
+  return '';
+};
+
+/**
+ * Busca os preços em todas as lojas e salva os disponíveis em game_prices, na região pedida.
+ * gameName é opcional: quando o chamador já sabe o nome evita uma chamada à Steam.
+ * options permite escolher a região, limitar as lojas consultadas e acompanhar o resultado de cada uma.
+ * Lojas com o circuito aberto (ver store-health.ts) não são consultadas e mantêm o último preço salvo.
+ */
+export const fetchFreshPrices = async (
+  supabase: SupabaseClient,
+  appid: string,
+  gameName?: string,
+  options: FetchPricesOptions = {},
+): Promise<StorePrice[]> => {
+  const region = options.region ?? DEFAULT_REGION;
+  console.log(`Fetching fresh prices for appid ${appid} in ${region.code} (cache miss or insufficient data)`);
+
+  const health = options.health ?? await loadStoreHealth(supabase);
+  const adapters = (options.adapters ?? storeAdapters).filter(adapter => {
+    if (!isCircuitOpen(health[adapter.store])) return true;
+    console.log(`Skipping ${adapter.store}: circuit open until ${health[adapter.store].circuit_open_until}`);
+    options.onCircuitOpen?.(adapter.store);
+    return false;
+  });
+
+  // Lojas que responderam sem erro, mesmo que sem preço para o jogo
+  const respondedStores: string[] = [];
+  const outcomes: AdapterOutcome[] = [];
+  const prices = await runAdapters({
+    appid,
+    gameName: gameName || await fetchSteamGameName(supabase, appid, region),
+    region,
+    supabase,
+  }, {
+    adapters,
+    onOutcome: (outcome) => {
+      if (outcome.ok) respondedStores.push(outcome.store);
+      // Resultados só de cache não dizem nada sobre a saúde da loja
+      if (outcome.upstream) outcomes.push(outcome);
+      options.onOutcome?.(outcome);
+    },
+  });
+
+  await Promise.all(outcomes.map(outcome => recordStoreOutcome(supabase, outcome)));
+
+  console.log(`Total prices found: ${prices.length}`);
+
+  // Save only available prices to database (don't cache unavailable prices)
+  for (const price of prices) {
+    if (price.available && price.numericPrice && price.numericPrice > 0) {
+      await supabase
+        .from('game_prices')
+        .upsert({
+          appid,
+          store: price.store,
+          region: region.code,
+          currency: price.currency,
+          discount: price.discount,
+          buy_url: price.buyUrl,
+          available: price.available,
+          numeric_price: price.numericPrice,
+          numeric_original_price: price.numericOriginalPrice,
+          is_key_reseller: price.isKeyReseller ?? false,
+          redemption_platform: price.redemptionPlatform ?? null,
+        }, {
+          onConflict: 'appid,store,region'
+        });
+      console.log(`Saved price for ${price.store}: ${price.numericPrice} ${price.currency}`);
+    }
+  }
+
+  console.log(`Available prices saved to database for appid ${appid}`);
+
+  // Lojas que deixaram de ter preço não podem continuar aparecendo pelo cache.
+  // Lojas que falharam ficam de fora: o último preço conhecido continua valendo.
+  const availableStores = prices
+    .filter(price => price.available && price.numericPrice && price.numericPrice > 0)
+    .map(price => `"${price.store}"`);
+  if (respondedStores.length > 0) {
+    let unavailableQuery = supabase
+      .from('game_prices')
+      .update({ available: false })
+      .eq('appid', appid)
+      .eq('region', region.code)
+      .eq('available', true)
+      .in('store', respondedStores);
+    if (availableStores.length > 0) {
+      unavailableQuery = unavailableQuery.not('store', 'in', `(${availableStores.join(',')})`);
+    }
+    const { error: unavailableError } = await unavailableQuery;
+    if (unavailableError) {
+      console.error(`Error marking unavailable prices for appid ${appid}:`, unavailableError);
+    }
+  }
+
+  // Com os preços novos salvos, confere os alertas definidos na moeda desta região
+  if (regionForCurrency(region.currency).code === region.code) {
+    try {
+      await evaluatePriceAlerts(supabase, appid, prices, region, respondedStores);
+    } catch (error) {
+      console.error(`Error evaluating price alerts for appid ${appid}:`, error);
+    }
+  }
+
+  return prices;
+};
+
+// Atualizações em andamento nesta instância, para não buscar o mesmo jogo duas vezes
+const refreshesInFlight = new Map<string, Promise<StorePrice[]>>();
+
+export const refreshPrices = (
+  supabase: SupabaseClient,
+  appid: string,
+  gameName?: string,
+  region: PriceRegion = DEFAULT_REGION,
+  health?: StoreHealthMap,
+): Promise<StorePrice[]> => {
+  const key = `${appid}:${region.code}`;
+  const inFlight = refreshesInFlight.get(key);
+  if (inFlight) return inFlight;
+
+  const refresh = fetchFreshPrices(supabase, appid, gameName, { region, health })
+    .finally(() => refreshesInFlight.delete(key));
+  refreshesInFlight.set(key, refresh);
+  return refresh;
+};
+
+// Atualizações em segundo plano ao mesmo tempo nesta instância; as demais esperam na fila
+const BACKGROUND_REFRESH_CONCURRENCY = 4;
+// Com a fila cheia a atualização é descartada; a próxima requisição com cache expirado tenta de novo
+const MAX_BACKGROUND_QUEUE = 100;
+
+const backgroundQueue: { key: string; run: () => Promise<void> }[] = [];
+let backgroundRunning = 0;
+
+const runBackgroundQueue = () => {
+  while (backgroundRunning < BACKGROUND_REFRESH_CONCURRENCY && backgroundQueue.length > 0) {
+    const task = backgroundQueue.shift()!;
+    backgroundRunning++;
+    task.run().finally(() => {
+      backgroundRunning--;
+      runBackgroundQueue();
+    });
+  }
+};
+
+// Enfileira a atualização e mantém a função viva até ela terminar
+export const refreshInBackground = (
+  supabase: SupabaseClient,
+  appid: string,
+  gameName?: string,
+  region: PriceRegion = DEFAULT_REGION,
+  health?: StoreHealthMap,
+) => {
+  const key = `${appid}:${region.code}`;
+  if (refreshesInFlight.has(key) || backgroundQueue.some(task => task.key === key)) return;
+  if (backgroundQueue.length >= MAX_BACKGROUND_QUEUE) {
+    console.log(`Background refresh queue full, skipping appid ${appid} in ${region.code}`);
+    return;
+  }
+
+  const refresh = new Promise<void>(resolve => {
+    backgroundQueue.push({
+      key,
+      run: () => refreshPrices(supabase, appid, gameName, region, health)
+        .then(() => undefined, error => {
+          console.error(`Background refresh failed for appid ${appid} in ${region.code}:`, error);
+        })
+        .finally(resolve),
+    });
+  });
+  runBackgroundQueue();
+
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(refresh);
+  }
+};
+
+/**
+ * Aplica a política de cache (stale-while-revalidate) sobre as linhas de game_prices de um jogo em uma região:
+ * cache válido responde direto, cache expirado responde e atualiza em segundo plano,
+ * e sem cache busca nas lojas antes de responder.
+ * health evita ler store_health de novo para cada jogo quando a requisição já leu.
+ */
+export const resolveGamePrices = async (
+  supabase: SupabaseClient,
+  appid: string,
+  rows: GamePriceRow[],
+  gameName?: string,
+  region: PriceRegion = DEFAULT_REGION,
+  health?: StoreHealthMap,
+): Promise<GamePrices> => {
+  const cache = evaluatePriceCache(rows);
+
+  if (cache.state === 'fresh') {
+    console.log(`Using cached prices for appid ${appid} in ${region.code}`);
+    return { prices: cache.prices, lastUpdated: cache.lastUpdated, stale: false };
+  }
+
+  if (cache.state === 'stale') {
+    console.log(`Serving stale prices for appid ${appid} in ${region.code} while refreshing`);
+    refreshInBackground(supabase, appid, gameName, region, health);
+    return { prices: cache.prices, lastUpdated: cache.lastUpdated, stale: true };
+  }
+
+  const prices = await refreshPrices(supabase, appid, gameName, region, health);
+  return { prices, lastUpdated: new Date().toISOString(), stale: false };
+};
+
+export const getGamePrices = async (
+  supabase: SupabaseClient,
+  appid: string,
+  gameName?: string,
+  region: PriceRegion = DEFAULT_REGION,
+  health?: StoreHealthMap,
+): Promise<GamePrices> => {
+  const { data: rows, error } = await supabase
+    .from('game_prices')
+    .select('*')
+    .eq('appid', appid)
+    .eq('region', region.code);
+
+  if (error) {
+    console.error(`Error reading cached prices for appid ${appid}:`, error);
+  }
+
+  return resolveGamePrices(supabase, appid, rows ?? [], gameName, region, health);
+};
+
+// Menor preço disponível entre as lojas
+export const cheapestPrice = (prices: StorePrice[]): StorePrice | null => {
+  const available = prices.filter(p => p.available && p.numericPrice !== null && p.numericPrice > 0);
+  if (available.length === 0) return null;
+  return available.reduce((min, current) => current.numericPrice! < min.numericPrice! ? current : min);
+};
+
+// Menores preços históricos dos jogos, calculados a partir de price_history
+export const loadPriceLows = async (
+  supabase: SupabaseClient,
+  pricesByAppid: { [appid: string]: StorePrice[] },
+  region: PriceRegion = DEFAULT_REGION,
+): Promise<{ [appid: string]: PriceLows }> => {
+  const appids = Object.keys(pricesByAppid);
+  try {
+    const currentPrices = Object.fromEntries(
+      appids.map(appid => [
+        appid,
+        Object.fromEntries(pricesByAppid[appid].filter(p => p.available).map(p => [p.store, p.numericPrice])),
+      ])
+    );
+    return await fetchPriceLows(supabase, appids, currentPrices, region);
+  } catch (error) {
+    console.error(`Error computing price lows for ${appids.join(', ')}:`, error);
+    return {};
+  }
+};
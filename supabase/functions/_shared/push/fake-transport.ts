@@ -0,0 +1,18 @@
+// Fica fora de transport.ts para os testes não carregarem o web-push
+import type { PushMessage, PushResult, PushSubscriptionKeys, PushTransport } from './transport.ts';
+
+// Guarda as mensagens em memória em vez de enviá-las
+export class FakePushTransport implements PushTransport {
+  readonly sent: { subscription: PushSubscriptionKeys; message: PushMessage }[] = [];
+
+  constructor(private readonly expiredEndpoints: Set<string> = new Set()) {}
+
+  send(subscription: PushSubscriptionKeys, message: PushMessage): Promise<PushResult> {
+    if (this.expiredEndpoints.has(subscription.endpoint)) {
+      return Promise.resolve({ ok: false, expired: true, error: 'Subscription expired' });
+    }
+    this.sent.push({ subscription, message });
+    console.log(`[fake push] ${subscription.endpoint}: ${message.title}`);
+    return Promise.resolve({ ok: true });
+  }
+}
@@ -0,0 +1,64 @@
+import { DEFAULT_LANGUAGE } from '../languages.ts';
+import { interpolate } from '../i18n.ts';
+import { formatMoney } from '../money.ts';
+import type { NotificationData } from '../notifications.ts';
+
+export interface NotificationMessages {
+  priceDropTitle: string;
+  priceDropBody: string;
+  priceDropBodyDiscount: string;
+  newDealTitle: string;
+  newDealBody: string;
+}
+
+// Fonte única dos textos de notificação: o app os importa em notifications.* (src/i18n/messages)
+export const NOTIFICATION_MESSAGES: { [language: string]: NotificationMessages } = {
+  'pt-BR': {
+    priceDropTitle: '{game} atingiu seu preço alvo',
+    priceDropBody: '{price} na {store}',
+    priceDropBodyDiscount: '{price} na {store} (-{discount}%)',
+    newDealTitle: '{game} entrou em promoção',
+    newDealBody: '-{discount}% na {store}: {price}',
+  },
+  'en-US': {
+    priceDropTitle: '{game} reached your target price',
+    priceDropBody: '{price} on {store}',
+    priceDropBodyDiscount: '{price} on {store} (-{discount}%)',
+    newDealTitle: '{game} is on sale',
+    newDealBody: '-{discount}% on {store}: {price}',
+  },
+  'es-ES': {
+    priceDropTitle: '{game} alcanzó tu precio objetivo',
+    priceDropBody: '{price} en {store}',
+    priceDropBodyDiscount: '{price} en {store} (-{discount}%)',
+    newDealTitle: '{game} está en oferta',
+    newDealBody: '-{discount}% en {store}: {price}',
+  },
+};
+
+/**
+ * Título e texto da notificação no idioma do usuário.
+ * Notificações antigas já têm o texto pronto em title/body e são usadas como estão.
+ */
+export const renderNotification = (
+  notification: { type: string; title: string | null; body: string | null; data: NotificationData | null },
+  language?: string | null,
+): { title: string; body: string } => {
+  const data = notification.data ?? {};
+  if (!data.game || !data.store || !data.price) {
+    return { title: notification.title ?? '', body: notification.body ?? '' };
+  }
+
+  const locale = language && NOTIFICATION_MESSAGES[language] ? language : DEFAULT_LANGUAGE;
+  const messages = NOTIFICATION_MESSAGES[locale];
+  const discount = data.discount ?? 0;
+  const params = { game: data.game, store: data.store, price: formatMoney(data.price, locale), discount };
+
+  if (notification.type === 'new_deal') {
+    return { title: interpolate(messages.newDealTitle, params), body: interpolate(messages.newDealBody, params) };
+  }
+  return {
+    title: interpolate(messages.priceDropTitle, params),
+    body: interpolate(discount > 0 ? messages.priceDropBodyDiscount : messages.priceDropBody, params),
+  };
+};
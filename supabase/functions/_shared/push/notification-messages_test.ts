@@ -0,0 +1,25 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { renderNotification } from './notification-messages.ts';
+
+const data = { game: 'Hades', store: 'Steam', price: { amount: 3699, currency: 'BRL' }, discount: 50 };
+
+Deno.test('renderNotification writes a price alert in the user language', () => {
+  deepStrictEqual(renderNotification({ type: 'price_drop', title: null, body: null, data }, 'en-US'), {
+    title: 'Hades reached your target price',
+    body: 'R$36.99 on Steam (-50%)',
+  });
+});
+
+Deno.test('renderNotification falls back to Portuguese for an unknown language', () => {
+  deepStrictEqual(renderNotification({ type: 'new_deal', title: null, body: null, data }, 'fr-FR'), {
+    title: 'Hades entrou em promoção',
+    body: '-50% na Steam: R$ 36,99',
+  });
+});
+
+Deno.test('renderNotification keeps the stored text of older notifications', () => {
+  deepStrictEqual(
+    renderNotification({ type: 'price_drop', title: 'Hades atingiu seu preço alvo', body: 'R$ 36,99 na Steam', data: {} }, 'en-US'),
+    { title: 'Hades atingiu seu preço alvo', body: 'R$ 36,99 na Steam' },
+  );
+});
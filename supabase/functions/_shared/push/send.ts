@@ -0,0 +1,83 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { PushMessage, PushTransport } from './transport.ts';
+import { renderNotification } from './notification-messages.ts';
+
+export interface PushSummary {
+  delivered: number;
+  expired: number;
+  failed: number;
+}
+
+/**
+ * Envia a notificação para todos os dispositivos inscritos do usuário, no idioma dele.
+ * Inscrições descartadas pelo navegador (404/410) são apagadas. Retorna null se a notificação não existe.
+ */
+export const sendNotificationPush = async (
+  supabase: SupabaseClient,
+  notificationId: string,
+  transport: PushTransport,
+): Promise<PushSummary | null> => {
+  const { data: notification, error: notificationError } = await supabase
+    .from('notifications')
+    .select('id, user_id, type, title, body, appid, data')
+    .eq('id', notificationId)
+    .maybeSingle();
+
+  if (notificationError) throw notificationError;
+  if (!notification) return null;
+
+  const { data: subscriptions, error: subscriptionsError } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', notification.user_id);
+
+  if (subscriptionsError) throw subscriptionsError;
+
+  // O texto é montado aqui, no idioma escolhido pelo usuário
+  const { data: preferences } = await supabase
+    .from('user_preferences')
+    .select('language')
+    .eq('user_id', notification.user_id)
+    .maybeSingle();
+
+  const message: PushMessage = {
+    ...renderNotification(notification, preferences?.language),
+    url: notification.appid ? `/game/${notification.appid}` : '/notifications',
+    tag: notification.appid ? `${notification.type}-${notification.appid}` : notification.id,
+  };
+
+  const results = await Promise.all(
+    (subscriptions ?? []).map(async (subscription) => ({
+      subscription,
+      result: await transport.send(subscription, message),
+    }))
+  );
+
+  const delivered = results.filter(({ result }) => result.ok).map(({ subscription }) => subscription.id);
+  const expired = results
+    .filter(({ result }) => !result.ok && result.expired)
+    .map(({ subscription }) => subscription.id);
+
+  for (const { subscription, result } of results) {
+    if (!result.ok && !result.expired) {
+      console.error(`Error sending push to ${subscription.endpoint}:`, result.error);
+    }
+  }
+
+  if (delivered.length > 0) {
+    await supabase
+      .from('push_subscriptions')
+      .update({ last_used_at: new Date().toISOString() })
+      .in('id', delivered);
+  }
+
+  // Inscrições descartadas pelo navegador não voltam a funcionar
+  if (expired.length > 0) {
+    await supabase
+      .from('push_subscriptions')
+      .delete()
+      .in('id', expired);
+  }
+
+  return { delivered: delivered.length, expired: expired.length, failed: results.length - delivered.length - expired.length };
+};
@@ -0,0 +1,85 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { sendNotificationPush } from './send.ts';
+import { FakePushTransport } from './fake-transport.ts';
+
+type Row = { [column: string]: unknown };
+
+// notifications, push_subscriptions e user_preferences em memória, só com o que sendNotificationPush usa
+const fakeSupabase = (tables: { [table: string]: Row[] }) => ({
+  from: (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let action: 'select' | 'update' | 'delete' = 'select';
+    let patch: Row = {};
+    const matching = () => tables[table].filter(row => filters.every(filter => filter(row)));
+    const query = {
+      select: () => query,
+      eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), query),
+      in: (column: string, values: unknown[]) => (filters.push(row => values.includes(row[column])), query),
+      update: (values: Row) => ((action = 'update'), (patch = values), query),
+      delete: () => ((action = 'delete'), query),
+      maybeSingle: () => Promise.resolve({ data: matching()[0] ?? null, error: null }),
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => {
+        const rows = matching();
+        if (action === 'update') rows.forEach(row => Object.assign(row, patch));
+        if (action === 'delete') tables[table] = tables[table].filter(row => !rows.includes(row));
+        resolve({ data: rows, error: null });
+      },
+    };
+    return query;
+  },
+}) as unknown as SupabaseClient;
+
+const subscription = (id: string): Row => ({
+  id,
+  user_id: 'user-1',
+  endpoint: `https://push.example/${id}`,
+  p256dh: 'key',
+  auth: 'secret',
+});
+
+const tables = () => ({
+  notifications: [{
+    id: 'notification-1',
+    user_id: 'user-1',
+    type: 'price_drop',
+    title: null,
+    body: null,
+    appid: '1145360',
+    data: { game: 'Hades', store: 'Steam', price: { amount: 3699, currency: 'BRL' }, discount: 50 },
+  }],
+  push_subscriptions: [subscription('phone'), subscription('laptop'), subscription('old-tablet')],
+  user_preferences: [{ user_id: 'user-1', language: 'en-US' }],
+});
+
+Deno.test('sendNotificationPush sends the deep link and tag to every device', async () => {
+  const transport = new FakePushTransport();
+
+  const summary = await sendNotificationPush(fakeSupabase(tables()), 'notification-1', transport);
+
+  deepStrictEqual(summary, { delivered: 3, expired: 0, failed: 0 });
+  deepStrictEqual(transport.sent.map(({ subscription }) => subscription.id), ['phone', 'laptop', 'old-tablet']);
+  for (const { message } of transport.sent) {
+    strictEqual(message.title, 'Hades reached your target price');
+    strictEqual(message.url, '/game/1145360');
+    strictEqual(message.tag, 'price_drop-1145360');
+  }
+});
+
+Deno.test('sendNotificationPush deletes subscriptions the browser expired', async () => {
+  const data = tables();
+  const transport = new FakePushTransport(new Set(['https://push.example/old-tablet']));
+
+  const summary = await sendNotificationPush(fakeSupabase(data), 'notification-1', transport);
+
+  deepStrictEqual(summary, { delivered: 2, expired: 1, failed: 0 });
+  deepStrictEqual(data.push_subscriptions.map(row => row.id), ['phone', 'laptop']);
+  strictEqual(typeof data.push_subscriptions[0].last_used_at, 'string');
+});
+
+Deno.test('sendNotificationPush returns null for an unknown notification', async () => {
+  const transport = new FakePushTransport();
+
+  strictEqual(await sendNotificationPush(fakeSupabase(tables()), 'missing', transport), null);
+  strictEqual(transport.sent.length, 0);
+});
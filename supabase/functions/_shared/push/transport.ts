@@ -0,0 +1,77 @@
+import webpush from 'npm:web-push@3.6.7';
+import { FakePushTransport } from './fake-transport.ts';
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface PushMessage {
+  title: string;
+  body: string;
+  // Caminho aberto ao clicar na notificação, ex.: /game/1091500
+  url: string;
+  tag?: string;
+}
+
+// expired: o navegador descartou a inscrição (404/410) e ela deve ser apagada
+export type PushResult = { ok: true } | { ok: false; expired: boolean; error: string };
+
+// Qualquer meio de entrega de push (Web Push com VAPID, fake em testes)
+export interface PushTransport {
+  send(subscription: PushSubscriptionKeys, message: PushMessage): Promise<PushResult>;
+}
+
+export interface VapidConfig {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+export class WebPushTransport implements PushTransport {
+  constructor(private readonly config: VapidConfig) {}
+
+  async send(subscription: PushSubscriptionKeys, message: PushMessage): Promise<PushResult> {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(message),
+        {
+          vapidDetails: this.config,
+          TTL: 24 * 60 * 60,
+        },
+      );
+      return { ok: true };
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      return {
+        ok: false,
+        expired: statusCode === 404 || statusCode === 410,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+/**
+ * Monta o transporte a partir das variáveis de ambiente.
+ * Em desenvolvimento PUSH_TRANSPORT=fake só registra as mensagens no log.
+ */
+export const createPushTransport = (): PushTransport => {
+  if (Deno.env.get('PUSH_TRANSPORT') === 'fake') {
+    return new FakePushTransport();
+  }
+
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) {
+    throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be configured');
+  }
+
+  return new WebPushTransport({
+    subject: Deno.env.get('VAPID_SUBJECT') ?? 'mailto:no-reply@gamedealbuddy.app',
+    publicKey,
+    privateKey,
+  });
+};
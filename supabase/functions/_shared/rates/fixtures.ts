@@ -0,0 +1,14 @@
+import type { ExchangeRateTable } from '../money.ts';
+
+// Valores redondos, próximos dos reais, para que as conversões sejam fáceis de conferir
+export const FIXTURE_RATES: ExchangeRateTable = {
+  base: 'USD',
+  rates: {
+    BRL: 5,
+    EUR: 0.9,
+    GBP: 0.8,
+    TRY: 32,
+    ARS: 900,
+  },
+  asOf: '2026-01-01',
+};
@@ -0,0 +1,59 @@
+import type { ExchangeRateTable } from '../money.ts';
+import { FIXTURE_RATES } from './fixtures.ts';
+
+// Qualquer fonte de cotações (BCE via Frankfurter, fixture em testes)
+export interface ExchangeRateProvider {
+  name: string;
+  fetchRates(base: string, currencies: string[]): Promise<ExchangeRateTable>;
+}
+
+// Cotações de referência do Banco Central Europeu, sem chave de API
+export class FrankfurterRateProvider implements ExchangeRateProvider {
+  readonly name = 'frankfurter';
+
+  constructor(private readonly baseUrl = 'https://api.frankfurter.app') {}
+
+  async fetchRates(base: string, currencies: string[]): Promise<ExchangeRateTable> {
+    const to = currencies.filter(currency => currency !== base).join(',');
+    const response = await fetch(`${this.baseUrl}/latest?from=${base}&to=${to}`);
+    if (!response.ok) {
+      throw new Error(`Frankfurter request failed with status ${response.status}`);
+    }
+    const data = await response.json();
+    return { base, rates: data.rates ?? {}, asOf: data.date ?? null };
+  }
+}
+
+// Cotações fixas, para rodar localmente e em testes sem rede
+export class FixtureRateProvider implements ExchangeRateProvider {
+  readonly name = 'fixture';
+
+  constructor(private readonly table: ExchangeRateTable = FIXTURE_RATES) {}
+
+  fetchRates(base: string, currencies: string[]): Promise<ExchangeRateTable> {
+    const baseRate = base === this.table.base ? 1 : this.table.rates[base];
+    if (!baseRate) {
+      return Promise.reject(new Error(`Fixture has no rate for ${base}`));
+    }
+
+    // Recalcula as cotações cruzadas quando a base pedida não é a da fixture
+    const rates: { [currency: string]: number } = {};
+    for (const currency of currencies) {
+      if (currency === base) continue;
+      const rate = currency === this.table.base ? 1 : this.table.rates[currency];
+      if (rate) rates[currency] = rate / baseRate;
+    }
+    return Promise.resolve({ base, rates, asOf: this.table.asOf });
+  }
+}
+
+/**
+ * Monta o provedor a partir das variáveis de ambiente.
+ * Em desenvolvimento EXCHANGE_RATE_PROVIDER=fixture usa as cotações fixas.
+ */
+export const createRateProvider = (): ExchangeRateProvider => {
+  if (Deno.env.get('EXCHANGE_RATE_PROVIDER') === 'fixture') {
+    return new FixtureRateProvider();
+  }
+  return new FrankfurterRateProvider(Deno.env.get('FRANKFURTER_URL') ?? undefined);
+};
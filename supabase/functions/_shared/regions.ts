@@ -0,0 +1,46 @@
+// Região de precificação: país consultado nas lojas e moeda em que os preços voltam
+export interface PriceRegion {
+  // Identificador guardado em game_prices.region
+  code: string;
+  // País enviado às lojas (cc da Steam, countryCode da GOG, country da Epic)
+  countryCode: string;
+  currency: string;
+  locale: string;
+}
+
+// Argentina e Turquia são cobradas em dólar pelas lojas desde 2023
+export const REGIONS: { [code: string]: PriceRegion } = {
+  BR: { code: 'BR', countryCode: 'BR', currency: 'BRL', locale: 'pt-BR' },
+  US: { code: 'US', countryCode: 'US', currency: 'USD', locale: 'en-US' },
+  AR: { code: 'AR', countryCode: 'AR', currency: 'USD', locale: 'es-AR' },
+  TR: { code: 'TR', countryCode: 'TR', currency: 'USD', locale: 'tr-TR' },
+  EU: { code: 'EU', countryCode: 'DE', currency: 'EUR', locale: 'de-DE' },
+  UK: { code: 'UK', countryCode: 'GB', currency: 'GBP', locale: 'en-GB' },
+};
+
+export const DEFAULT_REGION = REGIONS.BR;
+
+// Região usada quando o cliente só informa a moeda
+const REGION_BY_CURRENCY: { [currency: string]: PriceRegion } = {
+  BRL: REGIONS.BR,
+  USD: REGIONS.US,
+  EUR: REGIONS.EU,
+  GBP: REGIONS.UK,
+};
+
+// Aceita o código da região ("UK") ou o país ("gb"); desconhecido cai na região padrão
+export const regionForCode = (cc?: string | null): PriceRegion => {
+  if (!cc) return DEFAULT_REGION;
+  const code = cc.toUpperCase();
+  return REGIONS[code] ?? Object.values(REGIONS).find(region => region.countryCode === code) ?? DEFAULT_REGION;
+};
+
+export const regionForCurrency = (currency?: string | null): PriceRegion =>
+  (currency && REGION_BY_CURRENCY[currency.toUpperCase()]) || DEFAULT_REGION;
+
+// Parâmetros aceitos pelas funções: cc tem prioridade; currency é o formato antigo
+export const resolveRegion = ({ cc, currency }: { cc?: string | null; currency?: string | null }): PriceRegion =>
+  cc ? regionForCode(cc) : regionForCurrency(currency);
+
+export const formatRegionPrice = (value: number, region: PriceRegion) =>
+  new Intl.NumberFormat(region.locale, { style: 'currency', currency: region.currency }).format(value);
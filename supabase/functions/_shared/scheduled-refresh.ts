@@ -0,0 +1,44 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { fetchFreshPrices, type FetchPricesOptions } from './prices.ts';
+import { DEFAULT_REGION, regionForCurrency, type PriceRegion } from './regions.ts';
+import { selectAllRows } from './pagination.ts';
+
+// Regiões em que cada jogo tem alerta configurado, pela moeda do alvo (USD → US, EUR → EU, GBP → UK)
+export const loadAlertRegions = async (supabase: SupabaseClient): Promise<{ [appid: string]: PriceRegion[] }> => {
+  const favorites = await selectAllRows<{ appid: string; target_currency: string }>((from, to) =>
+    supabase
+      .from('favorites')
+      .select('appid, target_currency')
+      .or('target_price.not.is.null,min_discount.not.is.null')
+      .order('id')
+      .range(from, to)
+  );
+
+  const regions: { [appid: string]: PriceRegion[] } = {};
+  for (const favorite of favorites) {
+    const region = regionForCurrency(favorite.target_currency);
+    const appRegions = regions[favorite.appid] ??= [];
+    if (!appRegions.includes(region)) appRegions.push(region);
+  }
+  return regions;
+};
+
+// O agendador atualiza todo jogo na região padrão e, além dela, nas regiões dos alertas dele
+export const scheduledRegions = (alertRegions: PriceRegion[] = []): PriceRegion[] =>
+  [DEFAULT_REGION, ...alertRegions.filter(region => region.code !== DEFAULT_REGION.code)];
+
+/**
+ * Busca os preços do jogo em cada região pedida, uma de cada vez.
+ * fetchFreshPrices confere os alertas de cada região com os preços novos.
+ */
+export const refreshScheduledPrices = async (
+  supabase: SupabaseClient,
+  appid: string,
+  title: string | undefined,
+  regions: PriceRegion[],
+  options: FetchPricesOptions = {},
+): Promise<void> => {
+  for (const region of regions) {
+    await fetchFreshPrices(supabase, appid, title, { ...options, region });
+  }
+};
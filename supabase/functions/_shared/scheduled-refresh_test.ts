@@ -0,0 +1,92 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { loadAlertRegions, refreshScheduledPrices, scheduledRegions } from './scheduled-refresh.ts';
+import type { StoreAdapter } from './stores/index.ts';
+
+type Row = { [column: string]: unknown };
+
+// Tabelas em memória, só com o que a atualização agendada usa
+const fakeSupabase = (tables: { [table: string]: Row[] }) => ({
+  rpc: () => Promise.resolve({ data: null, error: null }),
+  from: (table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let patch: Row | null = null;
+    let inserted: Row[] = [];
+    const query = {
+      select: () => query,
+      order: () => query,
+      range: () => query,
+      or: () => query,
+      not: () => query,
+      eq: (column: string, value: unknown) => (filters.push(row => row[column] === value), query),
+      in: (column: string, values: unknown[]) => (filters.push(row => values.includes(row[column])), query),
+      is: (column: string, value: unknown) => (filters.push(row => (row[column] ?? null) === value), query),
+      update: (values: Row) => ((patch = values), query),
+      upsert: (row: Row) => (tables[table].push(row), query),
+      insert: (rows: Row[]) => {
+        inserted = rows.map(row => ({ ...row, id: crypto.randomUUID() }));
+        tables[table].push(...inserted);
+        return query;
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => {
+        if (inserted.length > 0) return resolve({ data: inserted, error: null });
+        const rows = tables[table].filter(row => filters.every(filter => filter(row)));
+        if (patch) rows.forEach(row => Object.assign(row, patch));
+        resolve({ data: rows, error: null });
+      },
+    };
+    return query;
+  },
+}) as unknown as SupabaseClient;
+
+// Steam que cobra 30 reais no Brasil e 15 dólares nos EUA
+const steamAdapter: StoreAdapter = {
+  store: 'Steam',
+  resolve: () => Promise.resolve('1'),
+  fetchPrice: (_ref, ctx) => Promise.resolve(ctx.region.currency === 'USD' ? 15 : 30),
+  normalize: (raw, _ref, ctx) => ({
+    store: 'Steam',
+    currency: ctx.region.currency,
+    discount: 0,
+    buyUrl: 'https://store.steampowered.com/app/1',
+    available: true,
+    numericPrice: raw as number,
+    numericOriginalPrice: raw as number,
+  }),
+};
+
+const usdFavorite = (): Row => ({
+  id: 'fav-1',
+  user_id: 'user-1',
+  appid: '1',
+  title: 'Hades',
+  target_price: 20,
+  target_currency: 'USD',
+  min_discount: null,
+  allowed_stores: ['Steam'],
+  alerted_at: null,
+});
+
+Deno.test('loadAlertRegions maps each alert currency to its region', async () => {
+  const supabase = fakeSupabase({
+    favorites: [usdFavorite(), { ...usdFavorite(), id: 'fav-2', target_currency: 'EUR' }, { ...usdFavorite(), id: 'fav-3' }],
+  });
+
+  const regions = await loadAlertRegions(supabase);
+
+  deepStrictEqual(regions['1'].map(region => region.code), ['US', 'EU']);
+  deepStrictEqual(scheduledRegions(regions['1']).map(region => region.code), ['BR', 'US', 'EU']);
+});
+
+Deno.test('a scheduled refresh fires a USD alert from US prices', async () => {
+  const tables = { favorites: [usdFavorite()], game_prices: [] as Row[], price_alerts: [] as Row[] };
+  const supabase = fakeSupabase(tables);
+
+  const regions = scheduledRegions((await loadAlertRegions(supabase))['1']);
+  await refreshScheduledPrices(supabase, '1', 'Hades', regions, { adapters: [steamAdapter], health: {} });
+
+  deepStrictEqual(tables.game_prices.map(row => row.region), ['BR', 'US']);
+  strictEqual(tables.price_alerts.length, 1);
+  strictEqual(tables.price_alerts[0].price, 15);
+  strictEqual(tables.price_alerts[0].currency, 'USD');
+});
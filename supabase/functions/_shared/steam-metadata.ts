@@ -0,0 +1,117 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { GameMetadata, GameMetadataResponse, GameRequirements } from './game-metadata.ts';
+import { steamLanguage } from './languages.ts';
+import { fetchAppDetails, type AppDetailsOptions, type SteamAppDetails, type SteamRequirements } from './steam.ts';
+
+// Descrições, mídia e requisitos quase não mudam; bem mais longo que o cache bruto da Steam
+const METADATA_TTL_MS = 24 * 60 * 60 * 1000;
+
+const toRequirements = (requirements: SteamRequirements | [] | undefined): GameRequirements | null => {
+  if (!requirements || Array.isArray(requirements)) return null;
+  if (!requirements.minimum && !requirements.recommended) return null;
+  return { minimum: requirements.minimum ?? null, recommended: requirements.recommended ?? null };
+};
+
+// Converte o appdetails da Steam no formato GameMetadata
+export const normalizeGameMetadata = (appid: string, details: SteamAppDetails): GameMetadata => ({
+  appid,
+  name: details.name,
+  type: details.type,
+  isFree: details.is_free ?? false,
+  shortDescription: details.short_description ?? '',
+  detailedDescription: details.detailed_description ?? '',
+  genres: (details.genres ?? []).map(genre => genre.description),
+  developers: details.developers ?? [],
+  publishers: details.publishers ?? [],
+  media: {
+    headerImage: details.header_image ?? null,
+    capsuleImage: details.capsule_image ?? null,
+    background: details.background ?? null,
+    screenshots: (details.screenshots ?? []).map(screenshot => ({
+      thumbnail: screenshot.path_thumbnail,
+      full: screenshot.path_full,
+    })),
+    movies: (details.movies ?? []).map(movie => ({
+      name: movie.name,
+      thumbnail: movie.thumbnail,
+      webm: movie.webm?.max ?? null,
+      mp4: movie.mp4?.max ?? null,
+    })),
+  },
+  platforms: {
+    windows: details.platforms?.windows ?? false,
+    mac: details.platforms?.mac ?? false,
+    linux: details.platforms?.linux ?? false,
+  },
+  releaseDate: {
+    date: details.release_date?.date || null,
+    comingSoon: details.release_date?.coming_soon ?? false,
+  },
+  metacritic: details.metacritic ? { score: details.metacritic.score, url: details.metacritic.url ?? null } : null,
+  dlc: (details.dlc ?? []).map(String),
+  requirements: {
+    windows: toRequirements(details.pc_requirements),
+    mac: toRequirements(details.mac_requirements),
+    linux: toRequirements(details.linux_requirements),
+  },
+});
+
+/**
+ * Metadados do jogo no idioma pedido, a partir de game_metadata enquanto válido.
+ * Expirado, busca de novo na Steam; se a Steam falhar, responde com o que já tinha.
+ */
+export const getGameMetadata = async (
+  supabase: SupabaseClient,
+  appid: string,
+  options: AppDetailsOptions,
+): Promise<GameMetadataResponse> => {
+  const language = steamLanguage(options.language);
+
+  const { data: cached, error } = await supabase
+    .from('game_metadata')
+    .select('metadata, updated_at')
+    .eq('appid', appid)
+    .eq('language', language)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error reading game metadata for appid ${appid}:`, error);
+  }
+
+  if (cached && Date.now() - new Date(cached.updated_at).getTime() < METADATA_TTL_MS) {
+    return { game: cached.metadata as GameMetadata, language, last_updated: cached.updated_at };
+  }
+
+  let details: SteamAppDetails | null;
+  try {
+    details = await fetchAppDetails(supabase, appid, options);
+  } catch (fetchError) {
+    if (!cached) throw fetchError;
+    console.error(`Error refreshing game metadata for appid ${appid}, serving cached copy:`, fetchError);
+    return { game: cached.metadata as GameMetadata, language, last_updated: cached.updated_at };
+  }
+
+  if (!details) {
+    return { game: null, language, last_updated: null };
+  }
+
+  const game = normalizeGameMetadata(appid, details);
+  const updatedAt = new Date().toISOString();
+
+  const { error: upsertError } = await supabase
+    .from('game_metadata')
+    .upsert({
+      appid,
+      language,
+      metadata: game,
+      updated_at: updatedAt,
+    }, {
+      onConflict: 'appid,language'
+    });
+
+  if (upsertError) {
+    console.error(`Error saving game metadata for appid ${appid}:`, upsertError);
+  }
+
+  return { game, language, last_updated: updatedAt };
+};
@@ -0,0 +1,138 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { steamLanguage } from './languages.ts';
+
+// Cliente de appdetails da Steam compartilhado pelas edge functions.
+// A mesma resposta traz nome, preço e metadados, então uma chamada serve a todos.
+
+// Curto o bastante para o price_overview não ficar para trás do cache de preços
+const APP_CACHE_TTL_MS = 10 * 60 * 1000;
+
+export interface SteamPriceOverview {
+  currency: string;
+  initial: number;
+  final: number;
+  discount_percent: number;
+}
+
+export interface SteamRequirements {
+  minimum?: string;
+  recommended?: string;
+}
+
+// Só os campos usados pelas funções; o restante segue no JSON salvo em steam_app_cache
+export interface SteamAppDetails {
+  type: string;
+  name: string;
+  steam_appid: number;
+  is_free?: boolean;
+  short_description?: string;
+  header_image?: string;
+  capsule_image?: string;
+  genres?: { id: string; description: string }[];
+  categories?: { id: number; description: string }[];
+  platforms?: { [platform: string]: boolean };
+  release_date?: { coming_soon: boolean; date: string };
+  price_overview?: SteamPriceOverview;
+  detailed_description?: string;
+  developers?: string[];
+  publishers?: string[];
+  background?: string;
+  screenshots?: { id: number; path_thumbnail: string; path_full: string }[];
+  movies?: { id: number; name: string; thumbnail: string; webm?: { max?: string }; mp4?: { max?: string } }[];
+  metacritic?: { score: number; url?: string };
+  dlc?: number[];
+  // A Steam manda [] quando não há requisitos para a plataforma
+  pc_requirements?: SteamRequirements | [];
+  mac_requirements?: SteamRequirements | [];
+  linux_requirements?: SteamRequirements | [];
+  [field: string]: unknown;
+}
+
+export interface AppDetailsOptions {
+  // País da consulta (define moeda e preço do price_overview)
+  countryCode: string;
+  // Idioma do app (pt-BR, en-US...); ausente cai no padrão
+  language?: string | null;
+  // Avisado só quando a consulta vai de fato à Steam, fora do cache
+  onRequest?: () => void;
+}
+
+// Consultas em andamento nesta instância: chamadas iguais ao mesmo tempo esperam a mesma resposta
+const requestsInFlight = new Map<string, Promise<SteamAppDetails | null>>();
+
+const loadAppDetails = async (
+  supabase: SupabaseClient,
+  appid: string,
+  countryCode: string,
+  language: string,
+  onRequest?: () => void,
+): Promise<SteamAppDetails | null> => {
+  const { data: cached, error } = await supabase
+    .from('steam_app_cache')
+    .select('success, data, fetched_at')
+    .eq('appid', appid)
+    .eq('country_code', countryCode)
+    .eq('language', language)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error reading Steam app cache for appid ${appid}:`, error);
+  }
+
+  if (cached && Date.now() - new Date(cached.fetched_at).getTime() < APP_CACHE_TTL_MS) {
+    return cached.success ? cached.data as SteamAppDetails : null;
+  }
+
+  onRequest?.();
+  const response = await fetch(
+    `https://store.steampowered.com/api/appdetails?appids=${appid}&cc=${countryCode}&l=${language}`
+  );
+  if (!response.ok) {
+    throw new Error(`Steam appdetails returned status ${response.status}`);
+  }
+
+  const payload = await response.json();
+  const details: SteamAppDetails | null = payload?.[appid]?.success ? payload[appid].data : null;
+
+  const { error: upsertError } = await supabase
+    .from('steam_app_cache')
+    .upsert({
+      appid,
+      country_code: countryCode,
+      language,
+      success: details !== null,
+      data: details,
+      fetched_at: new Date().toISOString(),
+    }, {
+      onConflict: 'appid,country_code,language'
+    });
+
+  if (upsertError) {
+    console.error(`Error saving Steam app cache for appid ${appid}:`, upsertError);
+  }
+
+  return details;
+};
+
+/**
+ * Dados do appdetails de um jogo, ou null quando a Steam não conhece o appid.
+ * Responde de steam_app_cache enquanto válido; senão busca na Steam uma única vez,
+ * mesmo com várias chamadas simultâneas para o mesmo jogo, país e idioma.
+ */
+export const fetchAppDetails = (
+  supabase: SupabaseClient,
+  appid: string,
+  { countryCode, language, onRequest }: AppDetailsOptions,
+): Promise<SteamAppDetails | null> => {
+  const cc = countryCode.toLowerCase();
+  const l = steamLanguage(language);
+  const key = `${appid}:${cc}:${l}`;
+
+  const inFlight = requestsInFlight.get(key);
+  if (inFlight) return inFlight;
+
+  const request = loadAppDetails(supabase, appid, cc, l, onRequest)
+    .finally(() => requestsInFlight.delete(key));
+  requestsInFlight.set(key, request);
+  return request;
+};
@@ -0,0 +1,79 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { storeAdapters, type AdapterOutcome } from './stores/index.ts';
+import type { StoreStatusMap } from './price-api.ts';
+
+// Falhas seguidas que abrem o circuito de uma loja
+export const FAILURE_THRESHOLD = 3;
+
+// Tempo que a loja fica sem ser consultada depois que o circuito abre
+export const COOLDOWN_SECONDS = 10 * 60;
+
+export interface StoreHealth {
+  store: string;
+  success_count: number;
+  failure_count: number;
+  consecutive_failures: number;
+  total_latency_ms: number;
+  last_latency_ms: number | null;
+  last_error: string | null;
+  last_error_at: string | null;
+  last_success_at: string | null;
+  circuit_open_until: string | null;
+  success_rate: number | null;
+  avg_latency_ms: number | null;
+}
+
+export type StoreHealthMap = { [store: string]: StoreHealth };
+
+// Saúde de todas as lojas. Se a tabela não puder ser lida, todas são consultadas normalmente.
+export const loadStoreHealth = async (supabase: SupabaseClient): Promise<StoreHealthMap> => {
+  const { data, error } = await supabase
+    .from('store_health')
+    .select('*');
+
+  if (error) {
+    console.error('Error reading store health:', error);
+    return {};
+  }
+
+  return Object.fromEntries((data ?? []).map((row: StoreHealth) => [row.store, row]));
+};
+
+export const isCircuitOpen = (health: StoreHealth | undefined, now = Date.now()): boolean =>
+  !!health?.circuit_open_until && new Date(health.circuit_open_until).getTime() > now;
+
+// Grava o resultado de um adapter; a contagem e a abertura do circuito ficam em record_store_outcome
+export const recordStoreOutcome = async (supabase: SupabaseClient, outcome: AdapterOutcome) => {
+  const { error } = await supabase.rpc('record_store_outcome', {
+    p_store: outcome.store,
+    p_ok: outcome.ok,
+    p_latency_ms: Math.round(outcome.durationMs),
+    p_error: outcome.error ?? null,
+    p_failure_threshold: FAILURE_THRESHOLD,
+    p_cooldown_seconds: COOLDOWN_SECONDS,
+  });
+
+  if (error) {
+    console.error(`Error recording ${outcome.store} health:`, error);
+  }
+};
+
+// Situação de cada loja registrada, para o app avisar quando uma loja está fora em vez de só omiti-la
+export const loadStoreStatus = async (
+  supabase: SupabaseClient,
+  stores: string[] = storeAdapters.map(adapter => adapter.store),
+): Promise<StoreStatusMap> => {
+  const health = await loadStoreHealth(supabase);
+  const now = Date.now();
+
+  return Object.fromEntries(stores.map(store => {
+    const row = health[store];
+    if (isCircuitOpen(row, now)) {
+      return [store, { status: 'unavailable', lastError: row.last_error, retryAt: row.circuit_open_until }];
+    }
+    if (row && row.consecutive_failures > 0) {
+      return [store, { status: 'degraded', lastError: row.last_error, retryAt: null }];
+    }
+    return [store, { status: 'ok', lastError: null, retryAt: null }];
+  }));
+};
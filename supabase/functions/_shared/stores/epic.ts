@@ -0,0 +1,148 @@
+import { resolveStoreListing, type ListingCandidate, type StoreListing } from './listings.ts';
+import type { StoreAdapter } from './types.ts';
+
+const EPIC_GRAPHQL_URL = 'https://store.epicgames.com/graphql';
+
+export interface EpicTotalPrice {
+  // Valores em unidades menores da moeda (centavos)
+  discountPrice: number;
+  originalPrice: number;
+  currencyCode: string;
+  currencyInfo?: { decimals: number };
+}
+
+export interface EpicSearchElement {
+  id: string;
+  namespace: string;
+  title: string;
+  offerType?: string;
+  productSlug?: string | null;
+  urlSlug?: string | null;
+  offerMappings?: { pageSlug: string; pageType: string }[] | null;
+}
+
+// Acesso à API da Epic; os testes trocam o fetch pelas respostas gravadas em fixtures/epic/
+export interface EpicClient {
+  searchStore(keywords: string, country: string, locale: string): Promise<EpicSearchElement[]>;
+  fetchOfferPrice(namespace: string, offerId: string, country: string): Promise<EpicTotalPrice | null>;
+}
+
+const SEARCH_QUERY = `query searchStoreQuery($keywords: String, $country: String!, $locale: String, $count: Int) {
+  Catalog {
+    searchStore(keywords: $keywords, country: $country, locale: $locale, count: $count, category: "games/edition/base") {
+      elements { id namespace title offerType productSlug urlSlug offerMappings { pageSlug pageType } }
+    }
+  }
+}`;
+
+const OFFER_PRICE_QUERY = `query catalogOfferPrice($namespace: String!, $id: String!, $country: String!) {
+  Catalog {
+    catalogOffer(namespace: $namespace, id: $id) {
+      price(country: $country) {
+        totalPrice { discountPrice originalPrice currencyCode currencyInfo { decimals } }
+      }
+    }
+  }
+}`;
+
+export class EpicGraphqlClient implements EpicClient {
+  constructor(private readonly url = EPIC_GRAPHQL_URL) {}
+
+  private async query<T>(query: string, variables: Record<string, unknown>): Promise<T | null> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables }),
+    });
+    if (!response.ok) {
+      throw new Error(`Epic GraphQL returned status ${response.status}`);
+    }
+    const body = await response.json();
+    if (body.errors?.length) {
+      console.log('Epic GraphQL errors:', JSON.stringify(body.errors));
+      // Sem dados nenhuns é falha da API, não ausência do jogo
+      if (!body.data) throw new Error(`Epic GraphQL failed: ${body.errors[0]?.message ?? 'unknown error'}`);
+    }
+    return body.data ?? null;
+  }
+
+  async searchStore(keywords: string, country: string, locale: string): Promise<EpicSearchElement[]> {
+    const data = await this.query<{ Catalog: { searchStore: { elements: EpicSearchElement[] } } }>(
+      SEARCH_QUERY,
+      { keywords, country, locale, count: 10 },
+    );
+    return data?.Catalog?.searchStore?.elements ?? [];
+  }
+
+  async fetchOfferPrice(namespace: string, offerId: string, country: string): Promise<EpicTotalPrice | null> {
+    const data = await this.query<{ Catalog: { catalogOffer: { price: { totalPrice: EpicTotalPrice } | null } | null } }>(
+      OFFER_PRICE_QUERY,
+      { namespace, id: offerId, country },
+    );
+    return data?.Catalog?.catalogOffer?.price?.totalPrice ?? null;
+  }
+}
+
+// Página do produto: o slug fica em offerMappings nos jogos novos e em productSlug nos antigos
+const epicPageSlug = (element: EpicSearchElement): string | null =>
+  element.offerMappings?.find(mapping => mapping.pageType === 'productHome')?.pageSlug
+    ?? element.productSlug?.replace(/\/home$/, '')
+    ?? element.urlSlug
+    ?? null;
+
+// O productId guarda namespace e id da oferta, os dois necessários para consultar o preço
+const toEpicOfferRef = (listing: StoreListing) => {
+  const [namespace, offerId] = listing.productId.split(':');
+  return { namespace, offerId };
+};
+
+export const createEpicAdapter = (client: EpicClient): StoreAdapter<StoreListing, EpicTotalPrice> => ({
+  store: 'Epic Games',
+
+  resolve: (ctx) => resolveStoreListing(ctx, 'Epic Games', async (gameName): Promise<ListingCandidate[]> => {
+    const elements = await client.searchStore(gameName, ctx.region.countryCode, ctx.region.locale);
+    return elements
+      .filter(element => !element.offerType || element.offerType === 'BASE_GAME')
+      .map(element => ({
+        productId: `${element.namespace}:${element.id}`,
+        slug: epicPageSlug(element),
+        title: element.title,
+      }));
+  }),
+
+  fetchPrice: async (listing, ctx) => {
+    const { namespace, offerId } = toEpicOfferRef(listing);
+    ctx.onUpstreamRequest?.();
+    const price = await client.fetchOfferPrice(namespace, offerId, ctx.region.countryCode);
+
+    // A Epic pode cobrar em outra moeda na região (ex.: ARS); só serve a da região pedida
+    if (!price || price.currencyCode !== ctx.region.currency) {
+      console.log(`Epic: no ${ctx.region.currency} price for offer ${listing.productId}`);
+      return null;
+    }
+    return price;
+  },
+
+  normalize: (price, listing, ctx) => {
+    const divisor = 10 ** (price.currencyInfo?.decimals ?? 2);
+    const finalPrice = price.discountPrice / divisor;
+    const basePrice = price.originalPrice / divisor;
+
+    // Jogos gratuitos não entram na comparação
+    if (basePrice <= 0) return null;
+
+    return {
+      store: 'Epic Games',
+      currency: price.currencyCode,
+      discount: basePrice > finalPrice ? Math.round(((basePrice - finalPrice) / basePrice) * 100) : 0,
+      buyUrl: listing.slug
+        ? `https://store.epicgames.com/p/${listing.slug}`
+        : `https://store.epicgames.com/browse?q=${encodeURIComponent(ctx.gameName)}`,
+      available: true,
+      numericPrice: finalPrice,
+      numericOriginalPrice: basePrice,
+    };
+  },
+});
+
+export const epicAdapter = createEpicAdapter(new EpicGraphqlClient());
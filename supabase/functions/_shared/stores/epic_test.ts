@@ -0,0 +1,116 @@
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert/strict';
+import { createEpicAdapter, EpicGraphqlClient } from './epic.ts';
+import { fixtureContext } from './fixtures/context.ts';
+import { jsonResponse, withRecordedFetch, type RecordedCall } from './fixtures/fetch.ts';
+import { runAdapter } from './index.ts';
+import searchCyberpunk from './fixtures/epic/search-cyberpunk-2077.json' with { type: 'json' };
+import searchHollowKnight from './fixtures/epic/search-hollow-knight.json' with { type: 'json' };
+import searchEmpty from './fixtures/epic/search-empty.json' with { type: 'json' };
+import offerCyberpunkUs from './fixtures/epic/offer-cyberpunk-2077-us.json' with { type: 'json' };
+import offerCyberpunkAr from './fixtures/epic/offer-cyberpunk-2077-ar.json' with { type: 'json' };
+import offerHollowKnightBr from './fixtures/epic/offer-hollow-knight-br.json' with { type: 'json' };
+import errorsNoData from './fixtures/epic/errors-no-data.json' with { type: 'json' };
+
+const adapter = createEpicAdapter(new EpicGraphqlClient());
+
+const SEARCHES: { [keywords: string]: unknown } = {
+  'Cyberpunk 2077': searchCyberpunk,
+  'Hollow Knight': searchHollowKnight,
+};
+
+const OFFERS: { [key: string]: unknown } = {
+  '5beededaad9743df90e8f07d92df153f:US': offerCyberpunkUs,
+  '5beededaad9743df90e8f07d92df153f:AR': offerCyberpunkAr,
+  'd8a5b0c6e9a64b1ba1c1f3e5a4f3e2d1:BR': offerHollowKnightBr,
+};
+
+// As duas consultas vão no mesmo endpoint; o nome da query e as variáveis escolhem a resposta
+const epicRoute = (call: RecordedCall) => {
+  const query = String(call.body?.query ?? '');
+  const variables = (call.body?.variables ?? {}) as { [key: string]: string };
+  if (query.startsWith('query searchStoreQuery')) {
+    return jsonResponse(SEARCHES[variables.keywords] ?? searchEmpty);
+  }
+  const offer = OFFERS[`${variables.id}:${variables.country}`];
+  return offer ? jsonResponse(offer) : undefined;
+};
+
+Deno.test('Epic resolves the base game and ignores the DLC offer', () =>
+  withRecordedFetch(epicRoute, async (calls) => {
+    const ctx = fixtureContext('Cyberpunk 2077');
+    const listing = await adapter.resolve(ctx);
+
+    deepStrictEqual(listing, {
+      productId: '77f2b98e2cef40c8a7437518bf420e47:5beededaad9743df90e8f07d92df153f',
+      slug: 'cyberpunk-2077',
+    });
+    strictEqual(ctx.listings.length, 1);
+
+    strictEqual(calls[0].method, 'POST');
+    strictEqual(calls[0].url.href, 'https://store.epicgames.com/graphql');
+    deepStrictEqual(calls[0].body?.variables, {
+      keywords: 'Cyberpunk 2077',
+      country: 'BR',
+      locale: 'pt-BR',
+      count: 10,
+    });
+  }));
+
+Deno.test('Epic normalizes the regional price in minor units', () =>
+  withRecordedFetch(epicRoute, async (calls) => {
+    const price = await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'US'));
+
+    deepStrictEqual(price, {
+      store: 'Epic Games',
+      currency: 'USD',
+      discount: 50,
+      buyUrl: 'https://store.epicgames.com/p/cyberpunk-2077',
+      available: true,
+      numericPrice: 29.99,
+      numericOriginalPrice: 59.99,
+    });
+    deepStrictEqual(calls[1].body?.variables, {
+      namespace: '77f2b98e2cef40c8a7437518bf420e47',
+      id: '5beededaad9743df90e8f07d92df153f',
+      country: 'US',
+    });
+  }));
+
+Deno.test('Epic uses productSlug without the /home suffix when there are no offer mappings', () =>
+  withRecordedFetch(epicRoute, async () => {
+    const price = await runAdapter(adapter, fixtureContext('Hollow Knight'));
+    strictEqual(price?.buyUrl, 'https://store.epicgames.com/p/hollow-knight');
+  }));
+
+Deno.test('Epic has no price when the search comes back empty', () =>
+  withRecordedFetch(epicRoute, async (calls) => {
+    const ctx = fixtureContext('Stardew Valley');
+
+    strictEqual(await adapter.resolve(ctx), null);
+    // A ausência fica gravada para não buscar de novo
+    strictEqual(ctx.listings[0].store_product_id, null);
+    strictEqual(calls.length, 1);
+  }));
+
+Deno.test('Epic has no price when the store charges in another currency', () =>
+  withRecordedFetch(epicRoute, async () => {
+    const ctx = fixtureContext('Cyberpunk 2077', 'AR');
+    const listing = await adapter.resolve(ctx);
+
+    strictEqual(await adapter.fetchPrice(listing!, ctx), null);
+    strictEqual(await runAdapter(adapter, ctx), null);
+  }));
+
+Deno.test('Epic fails when the API answers with an error status', () =>
+  withRecordedFetch(() => jsonResponse({ message: 'Service Unavailable' }, 503), async () => {
+    const ctx = fixtureContext('Cyberpunk 2077');
+
+    await rejects(adapter.resolve(ctx), /Epic GraphQL returned status 503/);
+    // Falha da API não é ausência do jogo: nada fica gravado
+    strictEqual(ctx.listings.length, 0);
+  }));
+
+Deno.test('Epic fails when GraphQL returns errors without data', () =>
+  withRecordedFetch(() => jsonResponse(errorsNoData), async () => {
+    await rejects(adapter.resolve(fixtureContext('Cyberpunk 2077')), /Epic GraphQL failed: Something went wrong/);
+  }));
@@ -0,0 +1,91 @@
+import { resolveStoreListing, type ListingCandidate, type StoreListing } from './listings.ts';
+import { normalizeRedemptionPlatform } from './redemption.ts';
+import type { StoreAdapter } from './types.ts';
+
+export interface FanaticalSearchHit {
+  name: string;
+  slug: string;
+  type: string;
+}
+
+export interface FanaticalProduct {
+  name: string;
+  slug: string;
+  // Preço em cada moeda vendida, ex.: { BRL: 49.99, USD: 14.99 }
+  price: { [currency: string]: number };
+  fullPrice: { [currency: string]: number };
+  drm: string[];
+  // Países onde a chave não pode ser vendida
+  regionsExcluded?: string[];
+}
+
+// Acesso à API da Fanatical; os testes trocam o fetch pelas respostas gravadas em fixtures/fanatical/
+export interface FanaticalClient {
+  search(gameName: string): Promise<FanaticalSearchHit[]>;
+  fetchProduct(slug: string): Promise<FanaticalProduct | null>;
+}
+
+export class FanaticalApiClient implements FanaticalClient {
+  constructor(private readonly baseUrl = 'https://www.fanatical.com/api') {}
+
+  async search(gameName: string): Promise<FanaticalSearchHit[]> {
+    const response = await fetch(`${this.baseUrl}/search?query=${encodeURIComponent(gameName)}&type=game`);
+    if (!response.ok) {
+      throw new Error(`Fanatical search returned status ${response.status}`);
+    }
+    const data = await response.json();
+    return data?.hits ?? [];
+  }
+
+  async fetchProduct(slug: string): Promise<FanaticalProduct | null> {
+    const response = await fetch(`${this.baseUrl}/products-group/${encodeURIComponent(slug)}/en`);
+    if (!response.ok) {
+      throw new Error(`Fanatical product returned status ${response.status}`);
+    }
+    return await response.json();
+  }
+}
+
+export const createFanaticalAdapter = (client: FanaticalClient): StoreAdapter<StoreListing, FanaticalProduct> => ({
+  store: 'Fanatical',
+
+  resolve: (ctx) => resolveStoreListing(ctx, 'Fanatical', async (gameName): Promise<ListingCandidate[]> => {
+    const hits = await client.search(gameName);
+    return hits
+      .filter(hit => hit.type === 'game')
+      .map(hit => ({ productId: hit.slug, slug: hit.slug, title: hit.name }));
+  }),
+
+  fetchPrice: async (listing, ctx) => {
+    ctx.onUpstreamRequest?.();
+    const product = await client.fetchProduct(listing.productId);
+    if (!product) return null;
+
+    // A Fanatical devolve todas as moedas de uma vez; a chave pode ser bloqueada por país
+    if (product.regionsExcluded?.includes(ctx.region.countryCode) || product.price[ctx.region.currency] === undefined) {
+      console.log(`Fanatical: ${listing.productId} not sold in ${ctx.region.code}`);
+      return null;
+    }
+    return product;
+  },
+
+  normalize: (product, _listing, ctx) => {
+    const finalPrice = product.price[ctx.region.currency];
+    const basePrice = product.fullPrice[ctx.region.currency] ?? finalPrice;
+    if (basePrice <= 0) return null;
+
+    return {
+      store: 'Fanatical',
+      currency: ctx.region.currency,
+      discount: basePrice > finalPrice ? Math.round(((basePrice - finalPrice) / basePrice) * 100) : 0,
+      buyUrl: `https://www.fanatical.com/en/game/${product.slug}`,
+      available: true,
+      numericPrice: finalPrice,
+      numericOriginalPrice: basePrice,
+      isKeyReseller: true,
+      redemptionPlatform: normalizeRedemptionPlatform(product.drm),
+    };
+  },
+});
+
+export const fanaticalAdapter = createFanaticalAdapter(new FanaticalApiClient());
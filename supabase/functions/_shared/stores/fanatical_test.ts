@@ -0,0 +1,63 @@
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert/strict';
+import { createFanaticalAdapter, FanaticalApiClient } from './fanatical.ts';
+import { fixtureContext } from './fixtures/context.ts';
+import { jsonResponse, withRecordedFetch, type RecordedCall } from './fixtures/fetch.ts';
+import { runAdapter } from './index.ts';
+import searchCyberpunk from './fixtures/fanatical/search-cyberpunk-2077.json' with { type: 'json' };
+import searchEmpty from './fixtures/fanatical/search-empty.json' with { type: 'json' };
+import productCyberpunk from './fixtures/fanatical/product-cyberpunk-2077.json' with { type: 'json' };
+
+const adapter = createFanaticalAdapter(new FanaticalApiClient());
+
+const fanaticalRoute = (call: RecordedCall) => {
+  if (call.url.pathname === '/api/search') {
+    return jsonResponse(call.url.searchParams.get('query') === 'Cyberpunk 2077' ? searchCyberpunk : searchEmpty);
+  }
+  if (call.url.pathname === '/api/products-group/cyberpunk-2077/en') {
+    return jsonResponse(productCyberpunk);
+  }
+};
+
+Deno.test('Fanatical reads the price in the region currency and flags the GOG key', () =>
+  withRecordedFetch(fanaticalRoute, async () => {
+    const price = await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'EU'));
+
+    deepStrictEqual(price, {
+      store: 'Fanatical',
+      currency: 'EUR',
+      discount: 50,
+      buyUrl: 'https://www.fanatical.com/en/game/cyberpunk-2077',
+      available: true,
+      numericPrice: 29.99,
+      numericOriginalPrice: 59.99,
+      isKeyReseller: true,
+      redemptionPlatform: 'GOG',
+    });
+  }));
+
+Deno.test('Fanatical skips the DLC hit when resolving', () =>
+  withRecordedFetch(fanaticalRoute, async () => {
+    const listing = await adapter.resolve(fixtureContext('Cyberpunk 2077'));
+    deepStrictEqual(listing, { productId: 'cyberpunk-2077', slug: 'cyberpunk-2077' });
+  }));
+
+Deno.test('Fanatical has no price in a country where the key is blocked', () =>
+  withRecordedFetch(fanaticalRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'TR')), null);
+  }));
+
+Deno.test('Fanatical has no price when the search comes back empty', () =>
+  withRecordedFetch(fanaticalRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Stardew Valley')), null);
+  }));
+
+Deno.test('Fanatical fails when the product page answers with an error status', () =>
+  withRecordedFetch(
+    (call) => call.url.pathname === '/api/search' ? jsonResponse(searchCyberpunk) : jsonResponse({}, 500),
+    async () => {
+      const ctx = fixtureContext('Cyberpunk 2077');
+      const listing = await adapter.resolve(ctx);
+
+      await rejects(adapter.fetchPrice(listing!, ctx), /Fanatical product returned status 500/);
+    },
+  ));
@@ -0,0 +1,45 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { REGIONS } from '../../regions.ts';
+import type { AdapterContext } from '../types.ts';
+
+type Row = { [column: string]: unknown };
+
+// store_listings em memória: o suficiente para resolveStoreListing nos testes dos adapters
+class FakeListingsQuery {
+  private filters: [string, unknown][] = [];
+
+  constructor(private readonly rows: Row[]) {}
+
+  select() {
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push([column, value]);
+    return this;
+  }
+
+  maybeSingle() {
+    const row = this.rows.find(candidate => this.filters.every(([column, value]) => candidate[column] === value));
+    return Promise.resolve({ data: row ?? null, error: null });
+  }
+
+  upsert(row: Row) {
+    const index = this.rows.findIndex(candidate => candidate.appid === row.appid && candidate.store === row.store);
+    const saved = { ...row, updated_at: new Date().toISOString() };
+    if (index >= 0) this.rows[index] = saved;
+    else this.rows.push(saved);
+    return Promise.resolve({ error: null });
+  }
+}
+
+export interface FixtureContext extends AdapterContext {
+  // Linhas gravadas em store_listings durante o teste
+  listings: Row[];
+}
+
+export const fixtureContext = (gameName: string, regionCode = 'BR', appid = '1'): FixtureContext => {
+  const listings: Row[] = [];
+  const supabase = { from: () => new FakeListingsQuery(listings) } as unknown as SupabaseClient;
+  return { appid, gameName, region: REGIONS[regionCode], supabase, listings };
+};
@@ -0,0 +1,41 @@
+// Chamada feita por um cliente de loja durante o teste
+export interface RecordedCall {
+  url: URL;
+  method: string;
+  // Corpo JSON já lido (GraphQL da Epic); null nas chamadas GET
+  body: { [key: string]: unknown } | null;
+}
+
+// Escolhe a resposta gravada para a chamada; undefined responde 404
+export type FixtureRoute = (call: RecordedCall) => Response | undefined;
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+/**
+ * Troca globalThis.fetch pelas respostas gravadas em fixtures/<loja>/ enquanto run executa,
+ * para os testes passarem pelo cliente real da loja (URL, parse do JSON e mapeamento dos campos).
+ */
+export const withRecordedFetch = async <T>(
+  route: FixtureRoute,
+  run: (calls: RecordedCall[]) => Promise<T>,
+): Promise<T> => {
+  const originalFetch = globalThis.fetch;
+  const calls: RecordedCall[] = [];
+
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const call: RecordedCall = {
+      url: new URL(input instanceof Request ? input.url : input),
+      method: init?.method ?? 'GET',
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : null,
+    };
+    calls.push(call);
+    return Promise.resolve(route(call) ?? jsonResponse({ error: 'Not Found' }, 404));
+  };
+
+  try {
+    return await run(calls);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+};
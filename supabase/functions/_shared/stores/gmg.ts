@@ -0,0 +1,88 @@
+import { resolveStoreListing, type ListingCandidate, type StoreListing } from './listings.ts';
+import { normalizeRedemptionPlatform } from './redemption.ts';
+import type { StoreAdapter } from './types.ts';
+
+export interface GmgSearchResult {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export interface GmgProduct {
+  id: string;
+  name: string;
+  url: string;
+  price: number;
+  rrp: number;
+  currency: string;
+  drm: string | null;
+  isAvailable: boolean;
+}
+
+// Acesso à API da Green Man Gaming; os testes trocam o fetch pelas respostas gravadas em fixtures/gmg/
+export interface GmgClient {
+  search(gameName: string, countryCode: string): Promise<GmgSearchResult[]>;
+  fetchProduct(productId: string, countryCode: string): Promise<GmgProduct | null>;
+}
+
+export class GmgApiClient implements GmgClient {
+  constructor(private readonly baseUrl = 'https://api.greenmangaming.com/api/v2') {}
+
+  async search(gameName: string, countryCode: string): Promise<GmgSearchResult[]> {
+    const response = await fetch(
+      `${this.baseUrl}/search?query=${encodeURIComponent(gameName)}&country=${countryCode}&type=game`
+    );
+    if (!response.ok) {
+      throw new Error(`GMG search returned status ${response.status}`);
+    }
+    const data = await response.json();
+    return data?.results ?? [];
+  }
+
+  // A GMG tem uma loja por país, cada uma com sua moeda
+  async fetchProduct(productId: string, countryCode: string): Promise<GmgProduct | null> {
+    const response = await fetch(`${this.baseUrl}/products/${encodeURIComponent(productId)}?country=${countryCode}`);
+    if (!response.ok) {
+      throw new Error(`GMG product returned status ${response.status}`);
+    }
+    return await response.json();
+  }
+}
+
+export const createGmgAdapter = (client: GmgClient): StoreAdapter<StoreListing, GmgProduct> => ({
+  store: 'Green Man Gaming',
+
+  resolve: (ctx) => resolveStoreListing(ctx, 'Green Man Gaming', async (gameName): Promise<ListingCandidate[]> => {
+    const results = await client.search(gameName, ctx.region.countryCode);
+    return results.map(result => ({ productId: result.id, slug: result.url, title: result.name }));
+  }),
+
+  fetchPrice: async (listing, ctx) => {
+    ctx.onUpstreamRequest?.();
+    const product = await client.fetchProduct(listing.productId, ctx.region.countryCode);
+    if (!product?.isAvailable || product.currency !== ctx.region.currency) {
+      console.log(`GMG: no ${ctx.region.currency} price for ${listing.productId}`);
+      return null;
+    }
+    return product;
+  },
+
+  normalize: (product) => {
+    const basePrice = product.rrp > 0 ? product.rrp : product.price;
+    if (basePrice <= 0) return null;
+
+    return {
+      store: 'Green Man Gaming',
+      currency: product.currency,
+      discount: basePrice > product.price ? Math.round(((basePrice - product.price) / basePrice) * 100) : 0,
+      buyUrl: `https://www.greenmangaming.com${product.url}`,
+      available: true,
+      numericPrice: product.price,
+      numericOriginalPrice: basePrice,
+      isKeyReseller: true,
+      redemptionPlatform: normalizeRedemptionPlatform([product.drm]),
+    };
+  },
+});
+
+export const gmgAdapter = createGmgAdapter(new GmgApiClient());
@@ -0,0 +1,65 @@
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert/strict';
+import { createGmgAdapter, GmgApiClient } from './gmg.ts';
+import { fixtureContext } from './fixtures/context.ts';
+import { jsonResponse, withRecordedFetch, type RecordedCall } from './fixtures/fetch.ts';
+import { runAdapter } from './index.ts';
+import searchCyberpunk from './fixtures/gmg/search-cyberpunk-2077-br.json' with { type: 'json' };
+import searchEmpty from './fixtures/gmg/search-empty.json' with { type: 'json' };
+import productCyberpunkBr from './fixtures/gmg/product-cyberpunk-2077-br.json' with { type: 'json' };
+import productCyberpunkAr from './fixtures/gmg/product-cyberpunk-2077-ar.json' with { type: 'json' };
+
+const adapter = createGmgAdapter(new GmgApiClient());
+
+const PRODUCTS: { [country: string]: unknown } = {
+  BR: productCyberpunkBr,
+  // Fora de estoque na Argentina
+  AR: productCyberpunkAr,
+};
+
+const gmgRoute = (call: RecordedCall) => {
+  if (call.url.pathname === '/api/v2/search') {
+    return jsonResponse(call.url.searchParams.get('query') === 'Cyberpunk 2077' ? searchCyberpunk : searchEmpty);
+  }
+  const product = PRODUCTS[call.url.searchParams.get('country') ?? ''];
+  if (call.url.pathname === '/api/v2/products/cyberpunk-2077-pc' && product) {
+    return jsonResponse(product);
+  }
+};
+
+Deno.test('GMG prices are flagged as Steam keys from a reseller', () =>
+  withRecordedFetch(gmgRoute, async (calls) => {
+    const price = await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'BR'));
+
+    deepStrictEqual(price, {
+      store: 'Green Man Gaming',
+      currency: 'BRL',
+      discount: 40,
+      buyUrl: 'https://www.greenmangaming.com/games/cyberpunk-2077-pc/',
+      available: true,
+      numericPrice: 119.94,
+      numericOriginalPrice: 199.9,
+      isKeyReseller: true,
+      redemptionPlatform: 'Steam',
+    });
+    strictEqual(calls[0].url.searchParams.get('country'), 'BR');
+    strictEqual(calls[1].url.searchParams.get('country'), 'BR');
+  }));
+
+Deno.test('GMG has no price when the product is out of stock in the region', () =>
+  withRecordedFetch(gmgRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'AR')), null);
+  }));
+
+Deno.test('GMG fails when the region store answers with an error status', () =>
+  withRecordedFetch(gmgRoute, async () => {
+    // A loja da Turquia não tem o produto: 404, que é falha e não preço ausente
+    await rejects(runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'TR')), /GMG product returned status 404/);
+  }));
+
+Deno.test('GMG has no price when the search comes back empty', () =>
+  withRecordedFetch(gmgRoute, async () => {
+    const ctx = fixtureContext('Hollow Knight');
+
+    strictEqual(await adapter.resolve(ctx), null);
+    strictEqual(ctx.listings[0].store_product_id, null);
+  }));
@@ -0,0 +1,88 @@
+import { resolveStoreListing, type ListingCandidate, type StoreListing } from './listings.ts';
+import type { StoreAdapter } from './types.ts';
+
+interface GogPrice {
+  finalPrice: string;
+  basePrice: string;
+  discountPercentage?: number;
+  currency?: { code: string };
+}
+
+interface GogCatalogProduct {
+  id: number;
+  title: string;
+  slug: string;
+}
+
+// Busca o jogo no catálogo da GOG pelo nome da Steam
+const searchGogCatalog = async (gameName: string): Promise<ListingCandidate[]> => {
+  const response = await fetch(
+    `https://embed.gog.com/games/ajax/filtered?mediaType=game&search=${encodeURIComponent(gameName)}`
+  );
+  if (!response.ok) {
+    throw new Error(`GOG catalog search returned status ${response.status}`);
+  }
+
+  const data = await response.json();
+  return (data?.products ?? []).map((product: GogCatalogProduct) => ({
+    productId: String(product.id),
+    slug: product.slug,
+    title: product.title,
+  }));
+};
+
+export const gogAdapter: StoreAdapter<StoreListing, GogPrice> = {
+  store: 'GOG',
+
+  resolve: (ctx) => resolveStoreListing(ctx, 'GOG', searchGogCatalog),
+
+  // Fetch GOG prices usando o ID correto do produto
+  fetchPrice: async (product, ctx) => {
+    console.log(`Fetching GOG price for product ID: ${product.productId}`);
+
+    ctx.onUpstreamRequest?.();
+    const priceResponse = await fetch(`https://api.gog.com/products/${product.productId}/prices?countryCode=${ctx.region.countryCode}`);
+    if (!priceResponse.ok) {
+      throw new Error(`GOG API returned status ${priceResponse.status}`);
+    }
+
+    const priceData = await priceResponse.json();
+    console.log('GOG price data:', JSON.stringify(priceData));
+
+    if (!priceData?._embedded?.prices || priceData._embedded.prices.length === 0) {
+      console.log('GOG: No price data available');
+      return null;
+    }
+
+    // O país pode ter mais de uma moeda; só serve a da região pedida
+    const prices: GogPrice[] = priceData._embedded.prices;
+    return prices.find(price => !price.currency || price.currency.code === ctx.region.currency) ?? null;
+  },
+
+  normalize: (price, product, ctx) => {
+    const finalPrice = parseFloat(price.finalPrice) / 100; // Price in cents
+    const basePrice = parseFloat(price.basePrice) / 100;
+
+    // Calcula o desconto corretamente
+    let discount = 0;
+    if (price.discountPercentage) {
+      discount = price.discountPercentage;
+    } else if (basePrice > finalPrice) {
+      discount = Math.round(((basePrice - finalPrice) / basePrice) * 100);
+    }
+
+    console.log(`GOG price: ${finalPrice.toFixed(2)} ${ctx.region.currency} (base: ${basePrice.toFixed(2)}, discount: ${discount}%)`);
+
+    return {
+      store: 'GOG',
+      currency: ctx.region.currency,
+      discount: discount,
+      buyUrl: product.slug
+        ? `https://www.gog.com/game/${product.slug}`
+        : `https://www.gog.com/games?query=${encodeURIComponent(ctx.gameName)}`,
+      available: true,
+      numericPrice: finalPrice,
+      numericOriginalPrice: basePrice
+    };
+  },
+};
@@ -0,0 +1,96 @@
+import { resolveStoreListing, type ListingCandidate, type StoreListing } from './listings.ts';
+import { normalizeRedemptionPlatform } from './redemption.ts';
+import type { StoreAdapter } from './types.ts';
+
+export interface HumblePrice {
+  amount: number;
+  currency: string;
+}
+
+export interface HumbleProduct {
+  machine_name: string;
+  human_name: string;
+  human_url: string;
+  current_price: HumblePrice | null;
+  full_price: HumblePrice | null;
+  // Plataformas em que a chave é ativada (steam, epic, uplay...)
+  delivery_methods: string[];
+}
+
+// Acesso à API da Humble Store; os testes trocam o fetch pelas respostas gravadas em fixtures/humble/
+export interface HumbleClient {
+  search(gameName: string): Promise<HumbleProduct[]>;
+  lookup(machineName: string, countryCode: string): Promise<HumbleProduct | null>;
+}
+
+export class HumbleApiClient implements HumbleClient {
+  constructor(private readonly baseUrl = 'https://www.humblebundle.com/store/api') {}
+
+  async search(gameName: string): Promise<HumbleProduct[]> {
+    const response = await fetch(
+      `${this.baseUrl}/search?search=${encodeURIComponent(gameName)}&sort=bestselling&filter=all&request=1&page_size=20`
+    );
+    if (!response.ok) {
+      throw new Error(`Humble search returned status ${response.status}`);
+    }
+    const data = await response.json();
+    return data?.results ?? [];
+  }
+
+  // A Humble escolhe a moeda pelo país informado
+  async lookup(machineName: string, countryCode: string): Promise<HumbleProduct | null> {
+    const response = await fetch(
+      `${this.baseUrl}/lookup?products[]=${encodeURIComponent(machineName)}&request=1&country_code=${countryCode}`
+    );
+    if (!response.ok) {
+      throw new Error(`Humble lookup returned status ${response.status}`);
+    }
+    const data = await response.json();
+    return data?.result?.[0] ?? null;
+  }
+}
+
+export const createHumbleAdapter = (client: HumbleClient): StoreAdapter<StoreListing, HumbleProduct> => ({
+  store: 'Humble',
+
+  resolve: (ctx) => resolveStoreListing(ctx, 'Humble', async (gameName): Promise<ListingCandidate[]> => {
+    const products = await client.search(gameName);
+    return products.map(product => ({
+      productId: product.machine_name,
+      slug: product.human_url,
+      title: product.human_name,
+    }));
+  }),
+
+  fetchPrice: async (listing, ctx) => {
+    ctx.onUpstreamRequest?.();
+    const product = await client.lookup(listing.productId, ctx.region.countryCode);
+
+    // Sem preço na moeda da região a Humble não vende para o país
+    if (!product?.current_price || product.current_price.currency !== ctx.region.currency) {
+      console.log(`Humble: no ${ctx.region.currency} price for ${listing.productId}`);
+      return null;
+    }
+    return product;
+  },
+
+  normalize: (product, listing) => {
+    const finalPrice = product.current_price!.amount;
+    const basePrice = product.full_price?.amount ?? finalPrice;
+    if (basePrice <= 0) return null;
+
+    return {
+      store: 'Humble',
+      currency: product.current_price!.currency,
+      discount: basePrice > finalPrice ? Math.round(((basePrice - finalPrice) / basePrice) * 100) : 0,
+      buyUrl: `https://www.humblebundle.com/store/${listing.slug ?? product.human_url}`,
+      available: true,
+      numericPrice: finalPrice,
+      numericOriginalPrice: basePrice,
+      isKeyReseller: true,
+      redemptionPlatform: normalizeRedemptionPlatform(product.delivery_methods),
+    };
+  },
+});
+
+export const humbleAdapter = createHumbleAdapter(new HumbleApiClient());
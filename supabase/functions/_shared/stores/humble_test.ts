@@ -0,0 +1,64 @@
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert/strict';
+import { createHumbleAdapter, HumbleApiClient } from './humble.ts';
+import { fixtureContext } from './fixtures/context.ts';
+import { jsonResponse, withRecordedFetch, type RecordedCall } from './fixtures/fetch.ts';
+import { runAdapter } from './index.ts';
+import searchHollowKnight from './fixtures/humble/search-hollow-knight.json' with { type: 'json' };
+import searchEmpty from './fixtures/humble/search-empty.json' with { type: 'json' };
+import lookupHollowKnight from './fixtures/humble/lookup-hollowknight-us.json' with { type: 'json' };
+
+const adapter = createHumbleAdapter(new HumbleApiClient());
+
+const humbleRoute = (call: RecordedCall) => {
+  if (call.url.pathname === '/store/api/search') {
+    return jsonResponse(call.url.searchParams.get('search') === 'Hollow Knight' ? searchHollowKnight : searchEmpty);
+  }
+  // Humble não vende em reais: no Brasil a resposta vem em dólar, igual à dos EUA
+  if (call.url.pathname === '/store/api/lookup' && call.url.searchParams.get('products[]') === 'hollowknight_storefront') {
+    return jsonResponse(lookupHollowKnight);
+  }
+};
+
+Deno.test('Humble picks the game over its soundtrack', () =>
+  withRecordedFetch(humbleRoute, async (calls) => {
+    const listing = await adapter.resolve(fixtureContext('Hollow Knight', 'US'));
+
+    deepStrictEqual(listing, { productId: 'hollowknight_storefront', slug: 'hollow-knight' });
+    strictEqual(calls[0].url.searchParams.get('page_size'), '20');
+  }));
+
+Deno.test('Humble prices are flagged as Steam keys from a reseller', () =>
+  withRecordedFetch(humbleRoute, async (calls) => {
+    const price = await runAdapter(adapter, fixtureContext('Hollow Knight', 'US'));
+
+    deepStrictEqual(price, {
+      store: 'Humble',
+      currency: 'USD',
+      discount: 50,
+      buyUrl: 'https://www.humblebundle.com/store/hollow-knight',
+      available: true,
+      numericPrice: 7.49,
+      numericOriginalPrice: 14.99,
+      isKeyReseller: true,
+      redemptionPlatform: 'Steam',
+    });
+    strictEqual(calls[1].url.searchParams.get('country_code'), 'US');
+  }));
+
+Deno.test('Humble has no price when it charges another currency in the region', () =>
+  withRecordedFetch(humbleRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Hollow Knight', 'BR')), null);
+  }));
+
+Deno.test('Humble has no price when the search comes back empty', () =>
+  withRecordedFetch(humbleRoute, async () => {
+    const ctx = fixtureContext('Cyberpunk 2077', 'US');
+
+    strictEqual(await runAdapter(adapter, ctx), null);
+    strictEqual(ctx.listings[0].store_product_id, null);
+  }));
+
+Deno.test('Humble fails when the API answers with an error status', () =>
+  withRecordedFetch(() => jsonResponse({ error: 'Too Many Requests' }, 429), async () => {
+    await rejects(adapter.resolve(fixtureContext('Hollow Knight', 'US')), /Humble search returned status 429/);
+  }));
@@ -0,0 +1,95 @@
+import { steamAdapter } from './steam.ts';
+import { gogAdapter } from './gog.ts';
+import { epicAdapter } from './epic.ts';
+import { humbleAdapter } from './humble.ts';
+import { fanaticalAdapter } from './fanatical.ts';
+import { gmgAdapter } from './gmg.ts';
+import { nuuvemAdapter } from './nuuvem.ts';
+import { microsoftAdapter } from './microsoft.ts';
+import type { AdapterContext, StoreAdapter, StorePrice } from './types.ts';
+
+export type { AdapterContext, StoreAdapter, StorePrice } from './types.ts';
+
+const DEFAULT_ADAPTER_TIMEOUT_MS = 8000;
+
+// Para adicionar uma loja nova basta escrever o adapter e registrá-lo aqui
+export const storeAdapters: StoreAdapter[] = [
+  steamAdapter as StoreAdapter,
+  gogAdapter as StoreAdapter,
+  epicAdapter as StoreAdapter,
+  humbleAdapter as StoreAdapter,
+  fanaticalAdapter as StoreAdapter,
+  gmgAdapter as StoreAdapter,
+  nuuvemAdapter as StoreAdapter,
+  microsoftAdapter as StoreAdapter,
+];
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, label: string): Promise<T> => {
+  let timer: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${label} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// Um adapter do começo ao fim: resolve, fetchPrice e normalize (ou unavailable quando não há preço)
+export const runAdapter = async <TRef, TRaw>(
+  adapter: StoreAdapter<TRef, TRaw>,
+  ctx: AdapterContext,
+): Promise<StorePrice | null> => {
+  const ref = await adapter.resolve(ctx);
+  if (ref === null) return null;
+
+  const raw = await adapter.fetchPrice(ref, ctx);
+  if (raw === null) return adapter.unavailable?.(ctx) ?? null;
+
+  return adapter.normalize(raw, ref, ctx);
+};
+
+export interface AdapterOutcome {
+  store: string;
+  ok: boolean;
+  durationMs: number;
+  // Houve requisição à loja; resultados só de cache não gastam orçamento nem contam na saúde da loja
+  upstream: boolean;
+  error?: string;
+}
+
+export interface RunAdaptersOptions {
+  adapters?: StoreAdapter[];
+  // Chamado ao fim de cada adapter, com sucesso ou falha (inclui timeout)
+  onOutcome?: (outcome: AdapterOutcome) => void;
+}
+
+// Executa todos os adapters em paralelo, cada um com seu próprio timeout
+export const runAdapters = async (
+  ctx: AdapterContext,
+  { adapters = storeAdapters, onOutcome }: RunAdaptersOptions = {},
+): Promise<StorePrice[]> => {
+  const results = await Promise.all(adapters.map(async (adapter) => {
+    const startedAt = Date.now();
+    let upstream = false;
+    const adapterCtx: AdapterContext = { ...ctx, onUpstreamRequest: () => { upstream = true; } };
+    try {
+      const price = await withTimeout(
+        runAdapter(adapter, adapterCtx),
+        adapter.timeoutMs ?? DEFAULT_ADAPTER_TIMEOUT_MS,
+        adapter.store,
+      );
+      onOutcome?.({ store: adapter.store, ok: true, durationMs: Date.now() - startedAt, upstream });
+      return price;
+    } catch (error) {
+      console.error(`Error fetching ${adapter.store} price:`, error);
+      onOutcome?.({
+        store: adapter.store,
+        ok: false,
+        durationMs: Date.now() - startedAt,
+        upstream,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return adapter.unavailable?.(ctx) ?? null;
+    }
+  }));
+
+  return results.filter((price): price is StorePrice => price !== null);
+};
@@ -0,0 +1,41 @@
+import { deepStrictEqual } from 'node:assert/strict';
+import { fixtureContext } from './fixtures/context.ts';
+import { runAdapters, type AdapterOutcome, type StoreAdapter } from './index.ts';
+import { resolveStoreListing, type StoreListing } from './listings.ts';
+
+// Loja que não tem o jogo: a primeira busca vai à loja, as seguintes saem do registro negativo
+const missingGameAdapter: StoreAdapter<StoreListing, unknown> = {
+  store: 'Store',
+  resolve: (ctx) => resolveStoreListing(ctx, 'Store', () => Promise.resolve([])),
+  fetchPrice: () => Promise.resolve(null),
+  normalize: () => null,
+};
+
+const failingAdapter: StoreAdapter<string, unknown> = {
+  store: 'Failing',
+  resolve: () => Promise.reject(new Error('database unavailable')),
+  fetchPrice: () => Promise.resolve(null),
+  normalize: () => null,
+};
+
+Deno.test('runAdapters flags the outcomes that reached the store', async () => {
+  const ctx = fixtureContext('Hades');
+  const outcomes: AdapterOutcome[] = [];
+  const onOutcome = (outcome: AdapterOutcome) => outcomes.push(outcome);
+
+  await runAdapters(ctx, { adapters: [missingGameAdapter as StoreAdapter], onOutcome });
+  await runAdapters(ctx, { adapters: [missingGameAdapter as StoreAdapter], onOutcome });
+
+  deepStrictEqual(outcomes.map(outcome => outcome.upstream), [true, false]);
+});
+
+Deno.test('runAdapters does not flag a failure before any store request', async () => {
+  const outcomes: AdapterOutcome[] = [];
+
+  await runAdapters(fixtureContext('Hades'), {
+    adapters: [failingAdapter as StoreAdapter],
+    onOutcome: (outcome) => outcomes.push(outcome),
+  });
+
+  deepStrictEqual(outcomes.map(({ ok, upstream }) => ({ ok, upstream })), [{ ok: false, upstream: false }]);
+});
@@ -0,0 +1,89 @@
+import { findBestTitleMatch } from '../title-match.ts';
+import type { AdapterContext } from './types.ts';
+
+export interface StoreListing {
+  productId: string;
+  slug: string | null;
+}
+
+export interface ListingCandidate extends StoreListing {
+  title: string;
+}
+
+// Abaixo disso o título encontrado é considerado outro jogo
+export const MIN_MATCH_CONFIDENCE = 0.8;
+
+// Tempo até procurar de novo, na mesma região, um jogo que não foi encontrado na loja
+const NEGATIVE_MATCH_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Resolve o produto de uma loja para o appid da Steam usando a tabela store_listings.
+ * Se ainda não existe registro, busca o catálogo da loja pelo nome do jogo na Steam
+ * e grava o melhor resultado (ou a ausência dele) para as próximas buscas.
+ * O produto encontrado vale para todas as regiões; a ausência só para a região da busca (not_found_at).
+ * searchCatalog deve lançar erro quando a loja falha: [] significa que a busca funcionou e não achou nada.
+ */
+export const resolveStoreListing = async (
+  ctx: AdapterContext,
+  store: string,
+  searchCatalog: (gameName: string) => Promise<ListingCandidate[]>,
+): Promise<StoreListing | null> => {
+  const { data: listing, error } = await ctx.supabase
+    .from('store_listings')
+    .select('store_product_id, slug, not_found_at')
+    .eq('appid', ctx.appid)
+    .eq('store', store)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error reading ${store} listing for appid ${ctx.appid}:`, error);
+  }
+
+  if (listing?.store_product_id) {
+    return { productId: listing.store_product_id, slug: listing.slug };
+  }
+
+  const notFoundAt: { [region: string]: string } = listing?.not_found_at ?? {};
+  const lastMiss = notFoundAt[ctx.region.code];
+  const recentlyChecked = lastMiss && Date.now() - new Date(lastMiss).getTime() < NEGATIVE_MATCH_TTL_MS;
+  if (recentlyChecked || !ctx.gameName) {
+    console.log(`No ${store} listing found for Steam appid ${ctx.appid} in ${ctx.region.code}`);
+    return null;
+  }
+
+  // Uma falha na busca sobe sem gravar nada; só uma busca que respondeu sem o jogo vira registro negativo
+  ctx.onUpstreamRequest?.();
+  const candidates = await searchCatalog(ctx.gameName);
+  const match = findBestTitleMatch(ctx.gameName, candidates, (candidate) => candidate.title);
+  const accepted = match && match.confidence >= MIN_MATCH_CONFIDENCE ? match : null;
+
+  console.log(
+    accepted
+      ? `Matched "${ctx.gameName}" to ${store} "${accepted.candidate.title}" (confidence ${accepted.confidence.toFixed(2)})`
+      : `No ${store} match for "${ctx.gameName}" in ${ctx.region.code}`
+  );
+
+  // Sem conseguir ler o registro atual, um negativo poderia sobrescrever um produto já conhecido
+  if (!accepted && error) return null;
+
+  const { error: upsertError } = await ctx.supabase
+    .from('store_listings')
+    .upsert({
+      appid: ctx.appid,
+      store,
+      store_product_id: accepted?.candidate.productId ?? null,
+      slug: accepted?.candidate.slug ?? null,
+      store_title: accepted?.candidate.title ?? null,
+      match_confidence: accepted?.confidence ?? 0,
+      matched_by: 'title',
+      not_found_at: accepted ? {} : { ...notFoundAt, [ctx.region.code]: new Date().toISOString() },
+    }, {
+      onConflict: 'appid,store'
+    });
+
+  if (upsertError) {
+    console.error(`Error saving ${store} listing for appid ${ctx.appid}:`, upsertError);
+  }
+
+  return accepted ? { productId: accepted.candidate.productId, slug: accepted.candidate.slug } : null;
+};
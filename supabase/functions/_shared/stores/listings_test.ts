@@ -0,0 +1,50 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { resolveStoreListing, type ListingCandidate } from './listings.ts';
+import { fixtureContext } from './fixtures/context.ts';
+import { REGIONS } from '../regions.ts';
+
+// Catálogo que só tem o jogo nas regiões listadas, contando as buscas
+const regionalCatalog = (regions: string[]) => {
+  const searches: string[] = [];
+  const search = (region: string) => (gameName: string): Promise<ListingCandidate[]> => {
+    searches.push(region);
+    return Promise.resolve(regions.includes(region) ? [{ productId: 'p-1', slug: 'hades', title: gameName }] : []);
+  };
+  return { searches, search };
+};
+
+Deno.test('resolveStoreListing remembers a missing game only for the region searched', async () => {
+  const br = fixtureContext('Hades', 'BR');
+  const us = { ...br, region: REGIONS.US };
+  const catalog = regionalCatalog(['US']);
+
+  strictEqual(await resolveStoreListing(br, 'Store', catalog.search('BR')), null);
+  strictEqual(await resolveStoreListing(br, 'Store', catalog.search('BR')), null);
+  deepStrictEqual(await resolveStoreListing(us, 'Store', catalog.search('US')), { productId: 'p-1', slug: 'hades' });
+
+  deepStrictEqual(catalog.searches, ['BR', 'US']);
+  strictEqual(br.listings.length, 1);
+  deepStrictEqual(br.listings[0].not_found_at, {});
+});
+
+Deno.test('resolveStoreListing reuses a found product in every region', async () => {
+  const us = fixtureContext('Hades', 'US');
+  const eu = { ...us, region: REGIONS.EU };
+  const catalog = regionalCatalog(['US']);
+
+  await resolveStoreListing(us, 'Store', catalog.search('US'));
+
+  deepStrictEqual(await resolveStoreListing(eu, 'Store', catalog.search('EU')), { productId: 'p-1', slug: 'hades' });
+  deepStrictEqual(catalog.searches, ['US']);
+});
+
+Deno.test('resolveStoreListing keeps the misses of other regions', async () => {
+  const br = fixtureContext('Hades', 'BR');
+  const uk = { ...br, region: REGIONS.UK };
+  const catalog = regionalCatalog([]);
+
+  await resolveStoreListing(br, 'Store', catalog.search('BR'));
+  await resolveStoreListing(uk, 'Store', catalog.search('UK'));
+
+  deepStrictEqual(Object.keys(br.listings[0].not_found_at as object), ['BR', 'UK']);
+});
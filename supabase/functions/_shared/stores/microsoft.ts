@@ -0,0 +1,109 @@
+import { resolveStoreListing, type ListingCandidate, type StoreListing } from './listings.ts';
+import type { StoreAdapter } from './types.ts';
+
+export interface MicrosoftSearchItem {
+  ProductId: string;
+  Title: string;
+}
+
+export interface MicrosoftPrice {
+  ListPrice: number;
+  MSRP: number;
+  CurrencyCode: string;
+}
+
+export interface MicrosoftProduct {
+  ProductId: string;
+  DisplaySkuAvailabilities: {
+    Availabilities: {
+      Actions: string[];
+      OrderManagementData?: { Price: MicrosoftPrice };
+    }[];
+  }[];
+}
+
+// Acesso ao catálogo da Microsoft Store; os testes trocam o fetch pelas respostas gravadas em fixtures/microsoft/
+export interface MicrosoftClient {
+  search(gameName: string, market: string, locale: string): Promise<MicrosoftSearchItem[]>;
+  fetchProduct(productId: string, market: string, locale: string): Promise<MicrosoftProduct | null>;
+}
+
+export class MicrosoftCatalogClient implements MicrosoftClient {
+  constructor(
+    private readonly searchUrl = 'https://storeedgefd.dsx.mp.microsoft.com/v9.0/search',
+    private readonly catalogUrl = 'https://displaycatalog.mp.microsoft.com/v7.0/products',
+  ) {}
+
+  // Só o catálogo de PC (Windows.Desktop), sem os jogos exclusivos de console
+  async search(gameName: string, market: string, locale: string): Promise<MicrosoftSearchItem[]> {
+    const response = await fetch(
+      `${this.searchUrl}?market=${market}&locale=${locale}&query=${encodeURIComponent(gameName)}&mediaType=games&deviceFamily=Windows.Desktop`
+    );
+    if (!response.ok) {
+      throw new Error(`Microsoft Store search returned status ${response.status}`);
+    }
+    const data = await response.json();
+    return data?.Data ?? [];
+  }
+
+  async fetchProduct(productId: string, market: string, locale: string): Promise<MicrosoftProduct | null> {
+    const response = await fetch(
+      `${this.catalogUrl}?bigIds=${encodeURIComponent(productId)}&market=${market}&languages=${locale}`
+    );
+    if (!response.ok) {
+      throw new Error(`Microsoft Store catalog returned status ${response.status}`);
+    }
+    const data = await response.json();
+    return data?.Products?.[0] ?? null;
+  }
+}
+
+// Preço da primeira disponibilidade que pode ser comprada
+const purchasablePrice = (product: MicrosoftProduct): MicrosoftPrice | null => {
+  for (const sku of product.DisplaySkuAvailabilities ?? []) {
+    for (const availability of sku.Availabilities ?? []) {
+      if (availability.Actions?.includes('Purchase') && availability.OrderManagementData?.Price) {
+        return availability.OrderManagementData.Price;
+      }
+    }
+  }
+  return null;
+};
+
+export const createMicrosoftAdapter = (client: MicrosoftClient): StoreAdapter<StoreListing, MicrosoftPrice> => ({
+  store: 'Microsoft Store',
+
+  resolve: (ctx) => resolveStoreListing(ctx, 'Microsoft Store', async (gameName): Promise<ListingCandidate[]> => {
+    const items = await client.search(gameName, ctx.region.countryCode, ctx.region.locale);
+    return items.map(item => ({ productId: item.ProductId, slug: null, title: item.Title }));
+  }),
+
+  fetchPrice: async (listing, ctx) => {
+    ctx.onUpstreamRequest?.();
+    const product = await client.fetchProduct(listing.productId, ctx.region.countryCode, ctx.region.locale);
+    const price = product ? purchasablePrice(product) : null;
+    if (!price || price.CurrencyCode !== ctx.region.currency) {
+      console.log(`Microsoft Store: no ${ctx.region.currency} price for ${listing.productId}`);
+      return null;
+    }
+    return price;
+  },
+
+  normalize: (price, listing) => {
+    const basePrice = price.MSRP > 0 ? price.MSRP : price.ListPrice;
+    // Jogos gratuitos ou só no Game Pass vêm com preço zero
+    if (basePrice <= 0 || price.ListPrice <= 0) return null;
+
+    return {
+      store: 'Microsoft Store',
+      currency: price.CurrencyCode,
+      discount: basePrice > price.ListPrice ? Math.round(((basePrice - price.ListPrice) / basePrice) * 100) : 0,
+      buyUrl: `https://www.microsoft.com/store/productId/${listing.productId}`,
+      available: true,
+      numericPrice: price.ListPrice,
+      numericOriginalPrice: basePrice,
+    };
+  },
+});
+
+export const microsoftAdapter = createMicrosoftAdapter(new MicrosoftCatalogClient());
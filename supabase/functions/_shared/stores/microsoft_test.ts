@@ -0,0 +1,80 @@
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert/strict';
+import { createMicrosoftAdapter, MicrosoftCatalogClient } from './microsoft.ts';
+import { fixtureContext } from './fixtures/context.ts';
+import { jsonResponse, withRecordedFetch, type RecordedCall } from './fixtures/fetch.ts';
+import { runAdapter } from './index.ts';
+import searchCyberpunk from './fixtures/microsoft/search-cyberpunk-2077.json' with { type: 'json' };
+import searchHollowKnight from './fixtures/microsoft/search-hollow-knight.json' with { type: 'json' };
+import searchEmpty from './fixtures/microsoft/search-empty.json' with { type: 'json' };
+import productCyberpunkUs from './fixtures/microsoft/product-9PFR0SP3DD7K-us.json' with { type: 'json' };
+import productCyberpunkTr from './fixtures/microsoft/product-9PFR0SP3DD7K-tr.json' with { type: 'json' };
+import productEmpty from './fixtures/microsoft/product-empty.json' with { type: 'json' };
+
+const adapter = createMicrosoftAdapter(new MicrosoftCatalogClient());
+
+const SEARCHES: { [query: string]: unknown } = {
+  'Cyberpunk 2077': searchCyberpunk,
+  'Hollow Knight': searchHollowKnight,
+};
+
+const PRODUCTS: { [key: string]: unknown } = {
+  '9PFR0SP3DD7K:US': productCyberpunkUs,
+  // Na Turquia a loja cobra em liras, fora da moeda da região (USD)
+  '9PFR0SP3DD7K:TR': productCyberpunkTr,
+};
+
+const microsoftRoute = (call: RecordedCall) => {
+  if (call.url.hostname === 'storeedgefd.dsx.mp.microsoft.com') {
+    return jsonResponse(SEARCHES[call.url.searchParams.get('query') ?? ''] ?? searchEmpty);
+  }
+  if (call.url.hostname === 'displaycatalog.mp.microsoft.com') {
+    const key = `${call.url.searchParams.get('bigIds')}:${call.url.searchParams.get('market')}`;
+    return jsonResponse(PRODUCTS[key] ?? productEmpty);
+  }
+};
+
+Deno.test('Microsoft Store uses the purchasable availability, not the Game Pass one', () =>
+  withRecordedFetch(microsoftRoute, async (calls) => {
+    const price = await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'US'));
+
+    // Loja oficial: sem os campos de revendedora
+    deepStrictEqual(price, {
+      store: 'Microsoft Store',
+      currency: 'USD',
+      discount: 50,
+      buyUrl: 'https://www.microsoft.com/store/productId/9PFR0SP3DD7K',
+      available: true,
+      numericPrice: 29.99,
+      numericOriginalPrice: 59.99,
+    });
+    strictEqual(calls[0].url.searchParams.get('deviceFamily'), 'Windows.Desktop');
+    strictEqual(calls[1].url.searchParams.get('languages'), 'en-US');
+  }));
+
+Deno.test('Microsoft Store has no price when it charges another currency in the region', () =>
+  withRecordedFetch(microsoftRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'TR')), null);
+  }));
+
+Deno.test('Microsoft Store has no price when the catalog returns no product', () =>
+  withRecordedFetch(microsoftRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'BR')), null);
+  }));
+
+Deno.test('Microsoft Store does not link a different edition name below the threshold', () =>
+  withRecordedFetch(microsoftRoute, async () => {
+    strictEqual(await adapter.resolve(fixtureContext('Hollow Knight')), null);
+  }));
+
+Deno.test('Microsoft Store has no price when the search comes back empty', () =>
+  withRecordedFetch(microsoftRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Stardew Valley')), null);
+  }));
+
+Deno.test('Microsoft Store fails when the catalog answers with an error status', () =>
+  withRecordedFetch(
+    (call) => call.url.hostname === 'displaycatalog.mp.microsoft.com' ? jsonResponse({}, 503) : microsoftRoute(call),
+    async () => {
+      await rejects(runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'US')), /Microsoft Store catalog returned status 503/);
+    },
+  ));
@@ -0,0 +1,97 @@
+import { resolveStoreListing, type ListingCandidate, type StoreListing } from './listings.ts';
+import { normalizeRedemptionPlatform } from './redemption.ts';
+import type { PriceRegion } from '../regions.ts';
+import type { StoreAdapter } from './types.ts';
+
+export interface NuuvemSearchItem {
+  sku: string;
+  name: string;
+  slug: string;
+}
+
+export interface NuuvemProduct {
+  sku: string;
+  name: string;
+  slug: string;
+  price: {
+    // Valores em centavos
+    value: number;
+    original: number;
+    currency: string;
+  } | null;
+  drm: string | null;
+  available: boolean;
+}
+
+// Acesso à API da Nuuvem; os testes trocam o fetch pelas respostas gravadas em fixtures/nuuvem/
+export interface NuuvemClient {
+  search(gameName: string): Promise<NuuvemSearchItem[]>;
+  fetchProduct(sku: string, countryCode: string): Promise<NuuvemProduct | null>;
+}
+
+export class NuuvemApiClient implements NuuvemClient {
+  constructor(private readonly baseUrl = 'https://www.nuuvem.com/api/v1') {}
+
+  async search(gameName: string): Promise<NuuvemSearchItem[]> {
+    const response = await fetch(`${this.baseUrl}/catalog/search?query=${encodeURIComponent(gameName)}&types=game`);
+    if (!response.ok) {
+      throw new Error(`Nuuvem search returned status ${response.status}`);
+    }
+    const data = await response.json();
+    return data?.products ?? [];
+  }
+
+  async fetchProduct(sku: string, countryCode: string): Promise<NuuvemProduct | null> {
+    const response = await fetch(`${this.baseUrl}/products/${encodeURIComponent(sku)}?country=${countryCode}`);
+    if (!response.ok) {
+      throw new Error(`Nuuvem product returned status ${response.status}`);
+    }
+    return await response.json();
+  }
+}
+
+// A loja de cada país fica em /<país>-<idioma>/, ex.: /br-pt/ no Brasil e /ar-es/ na Argentina
+const nuuvemStorePath = (region: PriceRegion) =>
+  `${region.countryCode.toLowerCase()}-${region.locale.split('-')[0]}`;
+
+export const createNuuvemAdapter = (client: NuuvemClient): StoreAdapter<StoreListing, NuuvemProduct> => ({
+  store: 'Nuuvem',
+
+  resolve: (ctx) => resolveStoreListing(ctx, 'Nuuvem', async (gameName): Promise<ListingCandidate[]> => {
+    const items = await client.search(gameName);
+    return items.map(item => ({ productId: item.sku, slug: item.slug, title: item.name }));
+  }),
+
+  fetchPrice: async (listing, ctx) => {
+    ctx.onUpstreamRequest?.();
+    const product = await client.fetchProduct(listing.productId, ctx.region.countryCode);
+
+    // A Nuuvem atende a América Latina; fora dela o preço vem em outra moeda ou não vem
+    if (!product?.available || !product.price || product.price.currency !== ctx.region.currency) {
+      console.log(`Nuuvem: no ${ctx.region.currency} price for ${listing.productId}`);
+      return null;
+    }
+    return product;
+  },
+
+  normalize: (product, listing, ctx) => {
+    const finalPrice = product.price!.value / 100;
+    const basePrice = (product.price!.original || product.price!.value) / 100;
+    if (basePrice <= 0) return null;
+
+    return {
+      store: 'Nuuvem',
+      currency: product.price!.currency,
+      discount: basePrice > finalPrice ? Math.round(((basePrice - finalPrice) / basePrice) * 100) : 0,
+      buyUrl: `https://www.nuuvem.com/${nuuvemStorePath(ctx.region)}/item/${listing.slug ?? product.slug}`,
+      available: true,
+      numericPrice: finalPrice,
+      numericOriginalPrice: basePrice,
+      // A Nuuvem vende chaves ativadas em outras plataformas, quase sempre na Steam
+      isKeyReseller: true,
+      redemptionPlatform: normalizeRedemptionPlatform([product.drm]),
+    };
+  },
+});
+
+export const nuuvemAdapter = createNuuvemAdapter(new NuuvemApiClient());
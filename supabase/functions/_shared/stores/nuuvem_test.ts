@@ -0,0 +1,81 @@
+import { deepStrictEqual, rejects, strictEqual } from 'node:assert/strict';
+import { createNuuvemAdapter, NuuvemApiClient } from './nuuvem.ts';
+import { fixtureContext } from './fixtures/context.ts';
+import { jsonResponse, withRecordedFetch, type RecordedCall } from './fixtures/fetch.ts';
+import { runAdapter } from './index.ts';
+import searchCyberpunk from './fixtures/nuuvem/search-cyberpunk-2077.json' with { type: 'json' };
+import searchHollowKnight from './fixtures/nuuvem/search-hollow-knight.json' with { type: 'json' };
+import searchEmpty from './fixtures/nuuvem/search-empty.json' with { type: 'json' };
+import productCyberpunkBr from './fixtures/nuuvem/product-cyberpunk-2077-br.json' with { type: 'json' };
+import productCyberpunkAr from './fixtures/nuuvem/product-cyberpunk-2077-ar.json' with { type: 'json' };
+import productHollowKnightAr from './fixtures/nuuvem/product-hollow-knight-ar.json' with { type: 'json' };
+
+const adapter = createNuuvemAdapter(new NuuvemApiClient());
+
+const SEARCHES: { [query: string]: unknown } = {
+  'Cyberpunk 2077': searchCyberpunk,
+  'Hollow Knight': searchHollowKnight,
+};
+
+const PRODUCTS: { [key: string]: unknown } = {
+  'cyberpunk-2077:BR': productCyberpunkBr,
+  'cyberpunk-2077:AR': productCyberpunkAr,
+  // Fora da América Latina a Nuuvem devolve o preço em reais
+  'cyberpunk-2077:US': productCyberpunkBr,
+  // Na Argentina a Nuuvem cobra em dólar, mas este jogo não está à venda lá
+  'hollow-knight:AR': productHollowKnightAr,
+};
+
+const nuuvemRoute = (call: RecordedCall) => {
+  if (call.url.pathname === '/api/v1/catalog/search') {
+    return jsonResponse(SEARCHES[call.url.searchParams.get('query') ?? ''] ?? searchEmpty);
+  }
+  const sku = call.url.pathname.replace('/api/v1/products/', '');
+  const product = PRODUCTS[`${sku}:${call.url.searchParams.get('country')}`];
+  return product ? jsonResponse(product) : undefined;
+};
+
+Deno.test('Nuuvem converts cents and flags the GOG key', () =>
+  withRecordedFetch(nuuvemRoute, async () => {
+    const price = await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'BR'));
+
+    deepStrictEqual(price, {
+      store: 'Nuuvem',
+      currency: 'BRL',
+      discount: 55,
+      buyUrl: 'https://www.nuuvem.com/br-pt/item/cyberpunk-2077',
+      available: true,
+      numericPrice: 89.95,
+      numericOriginalPrice: 199.9,
+      isKeyReseller: true,
+      redemptionPlatform: 'GOG',
+    });
+  }));
+
+Deno.test('Nuuvem links the store of the region', () =>
+  withRecordedFetch(nuuvemRoute, async () => {
+    const price = await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'AR'));
+
+    strictEqual(price?.buyUrl, 'https://www.nuuvem.com/ar-es/item/cyberpunk-2077');
+    strictEqual(price?.numericPrice, 29.99);
+  }));
+
+Deno.test('Nuuvem has no price when it charges another currency in the region', () =>
+  withRecordedFetch(nuuvemRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Cyberpunk 2077', 'US')), null);
+  }));
+
+Deno.test('Nuuvem has no price when the game is not for sale in the region', () =>
+  withRecordedFetch(nuuvemRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Hollow Knight', 'AR')), null);
+  }));
+
+Deno.test('Nuuvem has no price when the search comes back empty', () =>
+  withRecordedFetch(nuuvemRoute, async () => {
+    strictEqual(await runAdapter(adapter, fixtureContext('Stardew Valley')), null);
+  }));
+
+Deno.test('Nuuvem fails when the API answers with an error status', () =>
+  withRecordedFetch(() => jsonResponse({ error: 'Bad Gateway' }, 502), async () => {
+    await rejects(adapter.resolve(fixtureContext('Cyberpunk 2077')), /Nuuvem search returned status 502/);
+  }));
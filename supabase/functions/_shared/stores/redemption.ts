@@ -0,0 +1,31 @@
+// Nomes que as revendedoras usam para a plataforma de ativação da chave
+const PLATFORM_ALIASES: { [alias: string]: string } = {
+  steam: 'Steam',
+  epic: 'Epic Games',
+  'epic games': 'Epic Games',
+  'epic games store': 'Epic Games',
+  gog: 'GOG',
+  'gog.com': 'GOG',
+  uplay: 'Ubisoft Connect',
+  ubisoft: 'Ubisoft Connect',
+  'ubisoft connect': 'Ubisoft Connect',
+  origin: 'EA App',
+  ea: 'EA App',
+  'ea app': 'EA App',
+  battlenet: 'Battle.net',
+  'battle.net': 'Battle.net',
+  rockstar: 'Rockstar Games Launcher',
+  'rockstar games launcher': 'Rockstar Games Launcher',
+  microsoft: 'Microsoft Store',
+  xbox: 'Microsoft Store',
+};
+
+// Primeira plataforma reconhecida da lista; as desconhecidas seguem com o nome original
+export const normalizeRedemptionPlatform = (platforms: (string | null | undefined)[]): string | null => {
+  const names = platforms.filter((platform): platform is string => !!platform?.trim());
+  for (const name of names) {
+    const known = PLATFORM_ALIASES[name.trim().toLowerCase()];
+    if (known) return known;
+  }
+  return names[0]?.trim() ?? null;
+};
@@ -0,0 +1,51 @@
+import { fetchAppDetails, type SteamPriceOverview } from '../steam.ts';
+import type { StoreAdapter, StorePrice } from './types.ts';
+
+const steamBuyUrl = (appid: string) => `https://store.steampowered.com/app/${appid}`;
+
+export const steamAdapter: StoreAdapter<string, SteamPriceOverview> = {
+  store: 'Steam',
+
+  // O appid da Steam já é o identificador do jogo
+  resolve: async (ctx) => ctx.appid,
+
+  // Mesma consulta usada para o nome do jogo, então normalmente já vem do cache
+  fetchPrice: async (appid, ctx) => {
+    const details = await fetchAppDetails(ctx.supabase, appid, {
+      countryCode: ctx.region.countryCode,
+      onRequest: ctx.onUpstreamRequest,
+    });
+    return details?.price_overview ?? null;
+  },
+
+  // A Steam devolve o preço na moeda do país consultado; se vier outra, não entra na comparação
+  normalize: (priceData, appid, ctx) => {
+    if (priceData.currency !== ctx.region.currency) {
+      console.log(`Steam: no ${ctx.region.currency} price for appid ${appid} (got ${priceData.currency})`);
+      return null;
+    }
+
+    const finalPrice = priceData.final / 100;
+    const initialPrice = priceData.initial / 100;
+
+    return {
+      store: 'Steam',
+      currency: priceData.currency,
+      discount: priceData.discount_percent,
+      buyUrl: steamBuyUrl(appid),
+      available: true,
+      numericPrice: finalPrice,
+      numericOriginalPrice: initialPrice > 0 ? initialPrice : finalPrice
+    };
+  },
+
+  unavailable: (ctx): StorePrice => ({
+    store: 'Steam',
+    currency: ctx.region.currency,
+    discount: 0,
+    buyUrl: steamBuyUrl(ctx.appid),
+    available: false,
+    numericPrice: null,
+    numericOriginalPrice: null
+  }),
+};
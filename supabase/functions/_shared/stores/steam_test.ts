@@ -0,0 +1,32 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { steamAdapter } from './steam.ts';
+import { fixtureContext } from './fixtures/context.ts';
+
+Deno.test('Steam normalizes the price_overview in cents', () => {
+  const price = steamAdapter.normalize(
+    { currency: 'BRL', initial: 19990, final: 9995, discount_percent: 50 },
+    '1091500',
+    fixtureContext('Cyberpunk 2077', 'BR', '1091500'),
+  );
+
+  deepStrictEqual(price, {
+    store: 'Steam',
+    currency: 'BRL',
+    discount: 50,
+    buyUrl: 'https://store.steampowered.com/app/1091500',
+    available: true,
+    numericPrice: 99.95,
+    numericOriginalPrice: 199.9,
+  });
+});
+
+Deno.test('Steam has no price when it charges another currency in the region', () => {
+  // Argentina cobrada em pesos, fora da moeda da região (USD)
+  const price = steamAdapter.normalize(
+    { currency: 'ARS', initial: 4999800, final: 2499900, discount_percent: 50 },
+    '1091500',
+    fixtureContext('Cyberpunk 2077', 'AR', '1091500'),
+  );
+
+  strictEqual(price, null);
+});
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { PriceRegion } from '../regions.ts';
+
+// Preços em valor decimal na moeda da região; a formatação fica com quem exibe
+export interface StorePrice {
+  store: string;
+  currency: string;
+  discount: number;
+  buyUrl: string;
+  available: boolean;
+  numericPrice: number | null;
+  numericOriginalPrice: number | null;
+  // Revendedora autorizada: a compra entrega uma chave ativada em outra plataforma
+  isKeyReseller?: boolean;
+  // Plataforma onde a chave é ativada (Steam, Epic Games...), quando a loja informa
+  redemptionPlatform?: string | null;
+}
+
+// Dados compartilhados por todos os adapters durante uma busca de preços
+export interface AdapterContext {
+  appid: string;
+  gameName: string;
+  region: PriceRegion;
+  supabase: SupabaseClient;
+  // Avisado antes de cada requisição à loja; o que sai de store_listings ou steam_app_cache não avisa
+  onUpstreamRequest?: () => void;
+}
+
+/**
+ * Um adapter sabe buscar o preço de um jogo em uma loja.
+ *
+ * - resolve: descobre o identificador do jogo na loja (null = loja não vende o jogo)
+ * - fetchPrice: busca a resposta crua da API da loja
+ * - normalize: converte a resposta crua em um StorePrice (null = sem preço)
+ * - unavailable: entrada opcional retornada quando a loja falha ou estoura o timeout
+ */
+export interface StoreAdapter<TRef = unknown, TRaw = unknown> {
+  store: string;
+  timeoutMs?: number;
+  resolve(ctx: AdapterContext): Promise<TRef | null>;
+  fetchPrice(ref: TRef, ctx: AdapterContext): Promise<TRaw | null>;
+  normalize(raw: TRaw, ref: TRef, ctx: AdapterContext): StorePrice | null;
+  unavailable?(ctx: AdapterContext): StorePrice;
+}
@@ -0,0 +1,140 @@
+// Comparação aproximada de títulos entre lojas diferentes.
+// Steam e as outras lojas raramente usam exatamente o mesmo nome
+// ("The Witcher® 3: Wild Hunt" vs "The Witcher 3: Wild Hunt - Game of the Year Edition").
+
+// Do maior para o menor, para "digital deluxe edition" sair inteiro antes de "deluxe edition"
+const EDITION_SUFFIXES = [
+  'game of the year edition',
+  'game of the year',
+  'goty edition',
+  'goty',
+  'complete edition',
+  'definitive edition',
+  'enhanced edition',
+  'deluxe edition',
+  'digital deluxe edition',
+  'ultimate edition',
+  'standard edition',
+  'gold edition',
+  'anniversary edition',
+  'remastered',
+  'the final cut',
+  "director's cut",
+  'directors cut',
+].sort((a, b) => b.length - a.length);
+
+const ROMAN_NUMERALS: { [key: string]: string } = {
+  ii: '2',
+  iii: '3',
+  iv: '4',
+  v: '5',
+  vi: '6',
+  vii: '7',
+  viii: '8',
+  ix: '9',
+  x: '10',
+};
+
+// Palavras que indicam outro produto do mesmo jogo (trilha sonora, DLC, extras)
+const EXTRA_CONTENT_WORDS = [
+  'soundtrack',
+  'ost',
+  'dlc',
+  'artbook',
+  'art book',
+  'season pass',
+  'expansion pack',
+  'demo',
+  'playtest',
+  'wallpaper',
+  'wallpapers',
+];
+
+export const normalizeTitle = (title: string): string => {
+  let normalized = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[™®©]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .trim();
+
+  // Remove sufixos de edição (" - GOTY Edition", ": Director's Cut", ...);
+  // só como palavra separada, para um nome que só termina com as mesmas letras ficar inteiro
+  for (const suffix of EDITION_SUFFIXES) {
+    const index = normalized.lastIndexOf(suffix);
+    if (index > 0 && index + suffix.length === normalized.length && /[\s:-]/.test(normalized[index - 1])) {
+      normalized = normalized.slice(0, index);
+    }
+  }
+
+  const tokens = normalized
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+
+  // Numeral romano só no fim, depois do nome ("Grand Theft Auto V");
+  // no começo ou no meio costuma ser parte do nome ("V Rising", "Mega Man X Legacy Collection")
+  const last = tokens.length - 1;
+  if (last > 0 && ROMAN_NUMERALS[tokens[last]]) {
+    tokens[last] = ROMAN_NUMERALS[tokens[last]];
+  }
+
+  return tokens.join(' ');
+};
+
+const numberTokens = (normalized: string): string =>
+  normalized.split(' ').filter((token) => /^\d+$/.test(token)).join(' ');
+
+const extraContentWords = (normalized: string): string[] =>
+  EXTRA_CONTENT_WORDS.filter((word) => ` ${normalized} `.includes(` ${word} `));
+
+/**
+ * Títulos que nunca são o mesmo jogo, por mais palavras que compartilhem:
+ * números diferentes ("Dark Souls" vs "Dark Souls III") ou extras que só um deles tem
+ * ("Stardew Valley" vs "Stardew Valley Soundtrack").
+ */
+const areDifferentProducts = (left: string, right: string): boolean => {
+  if (numberTokens(left) !== numberTokens(right)) return true;
+  const leftExtras = extraContentWords(left);
+  const rightExtras = extraContentWords(right);
+  return leftExtras.length !== rightExtras.length || leftExtras.some((word) => !rightExtras.includes(word));
+};
+
+// Coeficiente de Dice sobre os tokens dos títulos normalizados (0 a 1)
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (areDifferentProducts(left, right)) return 0;
+
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = new Set(right.split(' '));
+  const shared = [...leftTokens].filter((token) => rightTokens.has(token)).length;
+
+  return (2 * shared) / (leftTokens.size + rightTokens.size);
+};
+
+export interface TitleMatch<T> {
+  candidate: T;
+  confidence: number;
+}
+
+export const findBestTitleMatch = <T>(
+  title: string,
+  candidates: T[],
+  getTitle: (candidate: T) => string,
+): TitleMatch<T> | null => {
+  let best: TitleMatch<T> | null = null;
+
+  for (const candidate of candidates) {
+    const confidence = titleSimilarity(title, getTitle(candidate));
+    if (!best || confidence > best.confidence) {
+      best = { candidate, confidence };
+    }
+  }
+
+  return best;
+};
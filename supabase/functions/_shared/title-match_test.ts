@@ -0,0 +1,62 @@
+import { strictEqual } from 'node:assert/strict';
+import { findBestTitleMatch, normalizeTitle, titleSimilarity } from './title-match.ts';
+import { MIN_MATCH_CONFIDENCE } from './stores/listings.ts';
+
+Deno.test('titleSimilarity ignores edition suffixes and trademark symbols', () => {
+  strictEqual(titleSimilarity('The Witcher® 3: Wild Hunt', 'The Witcher 3: Wild Hunt - Game of the Year Edition'), 1);
+});
+
+Deno.test('titleSimilarity removes the longest edition suffix', () => {
+  strictEqual(normalizeTitle('Hogwarts Legacy Digital Deluxe Edition'), 'hogwarts legacy');
+  strictEqual(titleSimilarity('Hogwarts Legacy', 'Hogwarts Legacy: Digital Deluxe Edition'), 1);
+});
+
+Deno.test('titleSimilarity only strips an edition suffix that is a separate word', () => {
+  strictEqual(normalizeTitle('Bigoty'), 'bigoty');
+  strictEqual(normalizeTitle('The Unremastered'), 'the unremastered');
+  strictEqual(normalizeTitle('Bigoty - GOTY'), 'bigoty');
+  strictEqual(normalizeTitle('Mafia II:Definitive Edition'), 'mafia 2');
+});
+
+Deno.test('titleSimilarity treats a trailing roman numeral as a number', () => {
+  strictEqual(titleSimilarity('Dark Souls III', 'DARK SOULS 3'), 1);
+  strictEqual(titleSimilarity('Grand Theft Auto V', 'Grand Theft Auto 5'), 1);
+});
+
+Deno.test('titleSimilarity keeps roman-looking words that are part of the name', () => {
+  strictEqual(normalizeTitle('V Rising'), 'v rising');
+  strictEqual(normalizeTitle('Mega Man X Legacy Collection'), 'mega man x legacy collection');
+  strictEqual(titleSimilarity('Mega Man X Legacy Collection', 'Mega Man 10 Legacy Collection'), 0);
+  strictEqual(titleSimilarity('V Rising', '5 Rising'), 0);
+});
+
+Deno.test('titleSimilarity rejects a different entry in the series', () => {
+  strictEqual(titleSimilarity('Dark Souls', 'Dark Souls III'), 0);
+  strictEqual(titleSimilarity('Divinity: Original Sin', 'Divinity: Original Sin 2'), 0);
+  strictEqual(titleSimilarity('Half-Life 2', 'Half-Life'), 0);
+});
+
+Deno.test('titleSimilarity rejects soundtracks, DLC and other extras', () => {
+  strictEqual(titleSimilarity('Stardew Valley', 'Stardew Valley Soundtrack'), 0);
+  strictEqual(titleSimilarity('Hollow Knight', 'Hollow Knight Artbook'), 0);
+  strictEqual(titleSimilarity('Cyberpunk 2077', 'Cyberpunk 2077 DLC'), 0);
+});
+
+Deno.test('titleSimilarity still matches two extras of the same kind', () => {
+  strictEqual(titleSimilarity('Hades Soundtrack', 'Hades - Original Soundtrack') >= MIN_MATCH_CONFIDENCE, true);
+});
+
+Deno.test('findBestTitleMatch skips the sequel and keeps the right game', () => {
+  const match = findBestTitleMatch(
+    'Dark Souls',
+    ['Dark Souls III', 'Dark Souls: Remastered', 'Dark Souls II: Scholar of the First Sin'],
+    (title) => title,
+  );
+  strictEqual(match?.candidate, 'Dark Souls: Remastered');
+  strictEqual(match!.confidence >= MIN_MATCH_CONFIDENCE, true);
+});
+
+Deno.test('findBestTitleMatch finds nothing above the threshold when only extras match', () => {
+  const match = findBestTitleMatch('Stardew Valley', ['Stardew Valley Soundtrack'], (title) => title);
+  strictEqual(match!.confidence < MIN_MATCH_CONFIDENCE, true);
+});
@@ -0,0 +1,90 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { DIGEST_LANGUAGES, digestLanguage, digestMessages } from '../_shared/email/digest-messages.ts';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const page = (language: string, content: string, status = 200) =>
+  new Response(
+    `<!DOCTYPE html><html lang="${language}"><head><meta charset="utf-8"><title>Game Deal Buddy</title></head>
+<body style="font-family:Arial,sans-serif;text-align:center;padding:48px;color:#0b2a5b">${content}</body></html>`,
+    { headers: { 'Content-Type': 'text/html; charset=utf-8' }, status }
+  );
+
+const messagePage = (language: string, message: string, status = 200) =>
+  page(language, `<p>${escapeHtml(message)}</p>`, status);
+
+// Sem token válido não há como saber o idioma do usuário; usa o do navegador
+const requestLanguage = (req: Request): string => {
+  const tags = (req.headers.get('Accept-Language') ?? '').split(',').map(tag => tag.split(';')[0].trim());
+  for (const tag of tags) {
+    const language = DIGEST_LANGUAGES.find(supported => supported.split('-')[0] === tag.split('-')[0]);
+    if (language) return language;
+  }
+  return digestLanguage(null);
+};
+
+/**
+ * Link de cancelamento do resumo por e-mail (aberto direto do e-mail, sem login).
+ * GET só mostra a confirmação, para que leitores de link e antivírus não cancelem sozinhos;
+ * o cancelamento vem no POST, seja do botão da página ou do cliente de e-mail (RFC 8058).
+ */
+serve(async (req) => {
+  let language = requestLanguage(req);
+
+  try {
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      return new Response(null, { headers: { Allow: 'GET, POST' }, status: 405 });
+    }
+
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token || !UUID_PATTERN.test(token)) {
+      return messagePage(language, digestMessages(language).unsubscribeInvalid, 400);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: preferences, error } = await supabase
+      .from('user_preferences')
+      .select('user_id, language')
+      .eq('digest_unsubscribe_token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!preferences) {
+      return messagePage(language, digestMessages(language).unsubscribeInvalid, 404);
+    }
+
+    language = digestLanguage(preferences.language);
+    const messages = digestMessages(language);
+
+    if (req.method === 'GET') {
+      return page(language, `<p>${escapeHtml(messages.unsubscribeConfirm)}</p>
+<form method="post" action="?token=${escapeHtml(encodeURIComponent(token))}">
+<button type="submit" style="font-size:16px;padding:10px 20px;border-radius:8px;border:0;background:#0b2a5b;color:#ffffff;cursor:pointer">${escapeHtml(messages.unsubscribeButton)}</button>
+</form>`);
+    }
+
+    const { error: updateError } = await supabase
+      .from('user_preferences')
+      .update({ digest_frequency: 'never' })
+      .eq('user_id', preferences.user_id);
+
+    if (updateError) throw updateError;
+
+    return messagePage(language, messages.unsubscribeDone);
+  } catch (error) {
+    console.error('Error unsubscribing from digest:', error);
+    return messagePage(language, digestMessages(language).unsubscribeError, 500);
+  }
+});
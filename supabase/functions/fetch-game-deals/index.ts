@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { cheapestPrice, loadPriceLows, resolveGamePrices, type GamePrices } from '../_shared/prices.ts';
+import { resolveRegion } from '../_shared/regions.ts';
+import type { GamePriceRow } from '../_shared/price-cache.ts';
+import { resolveApiVersion } from '../_shared/price-api.ts';
+import { serializePriceLow, serializeStorePrice } from '../_shared/price-serializers.ts';
+import { loadStoreHealth, loadStoreStatus } from '../_shared/store-health.ts';
+import { mapWithConcurrency } from '../_shared/concurrency.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Limites para não estourar o tempo da função nem a cota das lojas
+const MAX_APPIDS = 50;
+const UPSTREAM_CONCURRENCY = 4;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // cc escolhe a região; currency continua aceito para clientes antigos
+    // version escolhe o formato da resposta (ver _shared/price-api.ts)
+    const { appids, cc, currency, version: requestedVersion } = await req.json();
+    const version = resolveApiVersion(requestedVersion);
+
+    if (!Array.isArray(appids) || appids.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'appids is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    if (appids.length > MAX_APPIDS) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_APPIDS} appids per request` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const ids: string[] = appids.map(String);
+    const region = resolveRegion({ cc, currency });
+
+    // Metadados e preços em cache de todos os jogos em duas consultas
+    const [{ data: games, error: gamesError }, { data: cachedRows, error: cacheError }] = await Promise.all([
+      supabase
+        .from('games')
+        .select('appid, title, header_image, genre_ids')
+        .in('appid', ids),
+      supabase
+        .from('game_prices')
+        .select('*')
+        .in('appid', ids)
+        .eq('region', region.code),
+    ]);
+
+    if (gamesError) throw gamesError;
+    if (cacheError) throw cacheError;
+
+    const gamesByAppid = Object.fromEntries((games ?? []).map(game => [game.appid, game]));
+
+    const rowsByAppid: { [appid: string]: GamePriceRow[] } = {};
+    for (const row of cachedRows ?? []) {
+      (rowsByAppid[row.appid] ??= []).push(row);
+    }
+
+    // Cache válido ou expirado responde na hora; só jogos sem cache esperam pelas lojas.
+    // A saúde das lojas é lida uma vez e vale para todos os jogos da requisição.
+    const health = await loadStoreHealth(supabase);
+    const results = await mapWithConcurrency(ids, UPSTREAM_CONCURRENCY, async (appid): Promise<GamePrices> => {
+      try {
+        return await resolveGamePrices(supabase, appid, rowsByAppid[appid] ?? [], gamesByAppid[appid]?.title, region, health);
+      } catch (error) {
+        console.error(`Error fetching prices for appid ${appid}:`, error);
+        return { prices: [], lastUpdated: null, stale: false };
+      }
+    });
+
+    const resultsByAppid = Object.fromEntries(ids.map((appid, index) => [appid, results[index]]));
+    const pricesByAppid = Object.fromEntries(ids.map(appid => [appid, resultsByAppid[appid].prices]));
+
+    const lows = await loadPriceLows(supabase, pricesByAppid, region);
+    const storeStatus = await loadStoreStatus(supabase);
+
+    const deals = ids.map(appid => {
+      const bestPrice = cheapestPrice(pricesByAppid[appid]);
+      return {
+        appid,
+        game: gamesByAppid[appid] ?? null,
+        prices: pricesByAppid[appid].map(price => serializeStorePrice(price, region, version)),
+        bestPrice: bestPrice ? serializeStorePrice(bestPrice, region, version) : null,
+        lows: serializePriceLow(lows[appid]?.game ?? null, region.currency, version),
+        last_updated: resultsByAppid[appid].lastUpdated,
+        stale: resultsByAppid[appid].stale,
+      };
+    });
+
+    return new Response(
+      JSON.stringify({ version, deals, region: region.code, currency: region.currency, storeStatus }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -0,0 +1,100 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { selectAllRows } from '../_shared/pagination.ts';
+import { regionForCode } from '../_shared/regions.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface HistoryRow {
+  store: string;
+  numeric_price: number | string;
+  numeric_original_price: number | string | null;
+  discount: number;
+  recorded_at: string;
+}
+
+interface PricePoint {
+  recordedAt: string;
+  price: number;
+  originalPrice: number | null;
+  discount: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // days é opcional: sem ele retorna todo o histórico
+    const { appid, store, days, cc } = await req.json();
+
+    if (!appid) {
+      return new Response(
+        JSON.stringify({ error: 'appid is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const dayCount = days === undefined || days === null ? null : Number(days);
+    if (dayCount !== null && (!Number.isFinite(dayCount) || dayCount <= 0)) {
+      return new Response(
+        JSON.stringify({ error: 'days must be a positive number' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const region = regionForCode(cc);
+
+    const since = dayCount !== null ? new Date(Date.now() - dayCount * 24 * 60 * 60 * 1000).toISOString() : null;
+
+    // Um jogo antigo passa fácil de 1000 linhas; sem paginar, os pontos mais recentes sumiriam do gráfico.
+    // Com days, price_history_since inclui a última linha antes do período: o preço em vigor no início do gráfico.
+    const data = await selectAllRows<HistoryRow>((from, to) => {
+      let query = since
+        ? supabase.rpc('price_history_since', { p_appids: [String(appid)], p_region: region.code, p_since: since })
+        : supabase
+          .from('price_history')
+          .select('store, numeric_price, numeric_original_price, discount, recorded_at')
+          .eq('appid', appid)
+          .eq('region', region.code);
+
+      if (store) {
+        query = query.eq('store', store);
+      }
+
+      return query
+        .order('recorded_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to);
+    });
+
+    // Agrupa a série temporal por loja
+    const history: { [store: string]: PricePoint[] } = {};
+    for (const row of data) {
+      (history[row.store] ??= []).push({
+        recordedAt: row.recorded_at,
+        price: Number(row.numeric_price),
+        originalPrice: row.numeric_original_price !== null ? Number(row.numeric_original_price) : null,
+        discount: row.discount,
+      });
+    }
+
+    // Os preços do histórico estão na moeda da região pedida
+    return new Response(
+      JSON.stringify({ appid, region: region.code, currency: region.currency, history }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
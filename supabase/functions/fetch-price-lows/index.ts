@@ -0,0 +1,76 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { fetchPriceLows } from '../_shared/price-lows.ts';
+import { regionForCode } from '../_shared/regions.ts';
+import { resolveApiVersion } from '../_shared/price-api.ts';
+import { serializePriceLows } from '../_shared/price-serializers.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Mesmo limite de fetch-game-deals: cada appid lê o histórico de todas as lojas
+const MAX_APPIDS = 50;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { appids, cc, version: requestedVersion } = await req.json();
+    const version = resolveApiVersion(requestedVersion);
+
+    if (!Array.isArray(appids) || appids.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'appids is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    if (appids.length > MAX_APPIDS) {
+      return new Response(
+        JSON.stringify({ error: `At most ${MAX_APPIDS} appids per request` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const region = regionForCode(cc);
+
+    // Preço atual de cada loja vem da última busca salva em game_prices
+    const { data: currentRows, error } = await supabase
+      .from('game_prices')
+      .select('appid, store, numeric_price')
+      .in('appid', appids)
+      .eq('region', region.code)
+      .eq('available', true);
+
+    if (error) throw error;
+
+    const currentPrices: { [appid: string]: { [store: string]: number | null } } = {};
+    for (const row of currentRows ?? []) {
+      (currentPrices[row.appid] ??= {})[row.store] = row.numeric_price !== null ? Number(row.numeric_price) : null;
+    }
+
+    const lows = await fetchPriceLows(supabase, appids, currentPrices, region);
+
+    return new Response(
+      JSON.stringify({
+        version,
+        lows: Object.fromEntries(
+          Object.entries(lows).map(([appid, appLows]) => [appid, serializePriceLows(appLows, region.currency, version)])
+        ),
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -0,0 +1,104 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { cheapestPrice, getGamePrices, type GamePrices } from '../_shared/prices.ts';
+import { formatRegionPrice, REGIONS, regionForCurrency } from '../_shared/regions.ts';
+import { getExchangeRates } from '../_shared/exchange-rates.ts';
+import { convertMoney, moneyFromDecimal, moneyToDecimal } from '../_shared/money.ts';
+import { createRateProvider } from '../_shared/rates/provider.ts';
+import { resolveApiVersion } from '../_shared/price-api.ts';
+import { loadStoreHealth } from '../_shared/store-health.ts';
+import { mapWithConcurrency } from '../_shared/concurrency.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Regiões comparadas lado a lado, na ordem exibida
+const COMPARED_REGIONS = ['BR', 'US', 'AR', 'TR', 'EU', 'UK'];
+
+// Sem cache cada região consulta todas as lojas; poucas regiões por vez seguram as chamadas às lojas
+const REGION_CONCURRENCY = 2;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // name é opcional: evita que cada região busque o nome do jogo na Steam
+    // version escolhe o formato da resposta (ver _shared/price-api.ts)
+    const { appid, currency, name, version: requestedVersion } = await req.json();
+    const version = resolveApiVersion(requestedVersion);
+
+    if (!appid) {
+      return new Response(
+        JSON.stringify({ error: 'appid is required' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Só aceita moedas que alguma região usa
+    const targetCurrency = regionForCurrency(currency).currency;
+    // A saúde das lojas é lida uma vez e vale para todas as regiões
+    const health = await loadStoreHealth(supabase);
+    const [rates, results] = await Promise.all([
+      // Sem cotações gravadas, ou com elas velhas demais, busca direto no provedor
+      getExchangeRates(supabase, createRateProvider()),
+      mapWithConcurrency(COMPARED_REGIONS, REGION_CONCURRENCY, (code): Promise<PromiseSettledResult<GamePrices>> =>
+        getGamePrices(supabase, appid, name, REGIONS[code], health).then(
+          value => ({ status: 'fulfilled', value }),
+          reason => ({ status: 'rejected', reason }),
+        )
+      ),
+    ]);
+
+    const regions = COMPARED_REGIONS.map((code, index) => {
+      const region = REGIONS[code];
+      const result = results[index];
+      if (result.status === 'rejected') {
+        console.error(`Error fetching ${code} prices for appid ${appid}:`, result.reason);
+      }
+
+      const cheapest = result.status === 'fulfilled' ? cheapestPrice(result.value.prices) : null;
+      const price = cheapest?.numericPrice != null ? moneyFromDecimal(cheapest.numericPrice, region.currency) : null;
+      const converted = price ? convertMoney(price, targetCurrency, rates) : null;
+      return {
+        region: region.code,
+        countryCode: region.countryCode,
+        currency: region.currency,
+        store: cheapest?.store ?? null,
+        ...(version === 2
+          ? { price, convertedPrice: converted }
+          : {
+            price: cheapest?.numericPrice != null ? formatRegionPrice(cheapest.numericPrice, region) : null,
+            numericPrice: cheapest?.numericPrice ?? null,
+            convertedPrice: converted ? moneyToDecimal(converted) : null,
+          }),
+        discount: cheapest?.discount ?? 0,
+        buyUrl: cheapest?.buyUrl ?? null,
+        last_updated: result.status === 'fulfilled' ? result.value.lastUpdated : null,
+        stale: result.status === 'fulfilled' ? result.value.stale : false,
+      };
+    });
+
+    return new Response(
+      JSON.stringify({
+        version,
+        currency: targetCurrency,
+        rates_date: rates.asOf,
+        regions,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
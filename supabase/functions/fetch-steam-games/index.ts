@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { regionForCode } from '../_shared/regions.ts';
+import { getGameMetadata } from '../_shared/steam-metadata.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,7 +14,7 @@ serve(async (req) => {
   }
 
   try {
-    const { appid } = await req.json();
+    const { appid, language, cc } = await req.json();
     
     if (!appid) {
       return new Response(
@@ -20,14 +23,16 @@ serve(async (req) => {
       );
     }
 
-    const response = await fetch(
-      `https://store.steampowered.com/api/appdetails?appids=${appid}&cc=br&l=pt`
-    );
-    
-    const data = await response.json();
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Metadados normalizados (ver _shared/game-metadata.ts) no idioma do usuário.
+    // O país só importa quando o cache expira: em pt-BR a busca na Steam é a mesma do fetch-game-prices.
+    const metadata = await getGameMetadata(supabase, appid, { countryCode: regionForCode(cc).countryCode, language });
 
     return new Response(
-      JSON.stringify(data),
+      JSON.stringify(metadata),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
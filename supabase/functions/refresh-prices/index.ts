@@ -0,0 +1,276 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { loadAlertRegions, refreshScheduledPrices, scheduledRegions } from '../_shared/scheduled-refresh.ts';
+import { evaluatePriceCache, type GamePriceRow } from '../_shared/price-cache.ts';
+import { storeAdapters, type AdapterOutcome } from '../_shared/stores/index.ts';
+import type { PriceRegion } from '../_shared/regions.ts';
+import { selectAllRows } from '../_shared/pagination.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Quantos jogos cada execução tenta atualizar
+const MAX_APPIDS_PER_RUN = 40;
+
+// As edge functions são encerradas após 150 s; a execução para de começar jogos novos antes disso,
+// com folga para a última busca (até 8 s por loja, em paralelo) e para gravar o log
+const RUN_TIME_BUDGET_MS = 100_000;
+
+// Chamadas permitidas por loja em cada execução
+const STORE_BUDGETS: { [store: string]: number } = {
+  Steam: 40,
+  GOG: 40,
+};
+const DEFAULT_STORE_BUDGET = 20;
+
+// Consulta os preços do catálogo em partes para não estourar o tamanho da URL
+const PRICE_LOOKUP_CHUNK = 200;
+
+interface StoreStats {
+  calls: number;
+  successes: number;
+  failures: number;
+  totalDurationMs: number;
+  skipped: number;
+}
+
+interface RefreshCandidate {
+  appid: string;
+  title?: string;
+}
+
+interface DueCandidate extends RefreshCandidate {
+  // Regiões do jogo com o cache vencido
+  regions: PriceRegion[];
+  lastUpdated: number;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Só o agendador (com a service role key) pode disparar a atualização
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+    );
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  const startedAt = Date.now();
+
+  // Uma execução encerrada pela plataforma não grava o próprio fim; fecha as que passaram do limite
+  const { error: abandonedError } = await supabase
+    .from('price_refresh_runs')
+    .update({ status: 'failed', error: 'Run did not finish' })
+    .eq('status', 'running')
+    .lt('started_at', new Date(startedAt - 2 * RUN_TIME_BUDGET_MS).toISOString());
+
+  if (abandonedError) {
+    console.error('Error closing abandoned refresh runs:', abandonedError);
+  }
+
+  const { data: run, error: runError } = await supabase
+    .from('price_refresh_runs')
+    .insert({ status: 'running' })
+    .select('id')
+    .single();
+
+  if (runError) {
+    console.error('Error creating refresh run log:', runError);
+  }
+
+  const storeStats: { [store: string]: StoreStats } = Object.fromEntries(
+    storeAdapters.map(adapter => [adapter.store, { calls: 0, successes: 0, failures: 0, totalDurationMs: 0, skipped: 0 }])
+  );
+  const succeeded: string[] = [];
+  const failed: string[] = [];
+  const skippedFresh: string[] = [];
+  let stoppedEarly = false;
+
+  try {
+    // Prioridade 1: jogos favoritados, dos mais favoritados para os menos
+    const favorites = await selectAllRows<RefreshCandidate>((from, to) =>
+      supabase.from('favorites').select('appid, title').order('id').range(from, to)
+    );
+
+    const favoriteCounts = new Map<string, RefreshCandidate & { count: number }>();
+    for (const fav of favorites) {
+      const entry = favoriteCounts.get(fav.appid) ?? { appid: fav.appid, title: fav.title, count: 0 };
+      entry.count++;
+      favoriteCounts.set(fav.appid, entry);
+    }
+    const favoriteCandidates = Array.from(favoriteCounts.values()).sort((a, b) => b.count - a.count);
+
+    // Prioridade 2: o restante do catálogo
+    const catalog = await selectAllRows<RefreshCandidate>((from, to) =>
+      supabase.from('games').select('appid, title').order('appid').range(from, to)
+    );
+
+    const seen = new Set<string>();
+    const candidates = [...favoriteCandidates, ...catalog].filter(candidate => {
+      if (seen.has(candidate.appid)) return false;
+      seen.add(candidate.appid);
+      return true;
+    });
+
+    // Todo jogo é atualizado na região padrão; jogos com alerta em outra moeda, também na região dela
+    const alertRegions = await loadAlertRegions(supabase);
+    const regionCodes = Array.from(new Set(
+      [...scheduledRegions(), ...Object.values(alertRegions).flat()].map(region => region.code)
+    ));
+
+    const rowsByAppidRegion: { [key: string]: GamePriceRow[] } = {};
+    for (let start = 0; start < candidates.length; start += PRICE_LOOKUP_CHUNK) {
+      const chunk = candidates.slice(start, start + PRICE_LOOKUP_CHUNK).map(candidate => candidate.appid);
+      const { data: priceRows, error: pricesError } = await supabase
+        .from('game_prices')
+        .select('*')
+        .in('appid', chunk)
+        .in('region', regionCodes);
+      if (pricesError) throw pricesError;
+
+      for (const row of priceRows ?? []) {
+        (rowsByAppidRegion[`${row.appid}:${row.region}`] ??= []).push(row);
+      }
+    }
+
+    // Regiões com preço ainda válido ficam de fora; o jogo entra na fila pelo preço mais antigo entre as vencidas
+    const dueCandidate = (candidate: RefreshCandidate): DueCandidate | null => {
+      const regions: PriceRegion[] = [];
+      let lastUpdated = Infinity;
+      for (const region of scheduledRegions(alertRegions[candidate.appid])) {
+        const cache = evaluatePriceCache(rowsByAppidRegion[`${candidate.appid}:${region.code}`] ?? []);
+        if (cache.state === 'fresh') continue;
+        regions.push(region);
+        lastUpdated = Math.min(lastUpdated, cache.lastUpdated ? new Date(cache.lastUpdated).getTime() : 0);
+      }
+      return regions.length > 0 ? { ...candidate, regions, lastUpdated } : null;
+    };
+
+    // Dentro de cada prioridade, os preços mais antigos primeiro
+    const queue: DueCandidate[] = [];
+    for (const group of [favoriteCandidates, candidates.filter(candidate => !favoriteCounts.has(candidate.appid))]) {
+      const due: DueCandidate[] = [];
+      for (const candidate of group) {
+        const entry = dueCandidate(candidate);
+        if (entry) {
+          due.push(entry);
+        } else {
+          skippedFresh.push(candidate.appid);
+        }
+      }
+      queue.push(...due.sort((a, b) => a.lastUpdated - b.lastUpdated));
+    }
+
+    const budgets = Object.fromEntries(
+      storeAdapters.map(adapter => [adapter.store, STORE_BUDGETS[adapter.store] ?? DEFAULT_STORE_BUDGET])
+    );
+
+    for (const candidate of queue.slice(0, MAX_APPIDS_PER_RUN)) {
+      if (Date.now() - startedAt > RUN_TIME_BUDGET_MS) {
+        console.log('Run time budget exhausted, stopping run');
+        stoppedEarly = true;
+        break;
+      }
+
+      // Lojas sem orçamento restante ficam de fora desta execução
+      const adapters = storeAdapters.filter(adapter => {
+        if (budgets[adapter.store] > 0) return true;
+        storeStats[adapter.store].skipped++;
+        return false;
+      });
+      if (adapters.length === 0) {
+        console.log('All store budgets exhausted, stopping run');
+        stoppedEarly = true;
+        break;
+      }
+
+      let hadFailure = false;
+      // Só gasta orçamento a loja que foi chamada de fato (circuito aberto e respostas de cache não contam)
+      const onOutcome = (outcome: AdapterOutcome) => {
+        if (!outcome.ok) hadFailure = true;
+        if (!outcome.upstream) return;
+
+        budgets[outcome.store]--;
+        const stats = storeStats[outcome.store];
+        stats.calls++;
+        stats.totalDurationMs += outcome.durationMs;
+        if (outcome.ok) {
+          stats.successes++;
+        } else {
+          stats.failures++;
+        }
+      };
+
+      try {
+        await refreshScheduledPrices(supabase, candidate.appid, candidate.title, candidate.regions, {
+          adapters,
+          onOutcome,
+          onCircuitOpen: (store) => storeStats[store].skipped++,
+        });
+        (hadFailure ? failed : succeeded).push(candidate.appid);
+      } catch (error) {
+        console.error(`Error refreshing appid ${candidate.appid}:`, error);
+        failed.push(candidate.appid);
+      }
+    }
+
+    const summary = {
+      succeeded: succeeded.length,
+      failed: failed.length,
+      skipped_fresh: skippedFresh.length,
+      stopped_early: stoppedEarly,
+      duration_ms: Date.now() - startedAt,
+    };
+    console.log(`Price refresh finished: ${JSON.stringify(summary)}`);
+
+    if (run) {
+      await supabase
+        .from('price_refresh_runs')
+        .update({
+          status: 'completed',
+          finished_at: new Date().toISOString(),
+          duration_ms: summary.duration_ms,
+          appids_succeeded: succeeded,
+          appids_failed: failed,
+          store_stats: storeStats,
+        })
+        .eq('id', run.id);
+    }
+
+    return new Response(
+      JSON.stringify({ ...summary, store_stats: storeStats }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (run) {
+      await supabase
+        .from('price_refresh_runs')
+        .update({
+          status: 'failed',
+          finished_at: new Date().toISOString(),
+          duration_ms: Date.now() - startedAt,
+          appids_succeeded: succeeded,
+          appids_failed: failed,
+          store_stats: storeStats,
+          error: message,
+        })
+        .eq('id', run.id);
+    }
+
+    return new Response(
+      JSON.stringify({ error: message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
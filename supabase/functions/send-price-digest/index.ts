@@ -0,0 +1,252 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createEmailTransport, type EmailTransport } from '../_shared/email/transport.ts';
+import {
+  isDigestEmpty,
+  renderDigestEmail,
+  type DigestContent,
+  type DigestHistoricalLow,
+  type DigestPriceDrop,
+} from '../_shared/email/digest-template.ts';
+import { fetchPriceLows } from '../_shared/price-lows.ts';
+import { selectAllRows } from '../_shared/pagination.ts';
+import { regionForCurrency } from '../_shared/regions.ts';
+import { moneyFromDecimal } from '../_shared/money.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DIGEST_PERIOD_MS = { daily: DAY_MS, weekly: 7 * DAY_MS };
+
+// Folga para o agendamento diário não pular um dia por alguns minutos de diferença
+const SCHEDULE_SLACK_MS = 60 * 60 * 1000;
+
+interface DigestSubscriber {
+  user_id: string;
+  digest_frequency: 'daily' | 'weekly';
+  digest_unsubscribe_token: string;
+  last_digest_sent_at: string | null;
+  language: string;
+  currency: string;
+}
+
+interface HistoryRow {
+  appid: string;
+  store: string;
+  numeric_price: number | string;
+  recorded_at: string;
+}
+
+// Menor preço entre as lojas em um instante, a partir do histórico
+const cheapestAt = (rows: HistoryRow[], time: number) => {
+  const latestByStore = new Map<string, number>();
+  for (const row of rows) {
+    if (new Date(row.recorded_at).getTime() <= time) {
+      latestByStore.set(row.store, Number(row.numeric_price));
+    }
+  }
+  return latestByStore.size > 0 ? Math.min(...latestByStore.values()) : null;
+};
+
+const buildDigest = async (
+  supabase: SupabaseClient,
+  subscriber: DigestSubscriber,
+  since: Date,
+): Promise<Omit<DigestContent, 'username' | 'language' | 'appUrl' | 'unsubscribeUrl'>> => {
+  // Quedas e menores preços seguem a região da moeda escolhida em Configurações
+  const region = regionForCurrency(subscriber.currency);
+
+  const { data: favorites, error: favoritesError } = await supabase
+    .from('favorites')
+    .select('appid, title')
+    .eq('user_id', subscriber.user_id);
+  if (favoritesError) throw favoritesError;
+
+  const { data: alerts, error: alertsError } = await supabase
+    .from('price_alerts')
+    .select('appid, title, store, price, currency, buy_url')
+    .eq('user_id', subscriber.user_id)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false });
+  if (alertsError) throw alertsError;
+
+  const appids = (favorites ?? []).map(fav => fav.appid);
+  const titles = new Map((favorites ?? []).map(fav => [fav.appid, fav.title]));
+  const priceDrops: DigestPriceDrop[] = [];
+  const historicalLows: DigestHistoricalLow[] = [];
+
+  if (appids.length > 0) {
+    // Só o período do digest e o preço em vigor quando ele começou; páginas para não perder as linhas mais novas
+    const [history, current] = await Promise.all([
+      selectAllRows<HistoryRow>((from, to) =>
+        supabase
+          .rpc('price_history_since', { p_appids: appids, p_region: region.code, p_since: since.toISOString() })
+          .order('recorded_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, to)
+      ),
+      selectAllRows<{ appid: string; store: string; numeric_price: number | string | null }>((from, to) =>
+        supabase
+          .from('game_prices')
+          .select('appid, store, numeric_price')
+          .in('appid', appids)
+          .eq('region', region.code)
+          .eq('available', true)
+          .order('id')
+          .range(from, to)
+      ),
+    ]);
+
+    const currentPrices: { [appid: string]: { [store: string]: number | null } } = {};
+    for (const row of current) {
+      (currentPrices[row.appid] ??= {})[row.store] = row.numeric_price !== null ? Number(row.numeric_price) : null;
+    }
+
+    const lows = await fetchPriceLows(supabase, appids, currentPrices, region);
+
+    for (const appid of appids) {
+      const appHistory = history.filter(row => row.appid === appid);
+      const changedInPeriod = appHistory.some(row => new Date(row.recorded_at) >= since);
+      if (!changedInPeriod) continue;
+
+      const previousPrice = cheapestAt(appHistory, since.getTime());
+      const currentPrice = lows[appid]?.game?.current ?? null;
+
+      if (previousPrice !== null && currentPrice !== null && currentPrice < previousPrice - 0.005) {
+        priceDrops.push({
+          appid,
+          title: titles.get(appid)!,
+          previousPrice: moneyFromDecimal(previousPrice, region.currency),
+          currentPrice: moneyFromDecimal(currentPrice, region.currency),
+        });
+      }
+      if (lows[appid]?.game?.isAllTimeLow && currentPrice !== null) {
+        historicalLows.push({ appid, title: titles.get(appid)!, price: moneyFromDecimal(currentPrice, region.currency) });
+      }
+    }
+  }
+
+  return {
+    frequency: subscriber.digest_frequency,
+    priceDrops,
+    historicalLows,
+    alerts: (alerts ?? []).map(alert => ({
+      appid: alert.appid,
+      title: alert.title,
+      store: alert.store,
+      price: moneyFromDecimal(Number(alert.price), alert.currency),
+      buyUrl: alert.buy_url,
+    })),
+  };
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Só o agendador (com a service role key) pode disparar o envio
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+    );
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const transport: EmailTransport = createEmailTransport();
+    const appUrl = Deno.env.get('APP_URL') ?? 'http://localhost:8080';
+    const now = Date.now();
+
+    const { data: subscribers, error } = await supabase
+      .from('user_preferences')
+      .select('user_id, digest_frequency, digest_unsubscribe_token, last_digest_sent_at, language, currency')
+      .in('digest_frequency', ['daily', 'weekly']);
+
+    if (error) throw error;
+
+    const sent: string[] = [];
+    const skipped: string[] = [];
+    const failed: string[] = [];
+
+    for (const subscriber of (subscribers ?? []) as DigestSubscriber[]) {
+      const period = DIGEST_PERIOD_MS[subscriber.digest_frequency];
+      const lastSent = subscriber.last_digest_sent_at ? new Date(subscriber.last_digest_sent_at).getTime() : null;
+
+      if (lastSent && now - lastSent < period - SCHEDULE_SLACK_MS) {
+        skipped.push(subscriber.user_id);
+        continue;
+      }
+
+      try {
+        const since = new Date(lastSent ?? now - period);
+        const digest = await buildDigest(supabase, subscriber, since);
+
+        const { data: { user }, error: userError } = await supabase.auth.admin.getUserById(subscriber.user_id);
+        if (userError) throw userError;
+        if (!user?.email) {
+          skipped.push(subscriber.user_id);
+          continue;
+        }
+
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('username')
+          .eq('id', subscriber.user_id)
+          .maybeSingle();
+
+        const content: DigestContent = {
+          ...digest,
+          username: profile?.username || user.email,
+          language: subscriber.language,
+          appUrl,
+          unsubscribeUrl: `${supabaseUrl}/functions/v1/digest-unsubscribe?token=${subscriber.digest_unsubscribe_token}`,
+        };
+
+        // Sem novidades no período não há e-mail
+        if (!isDigestEmpty(content)) {
+          const email = renderDigestEmail(content);
+          await transport.send({
+            to: user.email,
+            ...email,
+            // Cancelamento com um clique pelo cliente de e-mail (RFC 8058): o link aceita POST
+            headers: {
+              'List-Unsubscribe': `<${content.unsubscribeUrl}>`,
+              'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+            },
+          });
+          sent.push(subscriber.user_id);
+        } else {
+          skipped.push(subscriber.user_id);
+        }
+
+        await supabase
+          .from('user_preferences')
+          .update({ last_digest_sent_at: new Date(now).toISOString() })
+          .eq('user_id', subscriber.user_id);
+      } catch (error) {
+        console.error(`Error sending digest to user ${subscriber.user_id}:`, error);
+        failed.push(subscriber.user_id);
+      }
+    }
+
+    console.log(`Digest run finished: ${sent.length} sent, ${skipped.length} skipped, ${failed.length} failed`);
+
+    return new Response(
+      JSON.stringify({ sent: sent.length, skipped: skipped.length, failed: failed.length }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { fetchAppDetails } from '../_shared/steam.ts';
+import { selectAllRows } from '../_shared/pagination.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Jogos sincronizados há mais tempo que isso são atualizados de novo
+const STALE_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+
+// A API de appdetails da Steam aceita ~200 requisições a cada 5 minutos
+const MAX_APPS_PER_RUN = 50;
+const DELAY_BETWEEN_REQUESTS_MS = 1500;
+
+// Consulta o catálogo em partes para não estourar o tamanho da URL
+const APPID_LOOKUP_CHUNK = 200;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Destaques da loja (promoções, mais vendidos e lançamentos) alimentam o catálogo; só os appids são lidos
+const fetchFeaturedAppids = async (): Promise<string[]> => {
+  try {
+    const response = await fetch('https://store.steampowered.com/api/featuredcategories?cc=br');
+    const data = await response.json();
+    const sections = [data?.specials, data?.top_sellers, data?.new_releases];
+    return sections.flatMap((section) => (section?.items ?? []).map((item: { id: number }) => String(item.id)));
+  } catch (error) {
+    console.error('Error fetching featured Steam apps:', error);
+    return [];
+  }
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  // Chamado pelo pg_cron com a service role key
+  if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+    return new Response(
+      JSON.stringify({ error: 'Unauthorized' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+    );
+  }
+
+  try {
+    // appids é opcional: sem ele a sincronização escolhe os jogos sozinha
+    const body = await req.json().catch(() => ({}));
+    const requestedAppids: string[] = Array.isArray(body?.appids) ? body.appids.map(String) : [];
+    const limit = Math.min(Number(body?.limit) || MAX_APPS_PER_RUN, MAX_APPS_PER_RUN);
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const candidates = new Set<string>(requestedAppids);
+
+    if (candidates.size === 0) {
+      // Primeiro os jogos do catálogo que nunca foram sincronizados ou estão desatualizados
+      const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+      const { data: staleGames, error: staleError } = await supabase
+        .from('games')
+        .select('appid')
+        .or(`synced_at.is.null,synced_at.lt.${staleBefore}`)
+        .order('synced_at', { ascending: true, nullsFirst: true })
+        .limit(limit);
+
+      if (staleError) throw staleError;
+      staleGames?.forEach((game) => candidates.add(game.appid));
+
+      // Depois os favoritos e destaques que ainda não estão no catálogo
+      const favorites = await selectAllRows<{ appid: string }>((from, to) =>
+        supabase.from('favorites').select('appid').order('id').range(from, to)
+      );
+      const discovered = Array.from(new Set([...favorites.map((fav) => fav.appid), ...await fetchFeaturedAppids()]));
+
+      const knownAppids = new Set<string>();
+      for (let start = 0; start < discovered.length; start += APPID_LOOKUP_CHUNK) {
+        const { data: known, error: knownError } = await supabase
+          .from('games')
+          .select('appid')
+          .in('appid', discovered.slice(start, start + APPID_LOOKUP_CHUNK));
+        if (knownError) throw knownError;
+        known?.forEach((game) => knownAppids.add(game.appid));
+      }
+
+      discovered.filter((appid) => !knownAppids.has(appid)).forEach((appid) => candidates.add(appid));
+    }
+
+    const appids = Array.from(candidates).slice(0, limit);
+    console.log(`Syncing ${appids.length} games from Steam`);
+
+    const synced: string[] = [];
+    const skipped: string[] = [];
+    const failed: string[] = [];
+
+    for (const [index, appid] of appids.entries()) {
+      if (index > 0) await sleep(DELAY_BETWEEN_REQUESTS_MS);
+
+      try {
+        const details = await fetchAppDetails(supabase, appid, { countryCode: 'BR' });
+
+        // Só jogos entram no catálogo (DLCs, trilhas sonoras e demos ficam de fora)
+        if (!details || details.type !== 'game') {
+          skipped.push(appid);
+          continue;
+        }
+
+        const { error } = await supabase
+          .from('games')
+          .upsert({
+            appid,
+            title: details.name,
+            header_image: details.header_image,
+            capsule_image: details.capsule_image ?? null,
+            short_description: details.short_description ?? null,
+            // Ids de gênero da Steam: o nome vem no idioma da consulta, então o app traduz (genres.* em src/i18n)
+            genre_ids: (details.genres ?? []).map((genre) => String(genre.id)),
+            tags: (details.categories ?? []).map((category) => category.description),
+            release_date: details.release_date?.date || null,
+            coming_soon: details.release_date?.coming_soon ?? false,
+            platforms: Object.entries(details.platforms ?? {})
+              .filter(([, supported]) => supported)
+              .map(([platform]) => platform),
+            is_free: details.is_free ?? false,
+            synced_at: new Date().toISOString(),
+          }, {
+            onConflict: 'appid'
+          });
+
+        if (error) throw error;
+        synced.push(appid);
+      } catch (error) {
+        console.error(`Error syncing appid ${appid}:`, error);
+        failed.push(appid);
+      }
+    }
+
+    console.log(`Catalog sync finished: ${synced.length} synced, ${skipped.length} skipped, ${failed.length} failed`);
+
+    return new Response(
+      JSON.stringify({ synced, skipped, failed }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -0,0 +1,51 @@
+-- Cross-store identity: maps a Steam appid to the matching product in another store
+CREATE TABLE public.store_listings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appid TEXT NOT NULL,
+  store TEXT NOT NULL,
+  store_product_id TEXT,
+  slug TEXT,
+  store_title TEXT,
+  match_confidence NUMERIC NOT NULL DEFAULT 0,
+  matched_by TEXT NOT NULL DEFAULT 'title',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE(appid, store)
+);
+
+-- Enable RLS
+ALTER TABLE public.store_listings ENABLE ROW LEVEL SECURITY;
+
+-- Listings are public data, same as prices
+CREATE POLICY "Anyone can view store listings"
+ON public.store_listings
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Service role can manage store listings"
+ON public.store_listings
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_store_listings_appid ON public.store_listings(appid);
+
+CREATE TRIGGER update_store_listings_updated_at
+BEFORE UPDATE ON public.store_listings
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Seed with the mappings that used to be hardcoded in fetch-game-prices
+INSERT INTO public.store_listings (appid, store, store_product_id, slug, match_confidence, matched_by) VALUES
+  ('292030', 'GOG', '1207664643', 'the_witcher_3_wild_hunt', 1, 'manual'),
+  ('1091500', 'GOG', '1423049311', 'cyberpunk_2077', 1, 'manual'),
+  ('1086940', 'GOG', '1456460669', 'baldurs_gate_iii', 1, 'manual'),
+  ('435150', 'GOG', '1584823040', 'divinity_original_sin_2', 1, 'manual'),
+  ('632470', 'GOG', '1771589310', 'disco_elysium', 1, 'manual'),
+  ('413150', 'GOG', '1453375253', 'stardew_valley', 1, 'manual'),
+  ('105600', 'GOG', '1207665503', 'terraria', 1, 'manual'),
+  ('367520', 'GOG', '1308320804', 'hollow_knight', 1, 'manual'),
+  ('646570', 'GOG', '1950754973', 'slay_the_spire', 1, 'manual'),
+  ('588650', 'GOG', '1237807960', 'dead_cells', 1, 'manual'),
+  ('20900', 'GOG', '1207658924', 'the_witcher', 1, 'manual');
@@ -0,0 +1,62 @@
+-- Append-only price history, one row per observed price change
+CREATE TABLE public.price_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  appid TEXT NOT NULL,
+  store TEXT NOT NULL,
+  numeric_price NUMERIC NOT NULL,
+  numeric_original_price NUMERIC,
+  discount INTEGER NOT NULL DEFAULT 0,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.price_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view price history"
+ON public.price_history
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Service role can manage price history"
+ON public.price_history
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_price_history_appid_store_recorded_at
+ON public.price_history(appid, store, recorded_at);
+
+-- Record a history row whenever a store price is first seen or its price/discount changes
+CREATE OR REPLACE FUNCTION public.record_price_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.numeric_price IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.numeric_price IS DISTINCT FROM OLD.numeric_price
+    OR NEW.discount IS DISTINCT FROM OLD.discount THEN
+    INSERT INTO public.price_history (appid, store, numeric_price, numeric_original_price, discount)
+    VALUES (NEW.appid, NEW.store, NEW.numeric_price, NEW.numeric_original_price, NEW.discount);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_game_prices_history
+AFTER INSERT OR UPDATE ON public.game_prices
+FOR EACH ROW
+EXECUTE FUNCTION public.record_price_history();
+
+-- Backfill with the prices we already have
+INSERT INTO public.price_history (appid, store, numeric_price, numeric_original_price, discount, recorded_at)
+SELECT appid, store, numeric_price, numeric_original_price, discount, last_updated
+FROM public.game_prices
+WHERE numeric_price IS NOT NULL;
@@ -0,0 +1,55 @@
+-- Game catalog synced from Steam app details
+CREATE TABLE public.games (
+  appid TEXT PRIMARY KEY,
+  title TEXT NOT NULL,
+  header_image TEXT NOT NULL,
+  capsule_image TEXT,
+  short_description TEXT,
+  genres TEXT[] NOT NULL DEFAULT '{}',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  release_date TEXT,
+  coming_soon BOOLEAN NOT NULL DEFAULT false,
+  platforms TEXT[] NOT NULL DEFAULT '{}',
+  is_free BOOLEAN NOT NULL DEFAULT false,
+  synced_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE public.games ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view games"
+ON public.games
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Service role can manage games"
+ON public.games
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_games_title ON public.games(title);
+CREATE INDEX idx_games_genres ON public.games USING GIN(genres);
+CREATE INDEX idx_games_synced_at ON public.games(synced_at);
+
+CREATE TRIGGER update_games_updated_at
+BEFORE UPDATE ON public.games
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- Seed with the games the Feed used to hardcode; synced_at stays NULL so the sync job fills in the details
+INSERT INTO public.games (appid, title, header_image, genres) VALUES
+  ('292030', 'The Witcher 3: Wild Hunt', 'https://cdn.akamai.steamstatic.com/steam/apps/292030/header.jpg', '{RPG,Aventura}'),
+  ('1091500', 'Cyberpunk 2077', 'https://cdn.akamai.steamstatic.com/steam/apps/1091500/header.jpg', '{RPG,Ação}'),
+  ('1086940', 'Baldur''s Gate 3', 'https://cdn.akamai.steamstatic.com/steam/apps/1086940/header.jpg', '{RPG,Aventura}'),
+  ('435150', 'Divinity: Original Sin 2', 'https://cdn.akamai.steamstatic.com/steam/apps/435150/header.jpg', '{RPG,Aventura}'),
+  ('632470', 'Disco Elysium', 'https://cdn.akamai.steamstatic.com/steam/apps/632470/header.jpg', '{RPG}'),
+  ('413150', 'Stardew Valley', 'https://cdn.akamai.steamstatic.com/steam/apps/413150/header.jpg', '{Simulação,RPG}'),
+  ('105600', 'Terraria', 'https://cdn.akamai.steamstatic.com/steam/apps/105600/header.jpg', '{Aventura,Ação}'),
+  ('367520', 'Hollow Knight', 'https://cdn.akamai.steamstatic.com/steam/apps/367520/header.jpg', '{Aventura,Ação}'),
+  ('646570', 'Slay the Spire', 'https://cdn.akamai.steamstatic.com/steam/apps/646570/header.jpg', '{Estratégia}'),
+  ('588650', 'Dead Cells', 'https://cdn.akamai.steamstatic.com/steam/apps/588650/header.jpg', '{Ação}'),
+  ('20900', 'The Witcher: Enhanced Edition', 'https://cdn.akamai.steamstatic.com/steam/apps/20900/header.jpg', '{RPG}');
@@ -0,0 +1,44 @@
+-- Log of scheduled price refresh runs
+CREATE TABLE public.price_refresh_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'running',
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  duration_ms INTEGER,
+  appids_succeeded TEXT[] NOT NULL DEFAULT '{}',
+  appids_failed TEXT[] NOT NULL DEFAULT '{}',
+  store_stats JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error TEXT
+);
+
+-- Enable RLS (only the service role reads and writes run logs)
+ALTER TABLE public.price_refresh_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage price refresh runs"
+ON public.price_refresh_runs
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_price_refresh_runs_started_at ON public.price_refresh_runs(started_at);
+
+-- Schedule the refresher every 30 minutes.
+-- Expects the secrets 'project_url' and 'service_role_key' in Supabase Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'refresh-prices',
+  '*/30 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/refresh-prices',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,46 @@
+-- Per-favorite alert thresholds (NULL means "no condition")
+ALTER TABLE public.favorites ADD COLUMN target_price NUMERIC;
+ALTER TABLE public.favorites ADD COLUMN min_discount INTEGER;
+ALTER TABLE public.favorites ADD COLUMN allowed_stores TEXT[];
+
+CREATE POLICY "Users can update their own favorites"
+ON public.favorites
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Alerts created by the price evaluator when a favorite's condition is met
+CREATE TABLE public.price_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  favorite_id UUID NOT NULL REFERENCES public.favorites(id) ON DELETE CASCADE,
+  appid TEXT NOT NULL,
+  title TEXT NOT NULL,
+  store TEXT NOT NULL,
+  price NUMERIC NOT NULL,
+  discount INTEGER NOT NULL DEFAULT 0,
+  buy_url TEXT NOT NULL,
+  target_price NUMERIC,
+  min_discount INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- The same price in the same store only alerts once
+  UNIQUE(favorite_id, store, price)
+);
+
+-- Enable RLS
+ALTER TABLE public.price_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own price alerts"
+ON public.price_alerts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage price alerts"
+ON public.price_alerts
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_price_alerts_user_id ON public.price_alerts(user_id);
+CREATE INDEX idx_favorites_alerts ON public.favorites(appid)
+WHERE target_price IS NOT NULL OR min_discount IS NOT NULL;
@@ -0,0 +1,166 @@
+-- Per-user preferences (notification switches for now)
+CREATE TABLE public.user_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  notifications_enabled BOOLEAN NOT NULL DEFAULT true,
+  notify_price_drop BOOLEAN NOT NULL DEFAULT true,
+  notify_new_deal BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own preferences"
+ON public.user_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own preferences"
+ON public.user_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own preferences"
+ON public.user_preferences
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_preferences_updated_at
+BEFORE UPDATE ON public.user_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.handle_updated_at();
+
+-- In-app notification inbox
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  appid TEXT,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage notifications"
+ON public.notifications
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_notifications_user_id_created_at ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Single entry point for producing notifications: respects the user's preferences
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT,
+  p_appid TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  prefs public.user_preferences%ROWTYPE;
+BEGIN
+  SELECT * INTO prefs FROM public.user_preferences WHERE user_id = p_user_id;
+
+  -- Users without a preferences row get the defaults (everything enabled)
+  IF FOUND THEN
+    IF NOT prefs.notifications_enabled
+      OR (p_type = 'price_drop' AND NOT prefs.notify_price_drop)
+      OR (p_type = 'new_deal' AND NOT prefs.notify_new_deal) THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, appid, data)
+  VALUES (p_user_id, p_type, p_title, p_body, p_appid, p_data);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- A triggered price alert becomes a price_drop notification
+CREATE OR REPLACE FUNCTION public.notify_price_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_notification(
+    NEW.user_id,
+    'price_drop',
+    NEW.title || ' atingiu seu preço alvo',
+    'R$ ' || to_char(NEW.price, 'FM999999990.00') || ' na ' || NEW.store
+      || CASE WHEN NEW.discount > 0 THEN ' (-' || NEW.discount || '%)' ELSE '' END,
+    NEW.appid,
+    jsonb_build_object('alert_id', NEW.id, 'store', NEW.store, 'price', NEW.price, 'buy_url', NEW.buy_url)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_on_price_alert
+AFTER INSERT ON public.price_alerts
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_price_alert();
+
+-- A favorited game that goes on sale becomes a new_deal notification
+CREATE OR REPLACE FUNCTION public.notify_new_deal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fav RECORD;
+BEGIN
+  IF NEW.available AND COALESCE(OLD.discount, 0) = 0 AND NEW.discount > 0 THEN
+    FOR fav IN SELECT user_id, title FROM public.favorites WHERE appid = NEW.appid LOOP
+      PERFORM public.create_notification(
+        fav.user_id,
+        'new_deal',
+        fav.title || ' entrou em promoção',
+        '-' || NEW.discount || '% na ' || NEW.store || ': ' || NEW.price,
+        NEW.appid,
+        jsonb_build_object('store', NEW.store, 'price', NEW.numeric_price, 'buy_url', NEW.buy_url)
+      );
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_on_new_deal
+AFTER UPDATE ON public.game_prices
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_new_deal();
+
+-- Let the inbox badge update live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
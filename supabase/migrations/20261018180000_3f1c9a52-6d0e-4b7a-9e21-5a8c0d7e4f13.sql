@@ -0,0 +1,32 @@
+-- Email digest preferences. The digest is opt-in: users choose daily or weekly in Settings.
+ALTER TABLE public.user_preferences
+  ADD COLUMN digest_frequency TEXT NOT NULL DEFAULT 'never'
+    CHECK (digest_frequency IN ('never', 'daily', 'weekly')),
+  ADD COLUMN digest_unsubscribe_token UUID NOT NULL DEFAULT gen_random_uuid(),
+  ADD COLUMN last_digest_sent_at TIMESTAMP WITH TIME ZONE;
+
+-- The unsubscribe link in every digest identifies the user by this token
+CREATE UNIQUE INDEX idx_user_preferences_digest_unsubscribe_token
+ON public.user_preferences(digest_unsubscribe_token);
+
+CREATE INDEX idx_user_preferences_digest_frequency
+ON public.user_preferences(digest_frequency)
+WHERE digest_frequency <> 'never';
+
+-- Send digests every morning (09:00 BRT). Weekly subscribers are skipped
+-- by the function until a week has passed since their last digest.
+-- Expects the secrets 'project_url' and 'service_role_key' in Supabase Vault.
+SELECT cron.schedule(
+  'send-price-digest',
+  '0 12 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-price-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,71 @@
+-- Web Push subscriptions, one per user and browser/device
+CREATE TABLE public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own push subscriptions"
+ON public.push_subscriptions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own push subscriptions"
+ON public.push_subscriptions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+ON public.push_subscriptions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Service role can manage push subscriptions"
+ON public.push_subscriptions
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Triggered price alerts are also pushed to the user's devices.
+-- Expects the secrets 'project_url' and 'service_role_key' in Supabase Vault.
+CREATE OR REPLACE FUNCTION public.push_price_alert_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.push_subscriptions WHERE user_id = NEW.user_id) THEN
+    PERFORM net.http_post(
+      url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-push',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+      ),
+      body := jsonb_build_object('notification_id', NEW.id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER push_on_price_alert_notification
+AFTER INSERT ON public.notifications
+FOR EACH ROW
+WHEN (NEW.type = 'price_drop')
+EXECUTE FUNCTION public.push_price_alert_notification();
@@ -0,0 +1,10 @@
+-- Language and pricing currency chosen in Settings, read across the app
+ALTER TABLE public.user_preferences
+  ADD COLUMN language TEXT NOT NULL DEFAULT 'pt-BR'
+    CHECK (language IN ('pt-BR', 'en-US', 'es-ES')),
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL'
+    CHECK (currency IN ('BRL', 'USD', 'EUR', 'GBP'));
+
+-- Favorites keep a price snapshot; remember which currency it was taken in
+ALTER TABLE public.favorites
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL';
@@ -0,0 +1,66 @@
+-- Prices are now fetched per region (Steam cc / GOG countryCode); existing rows are Brazilian
+ALTER TABLE public.game_prices
+  ADD COLUMN region TEXT NOT NULL DEFAULT 'BR';
+
+ALTER TABLE public.game_prices
+  DROP CONSTRAINT game_prices_appid_store_key;
+
+ALTER TABLE public.game_prices
+  ADD CONSTRAINT game_prices_appid_store_region_key UNIQUE (appid, store, region);
+
+ALTER TABLE public.price_history
+  ADD COLUMN region TEXT NOT NULL DEFAULT 'BR';
+
+DROP INDEX IF EXISTS public.idx_price_history_appid_store_recorded_at;
+
+CREATE INDEX idx_price_history_appid_region_store_recorded_at
+ON public.price_history(appid, region, store, recorded_at);
+
+-- History rows carry the region of the price they came from
+CREATE OR REPLACE FUNCTION public.record_price_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.numeric_price IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.numeric_price IS DISTINCT FROM OLD.numeric_price
+    OR NEW.discount IS DISTINCT FROM OLD.discount THEN
+    INSERT INTO public.price_history (appid, store, region, numeric_price, numeric_original_price, discount)
+    VALUES (NEW.appid, NEW.store, NEW.region, NEW.numeric_price, NEW.numeric_original_price, NEW.discount);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Deal notifications stay on Brazilian prices, like price alerts
+CREATE OR REPLACE FUNCTION public.notify_new_deal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fav RECORD;
+BEGIN
+  IF NEW.region = 'BR' AND NEW.available AND COALESCE(OLD.discount, 0) = 0 AND NEW.discount > 0 THEN
+    FOR fav IN SELECT user_id, title FROM public.favorites WHERE appid = NEW.appid LOOP
+      PERFORM public.create_notification(
+        fav.user_id,
+        'new_deal',
+        fav.title || ' entrou em promoção',
+        '-' || NEW.discount || '% na ' || NEW.store || ': ' || NEW.price,
+        NEW.appid,
+        jsonb_build_object('store', NEW.store, 'price', NEW.numeric_price, 'buy_url', NEW.buy_url)
+      );
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$;
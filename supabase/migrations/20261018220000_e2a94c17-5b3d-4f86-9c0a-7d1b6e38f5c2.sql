@@ -0,0 +1,42 @@
+-- Exchange rates loaded by the refresh-exchange-rates job, one row per currency pair
+CREATE TABLE public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  base_currency TEXT NOT NULL,
+  quote_currency TEXT NOT NULL,
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  as_of DATE,
+  provider TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE(base_currency, quote_currency)
+);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view exchange rates"
+ON public.exchange_rates
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Service role can manage exchange rates"
+ON public.exchange_rates
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Reference rates are published once per business day; refreshing every 6 hours is plenty.
+-- Expects the secrets 'project_url' and 'service_role_key' in Supabase Vault.
+SELECT cron.schedule(
+  'refresh-exchange-rates',
+  '15 */6 * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/refresh-exchange-rates',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,72 @@
+-- Prices are stored as amount + ISO currency; formatted strings are built by the clients
+ALTER TABLE public.game_prices
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL';
+
+UPDATE public.game_prices
+SET currency = CASE region
+  WHEN 'US' THEN 'USD'
+  WHEN 'AR' THEN 'USD'
+  WHEN 'TR' THEN 'USD'
+  WHEN 'EU' THEN 'EUR'
+  WHEN 'UK' THEN 'GBP'
+  ELSE 'BRL'
+END;
+
+-- The formatted columns are no longer written; kept nullable for old rows
+ALTER TABLE public.game_prices
+  ALTER COLUMN price DROP NOT NULL,
+  ALTER COLUMN original_price DROP NOT NULL;
+
+-- Notification texts format the numeric price with a decimal comma (R$ 59,90)
+CREATE OR REPLACE FUNCTION public.format_brl(p_value NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 'R$ ' || replace(to_char(p_value, 'FM999999990.00'), '.', ',');
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_price_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_notification(
+    NEW.user_id,
+    'price_drop',
+    NEW.title || ' atingiu seu preço alvo',
+    public.format_brl(NEW.price) || ' na ' || NEW.store
+      || CASE WHEN NEW.discount > 0 THEN ' (-' || NEW.discount || '%)' ELSE '' END,
+    NEW.appid,
+    jsonb_build_object('alert_id', NEW.id, 'store', NEW.store, 'price', NEW.price, 'buy_url', NEW.buy_url)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_new_deal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fav RECORD;
+BEGIN
+  IF NEW.region = 'BR' AND NEW.available AND COALESCE(OLD.discount, 0) = 0 AND NEW.discount > 0 THEN
+    FOR fav IN SELECT user_id, title FROM public.favorites WHERE appid = NEW.appid LOOP
+      PERFORM public.create_notification(
+        fav.user_id,
+        'new_deal',
+        fav.title || ' entrou em promoção',
+        '-' || NEW.discount || '% na ' || NEW.store || ': ' || public.format_brl(NEW.numeric_price),
+        NEW.appid,
+        jsonb_build_object('store', NEW.store, 'price', NEW.numeric_price, 'currency', NEW.currency, 'buy_url', NEW.buy_url)
+      );
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$;
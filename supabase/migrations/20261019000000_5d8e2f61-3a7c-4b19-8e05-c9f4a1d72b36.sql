@@ -0,0 +1,4 @@
+-- Key resellers (Humble, Fanatical, Green Man Gaming) sell keys redeemed on another platform
+ALTER TABLE public.game_prices
+  ADD COLUMN is_key_reseller BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN redemption_platform TEXT;
@@ -0,0 +1,79 @@
+-- Health of each store adapter: success rate, latency and last error, plus the circuit breaker state
+CREATE TABLE public.store_health (
+  store TEXT PRIMARY KEY,
+  success_count INTEGER NOT NULL DEFAULT 0,
+  failure_count INTEGER NOT NULL DEFAULT 0,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  total_latency_ms BIGINT NOT NULL DEFAULT 0,
+  last_latency_ms INTEGER,
+  last_error TEXT,
+  last_error_at TIMESTAMP WITH TIME ZONE,
+  last_success_at TIMESTAMP WITH TIME ZONE,
+  circuit_open_until TIMESTAMP WITH TIME ZONE,
+  success_rate NUMERIC GENERATED ALWAYS AS (
+    CASE WHEN success_count + failure_count = 0 THEN NULL
+    ELSE ROUND(success_count::numeric / (success_count + failure_count), 4) END
+  ) STORED,
+  avg_latency_ms INTEGER GENERATED ALWAYS AS (
+    CASE WHEN success_count + failure_count = 0 THEN NULL
+    ELSE (total_latency_ms / (success_count + failure_count))::integer END
+  ) STORED,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Enable RLS (only the service role reads and writes store health)
+ALTER TABLE public.store_health ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage store health"
+ON public.store_health
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
+
+-- Records one adapter run atomically, since several function instances report at the same time.
+-- After p_failure_threshold consecutive failures the circuit opens for p_cooldown_seconds;
+-- once it expires the next run is a probe: a success closes it, a failure reopens it right away.
+CREATE OR REPLACE FUNCTION public.record_store_outcome(
+  p_store TEXT,
+  p_ok BOOLEAN,
+  p_latency_ms INTEGER,
+  p_error TEXT,
+  p_failure_threshold INTEGER,
+  p_cooldown_seconds INTEGER
+)
+RETURNS public.store_health
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result public.store_health;
+BEGIN
+  INSERT INTO public.store_health (store) VALUES (p_store)
+  ON CONFLICT (store) DO NOTHING;
+
+  UPDATE public.store_health
+  SET
+    success_count = success_count + CASE WHEN p_ok THEN 1 ELSE 0 END,
+    failure_count = failure_count + CASE WHEN p_ok THEN 0 ELSE 1 END,
+    consecutive_failures = CASE WHEN p_ok THEN 0 ELSE consecutive_failures + 1 END,
+    total_latency_ms = total_latency_ms + p_latency_ms,
+    last_latency_ms = p_latency_ms,
+    last_error = CASE WHEN p_ok THEN last_error ELSE p_error END,
+    last_error_at = CASE WHEN p_ok THEN last_error_at ELSE NOW() END,
+    last_success_at = CASE WHEN p_ok THEN NOW() ELSE last_success_at END,
+    circuit_open_until = CASE
+      WHEN p_ok THEN NULL
+      WHEN consecutive_failures + 1 >= p_failure_threshold THEN NOW() + make_interval(secs => p_cooldown_seconds)
+      ELSE circuit_open_until
+    END,
+    updated_at = NOW()
+  WHERE store = p_store
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_store_outcome(TEXT, BOOLEAN, INTEGER, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
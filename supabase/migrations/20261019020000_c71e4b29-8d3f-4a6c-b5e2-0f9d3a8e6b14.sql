@@ -0,0 +1,21 @@
+-- Raw Steam appdetails responses shared by the edge functions (prices, game details, catalog sync).
+-- One row per appid, country and language; rows are overwritten when they expire.
+CREATE TABLE public.steam_app_cache (
+  appid TEXT NOT NULL,
+  country_code TEXT NOT NULL,
+  language TEXT NOT NULL,
+  success BOOLEAN NOT NULL,
+  data JSONB,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (appid, country_code, language)
+);
+
+-- Enable RLS (only the service role reads and writes the cache)
+ALTER TABLE public.steam_app_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage steam app cache"
+ON public.steam_app_cache
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
@@ -0,0 +1,18 @@
+-- Normalized game metadata served by fetch-steam-games, one row per appid and Steam language
+CREATE TABLE public.game_metadata (
+  appid TEXT NOT NULL,
+  language TEXT NOT NULL,
+  metadata JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (appid, language)
+);
+
+-- Enable RLS (only the service role reads and writes the cache)
+ALTER TABLE public.game_metadata ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role can manage game metadata"
+ON public.game_metadata
+FOR ALL
+TO service_role
+USING (true)
+WITH CHECK (true);
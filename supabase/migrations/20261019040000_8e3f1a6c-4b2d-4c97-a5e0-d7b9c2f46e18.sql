@@ -0,0 +1,4 @@
+-- Alert target prices are set in the user's currency; alerts are checked against that region's prices
+ALTER TABLE public.favorites
+  ADD COLUMN target_currency TEXT NOT NULL DEFAULT 'BRL'
+    CHECK (target_currency IN ('BRL', 'USD', 'EUR', 'GBP'));
@@ -0,0 +1,31 @@
+-- Alerts fire once per episode: from the moment a favorite's condition is met until
+-- the price no longer meets it (or the user changes the thresholds), instead of once per price
+ALTER TABLE public.price_alerts
+  DROP CONSTRAINT price_alerts_favorite_id_store_price_key;
+
+CREATE INDEX idx_price_alerts_favorite_id ON public.price_alerts(favorite_id);
+
+-- Set when an alert fires, cleared when the episode ends
+ALTER TABLE public.favorites ADD COLUMN alerted_at TIMESTAMP WITH TIME ZONE;
+
+-- New thresholds start a new episode
+CREATE OR REPLACE FUNCTION public.rearm_favorite_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.target_price IS DISTINCT FROM OLD.target_price
+    OR NEW.target_currency IS DISTINCT FROM OLD.target_currency
+    OR NEW.min_discount IS DISTINCT FROM OLD.min_discount
+    OR NEW.allowed_stores IS DISTINCT FROM OLD.allowed_stores THEN
+    NEW.alerted_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rearm_favorite_alert
+BEFORE UPDATE ON public.favorites
+FOR EACH ROW
+EXECUTE FUNCTION public.rearm_favorite_alert();
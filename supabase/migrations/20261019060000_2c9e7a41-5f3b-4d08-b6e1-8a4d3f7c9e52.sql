@@ -0,0 +1,17 @@
+-- Keep the game catalog in sync with Steam. Each run syncs up to 50 apps, 1.5 s apart,
+-- which stays well under the appdetails rate limit when run hourly.
+-- Expects the secrets 'project_url' and 'service_role_key' in Supabase Vault.
+SELECT cron.schedule(
+  'sync-game-catalog',
+  '45 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sync-game-catalog',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
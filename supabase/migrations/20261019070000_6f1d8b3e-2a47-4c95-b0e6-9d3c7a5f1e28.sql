@@ -0,0 +1,119 @@
+-- Notifications are stored as a type plus render params (game, store, price as Money, discount);
+-- the app and the push sender write the text in the user's language.
+-- title and body are only kept for notifications created before this change.
+ALTER TABLE public.notifications
+  ALTER COLUMN title DROP NOT NULL,
+  ALTER COLUMN body DROP NOT NULL;
+
+-- Alert targets can be set in any app currency, so the alert keeps the currency of its price
+ALTER TABLE public.price_alerts
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'BRL';
+
+-- NUMERIC price -> Money (amount in minor units; every app currency has 2 decimals)
+CREATE OR REPLACE FUNCTION public.money_json(p_value NUMERIC, p_currency TEXT)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object('amount', round(p_value * 100)::BIGINT, 'currency', p_currency);
+$$;
+
+DROP FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, JSONB);
+
+-- Single entry point for producing notifications: respects the user's preferences
+CREATE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_appid TEXT DEFAULT NULL,
+  p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  prefs public.user_preferences%ROWTYPE;
+BEGIN
+  SELECT * INTO prefs FROM public.user_preferences WHERE user_id = p_user_id;
+
+  -- Users without a preferences row get the defaults (everything enabled)
+  IF FOUND THEN
+    IF NOT prefs.notifications_enabled
+      OR (p_type = 'price_drop' AND NOT prefs.notify_price_drop)
+      OR (p_type = 'new_deal' AND NOT prefs.notify_new_deal) THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, appid, data)
+  VALUES (p_user_id, p_type, p_appid, p_data);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_price_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.create_notification(
+    NEW.user_id,
+    'price_drop',
+    NEW.appid,
+    jsonb_build_object(
+      'alert_id', NEW.id,
+      'game', NEW.title,
+      'store', NEW.store,
+      'price', public.money_json(NEW.price, NEW.currency),
+      'discount', NEW.discount,
+      'buy_url', NEW.buy_url
+    )
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- A favorited game that goes on sale becomes a new_deal notification,
+-- including stores whose first saved price is already discounted
+CREATE OR REPLACE FUNCTION public.notify_new_deal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fav RECORD;
+BEGIN
+  IF NEW.region = 'BR' AND NEW.available AND NEW.discount > 0
+    AND (TG_OP = 'INSERT' OR COALESCE(OLD.discount, 0) = 0) THEN
+    FOR fav IN SELECT user_id, title FROM public.favorites WHERE appid = NEW.appid LOOP
+      PERFORM public.create_notification(
+        fav.user_id,
+        'new_deal',
+        NEW.appid,
+        jsonb_build_object(
+          'game', fav.title,
+          'store', NEW.store,
+          'price', public.money_json(NEW.numeric_price, NEW.currency),
+          'discount', NEW.discount,
+          'buy_url', NEW.buy_url
+        )
+      );
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER notify_on_new_deal ON public.game_prices;
+
+CREATE TRIGGER notify_on_new_deal
+AFTER INSERT OR UPDATE ON public.game_prices
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_new_deal();
+
+DROP FUNCTION public.format_brl(NUMERIC);
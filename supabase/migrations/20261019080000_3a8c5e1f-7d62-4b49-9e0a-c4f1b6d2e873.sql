@@ -0,0 +1,55 @@
+-- new_deal notifications only on a real sale transition, and only for followers who price in that region.
+-- A game's first saved price is not a transition: notifying on INSERT alerted every follower at once.
+CREATE OR REPLACE FUNCTION public.notify_new_deal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  fav RECORD;
+BEGIN
+  -- Went on sale (was full price or unavailable), or the sale got deeper and the price dropped
+  IF NEW.available AND NEW.discount > 0
+    AND (
+      NOT OLD.available
+      OR COALESCE(OLD.discount, 0) = 0
+      OR (NEW.discount > OLD.discount AND NEW.numeric_price < OLD.numeric_price)
+    ) THEN
+    -- Same mapping as regionForCurrency: users without preferences price in BRL
+    FOR fav IN
+      SELECT f.user_id, f.title
+      FROM public.favorites f
+      LEFT JOIN public.user_preferences p ON p.user_id = f.user_id
+      WHERE f.appid = NEW.appid
+        AND CASE COALESCE(p.currency, 'BRL')
+          WHEN 'BRL' THEN 'BR'
+          WHEN 'USD' THEN 'US'
+          WHEN 'EUR' THEN 'EU'
+          WHEN 'GBP' THEN 'UK'
+        END = NEW.region
+    LOOP
+      PERFORM public.create_notification(
+        fav.user_id,
+        'new_deal',
+        NEW.appid,
+        jsonb_build_object(
+          'game', fav.title,
+          'store', NEW.store,
+          'price', public.money_json(NEW.numeric_price, NEW.currency),
+          'discount', NEW.discount,
+          'buy_url', NEW.buy_url
+        )
+      );
+    END LOOP;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER notify_on_new_deal ON public.game_prices;
+
+CREATE TRIGGER notify_on_new_deal
+AFTER UPDATE ON public.game_prices
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_new_deal();
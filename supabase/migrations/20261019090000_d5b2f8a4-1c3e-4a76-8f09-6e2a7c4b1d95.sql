@@ -0,0 +1,9 @@
+-- A store can sell a game in one region and not in another, so "not found" is remembered per region:
+-- region code -> when the search last came back without the game. Found products stay region-independent.
+ALTER TABLE public.store_listings
+  ADD COLUMN not_found_at JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Negative rows so far were all written by BR lookups
+UPDATE public.store_listings
+SET not_found_at = jsonb_build_object('BR', updated_at)
+WHERE store_product_id IS NULL;
@@ -0,0 +1,39 @@
+-- Lowest and highest price per (appid, store), overall and in a window, aggregated in the database.
+-- Reading raw price_history rows stops at PostgREST's 1000-row limit and computed lows from a subset.
+CREATE OR REPLACE FUNCTION public.price_history_lows(p_appids TEXT[], p_region TEXT, p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  appid TEXT,
+  store TEXT,
+  all_time_low NUMERIC,
+  all_time_high NUMERIC,
+  window_low NUMERIC,
+  window_high NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH points AS (
+    SELECT
+      h.appid,
+      h.store,
+      h.numeric_price,
+      -- The price in effect when the window opened also counts toward it
+      h.recorded_at >= p_since
+        OR h.recorded_at = MAX(h.recorded_at) FILTER (WHERE h.recorded_at < p_since)
+          OVER (PARTITION BY h.appid, h.store) AS in_window
+    FROM public.price_history h
+    WHERE h.appid = ANY(p_appids)
+      AND h.region = p_region
+  )
+  SELECT
+    points.appid,
+    points.store,
+    MIN(points.numeric_price),
+    MAX(points.numeric_price),
+    MIN(points.numeric_price) FILTER (WHERE points.in_window),
+    MAX(points.numeric_price) FILTER (WHERE points.in_window)
+  FROM points
+  GROUP BY points.appid, points.store
+  ORDER BY points.appid, points.store;
+$$;
@@ -0,0 +1,31 @@
+-- Price history of a period for the digest: every row since p_since plus, per (appid, store),
+-- the last row before it (the price in effect when the period opened). Older rows are not needed.
+CREATE OR REPLACE FUNCTION public.price_history_since(p_appids TEXT[], p_region TEXT, p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  id UUID,
+  appid TEXT,
+  store TEXT,
+  numeric_price NUMERIC,
+  recorded_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT h.id, h.appid, h.store, h.numeric_price, h.recorded_at
+  FROM public.price_history h
+  WHERE h.appid = ANY(p_appids)
+    AND h.region = p_region
+    AND h.recorded_at >= p_since
+  UNION ALL
+  SELECT before.id, before.appid, before.store, before.numeric_price, before.recorded_at
+  FROM (
+    SELECT DISTINCT ON (h.appid, h.store) h.id, h.appid, h.store, h.numeric_price, h.recorded_at
+    FROM public.price_history h
+    WHERE h.appid = ANY(p_appids)
+      AND h.region = p_region
+      AND h.recorded_at < p_since
+    ORDER BY h.appid, h.store, h.recorded_at DESC, h.id DESC
+  ) before
+  ORDER BY recorded_at, id;
+$$;
@@ -0,0 +1,37 @@
+-- Catalog genres as Steam genre ids, translated in the app; names came back in Portuguese only
+ALTER TABLE public.games
+  ADD COLUMN genre_ids TEXT[] NOT NULL DEFAULT '{}';
+
+-- Backfill from the Portuguese names already stored, so the Feed keeps its genres until the next sync
+UPDATE public.games
+SET genre_ids = ARRAY(
+  SELECT DISTINCT CASE lower(name)
+    WHEN 'ação' THEN '1'
+    WHEN 'estratégia' THEN '2'
+    WHEN 'rpg' THEN '3'
+    WHEN 'casual' THEN '4'
+    WHEN 'corrida' THEN '9'
+    WHEN 'esportes' THEN '18'
+    WHEN 'indie' THEN '23'
+    WHEN 'aventura' THEN '25'
+    WHEN 'simulação' THEN '28'
+    WHEN 'multijogador massivo' THEN '29'
+    WHEN 'gratuito para jogar' THEN '37'
+    WHEN 'acesso antecipado' THEN '70'
+  END
+  FROM unnest(genres) AS name
+  WHERE lower(name) IN (
+    'ação', 'estratégia', 'rpg', 'casual', 'corrida', 'esportes', 'indie',
+    'aventura', 'simulação', 'multijogador massivo', 'gratuito para jogar', 'acesso antecipado'
+  )
+);
+
+-- Everything is synced again so genre_ids come straight from Steam
+UPDATE public.games SET synced_at = NULL;
+
+DROP INDEX IF EXISTS public.idx_games_genres;
+
+ALTER TABLE public.games
+  DROP COLUMN genres;
+
+CREATE INDEX idx_games_genre_ids ON public.games USING GIN(genre_ids);
@@ -0,0 +1,36 @@
+-- price_history_since also feeds the price history chart, which needs the original price and discount.
+-- The return type changes, so the function has to be dropped first.
+DROP FUNCTION public.price_history_since(TEXT[], TEXT, TIMESTAMP WITH TIME ZONE);
+
+CREATE FUNCTION public.price_history_since(p_appids TEXT[], p_region TEXT, p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+  id UUID,
+  appid TEXT,
+  store TEXT,
+  numeric_price NUMERIC,
+  numeric_original_price NUMERIC,
+  discount INTEGER,
+  recorded_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT h.id, h.appid, h.store, h.numeric_price, h.numeric_original_price, h.discount, h.recorded_at
+  FROM public.price_history h
+  WHERE h.appid = ANY(p_appids)
+    AND h.region = p_region
+    AND h.recorded_at >= p_since
+  UNION ALL
+  SELECT before.id, before.appid, before.store, before.numeric_price, before.numeric_original_price, before.discount, before.recorded_at
+  FROM (
+    SELECT DISTINCT ON (h.appid, h.store)
+      h.id, h.appid, h.store, h.numeric_price, h.numeric_original_price, h.discount, h.recorded_at
+    FROM public.price_history h
+    WHERE h.appid = ANY(p_appids)
+      AND h.region = p_region
+      AND h.recorded_at < p_since
+    ORDER BY h.appid, h.store, h.recorded_at DESC, h.id DESC
+  ) before
+  ORDER BY recorded_at, id;
+$$;